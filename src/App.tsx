@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/components/ThemeProvider";
+import { OrganizationScopeProvider } from "@/components/OrganizationScopeProvider";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
@@ -14,19 +15,32 @@ import LessonViewer from "./pages/LessonViewer";
 import Services from "./pages/Services";
 import Files from "./pages/Files";
 import Prompts from "./pages/Prompts";
+import MyNotes from "./pages/MyNotes";
 import Support from "./pages/Support";
 import NotFound from "./pages/NotFound";
+import VerifyCertificate from "./pages/VerifyCertificate";
+import AcceptInvite from "./pages/AcceptInvite";
+import ResetPassword from "./pages/ResetPassword";
+import OrgDashboard from "./pages/OrgDashboard";
 import Layout from "./components/Layout";
 import AdminLayout from "./components/AdminLayout";
 import ProtectedRoute from "./components/ProtectedRoute";
 import AdminRoute from "./components/AdminRoute";
+import OrgManagerRoute from "./components/OrgManagerRoute";
+import CourseAccessRoute from "./components/CourseAccessRoute";
 import AdminDashboard from "./pages/AdminDashboard";
 import AdminStudents from "./pages/AdminStudents";
 import AdminStudentDetail from "./pages/AdminStudentDetail";
 import AdminCourses from "./pages/AdminCourses";
 import AdminServices from "./pages/AdminServices";
 import AdminAddUser from "./pages/AdminAddUser";
+import AdminImportUsers from "./pages/AdminImportUsers";
 import AdminFiles from "./pages/AdminFiles";
+import AdminCohorts from "./pages/AdminCohorts";
+import AdminCohortDetail from "./pages/AdminCohortDetail";
+import AdminOrganizations from "./pages/AdminOrganizations";
+import AdminStaff from "./pages/AdminStaff";
+import AdminAuditLog from "./pages/AdminAuditLog";
 
 const queryClient = new QueryClient();
 
@@ -36,10 +50,14 @@ function App() {
       <ThemeProvider defaultTheme="light">
         <TooltipProvider>
           <Toaster />
+          <OrganizationScopeProvider>
           <BrowserRouter>
             <Routes>
               <Route path="/" element={<Index />} />
               <Route path="/auth" element={<Auth />} />
+              <Route path="/verify/:code" element={<VerifyCertificate />} />
+              <Route path="/accept-invite" element={<AcceptInvite />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
               
               {/* Protected User Routes */}
               <Route path="/dashboard" element={
@@ -69,7 +87,9 @@ function App() {
               <Route path="/courses/:id" element={
                 <ProtectedRoute>
                   <Layout>
-                    <CourseDetail />
+                    <CourseAccessRoute>
+                      <CourseDetail />
+                    </CourseAccessRoute>
                   </Layout>
                 </ProtectedRoute>
               } />
@@ -77,7 +97,9 @@ function App() {
               <Route path="/courses/:courseId/lessons/:lessonId" element={
                 <ProtectedRoute>
                   <Layout>
-                    <LessonViewer />
+                    <CourseAccessRoute>
+                      <LessonViewer />
+                    </CourseAccessRoute>
                   </Layout>
                 </ProtectedRoute>
               } />
@@ -98,6 +120,14 @@ function App() {
                 </ProtectedRoute>
               } />
               
+              <Route path="/notes" element={
+                <ProtectedRoute>
+                  <Layout>
+                    <MyNotes />
+                  </Layout>
+                </ProtectedRoute>
+              } />
+              
               <Route path="/prompts" element={
                 <ProtectedRoute>
                   <Layout>
@@ -114,6 +144,15 @@ function App() {
                 </ProtectedRoute>
               } />
 
+              {/* Organization Manager Routes */}
+              <Route path="/org" element={
+                <OrgManagerRoute>
+                  <Layout>
+                    <OrgDashboard />
+                  </Layout>
+                </OrgManagerRoute>
+              } />
+
               {/* Admin Routes */}
               <Route path="/admin" element={
                 <AdminRoute>
@@ -132,7 +171,7 @@ function App() {
               } />
               
               <Route path="/admin/students" element={
-                <AdminRoute>
+                <AdminRoute permission="manage_users">
                   <AdminLayout>
                     <AdminStudents />
                   </AdminLayout>
@@ -140,7 +179,7 @@ function App() {
               } />
               
               <Route path="/admin/students/:id" element={
-                <AdminRoute>
+                <AdminRoute permission="manage_users">
                   <AdminLayout>
                     <AdminStudentDetail />
                   </AdminLayout>
@@ -148,7 +187,7 @@ function App() {
               } />
               
               <Route path="/admin/courses" element={
-                <AdminRoute>
+                <AdminRoute permission="manage_content">
                   <AdminLayout>
                     <AdminCourses />
                   </AdminLayout>
@@ -156,7 +195,7 @@ function App() {
               } />
               
               <Route path="/admin/services" element={
-                <AdminRoute>
+                <AdminRoute permission="manage_services">
                   <AdminLayout>
                     <AdminServices />
                   </AdminLayout>
@@ -164,24 +203,73 @@ function App() {
               } />
               
               <Route path="/admin/add-user" element={
-                <AdminRoute>
+                <AdminRoute permission="manage_users">
                   <AdminLayout>
                     <AdminAddUser />
                   </AdminLayout>
                 </AdminRoute>
               } />
+
+              <Route path="/admin/import-users" element={
+                <AdminRoute permission="manage_users">
+                  <AdminLayout>
+                    <AdminImportUsers />
+                  </AdminLayout>
+                </AdminRoute>
+              } />
               
               <Route path="/admin/files" element={
-                <AdminRoute>
+                <AdminRoute permission="manage_files">
                   <AdminLayout>
                     <AdminFiles />
                   </AdminLayout>
                 </AdminRoute>
               } />
 
+              <Route path="/admin/cohorts" element={
+                <AdminRoute permission="manage_users">
+                  <AdminLayout>
+                    <AdminCohorts />
+                  </AdminLayout>
+                </AdminRoute>
+              } />
+
+              <Route path="/admin/cohorts/:id" element={
+                <AdminRoute permission="manage_users">
+                  <AdminLayout>
+                    <AdminCohortDetail />
+                  </AdminLayout>
+                </AdminRoute>
+              } />
+
+              <Route path="/admin/organizations" element={
+                <AdminRoute permission="manage_users">
+                  <AdminLayout>
+                    <AdminOrganizations />
+                  </AdminLayout>
+                </AdminRoute>
+              } />
+
+              <Route path="/admin/staff" element={
+                <AdminRoute permission="manage_staff">
+                  <AdminLayout>
+                    <AdminStaff />
+                  </AdminLayout>
+                </AdminRoute>
+              } />
+
+              <Route path="/admin/audit-log" element={
+                <AdminRoute permission="view_reports">
+                  <AdminLayout>
+                    <AdminAuditLog />
+                  </AdminLayout>
+                </AdminRoute>
+              } />
+
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
+          </OrganizationScopeProvider>
         </TooltipProvider>
       </ThemeProvider>
     </QueryClientProvider>
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import SessionList, { AuthSession } from '@/components/SessionList';
+import { toast } from 'sonner';
+import { MonitorSmartphone } from 'lucide-react';
+
+const ActiveSessions = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchSessions();
+    }
+  }, [user]);
+
+  const fetchSessions = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_my_sessions');
+      if (error) throw error;
+      setSessions(data || []);
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      toast.error('Failed to load active sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: AuthSession) => {
+    setBusy(true);
+
+    try {
+      const { error } = await supabase.rpc('revoke_my_session', { p_session_id: session.id });
+      if (error) throw error;
+
+      toast.success('Session signed out');
+      await fetchSessions();
+    } catch (error: any) {
+      toast.error(`Failed to sign out session: ${error.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOutOthers = async () => {
+    setBusy(true);
+
+    try {
+      const { error } = await supabase.auth.signOut({ scope: 'others' });
+      if (error) throw error;
+
+      toast.success('Signed out of all other devices');
+      await fetchSessions();
+    } catch (error: any) {
+      toast.error(`Failed to sign out other devices: ${error.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setBusy(true);
+
+    try {
+      const { error } = await supabase.auth.signOut({ scope: 'global' });
+      if (error) throw error;
+
+      navigate('/auth');
+    } catch (error: any) {
+      toast.error(`Failed to sign out everywhere: ${error.message}`);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          <span>Active Sessions</span>
+        </CardTitle>
+        <CardDescription>
+          Devices where your account is signed in. Signed-out devices lose access within an hour.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <SessionList sessions={sessions} onRevoke={handleRevoke} revoking={busy} />
+        )}
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={handleSignOutOthers} disabled={busy || sessions.length < 2}>
+            Sign Out Other Devices
+          </Button>
+          <Button variant="outline" onClick={handleSignOutEverywhere} disabled={busy} className="text-destructive hover:text-destructive">
+            Sign Out Everywhere
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActiveSessions;
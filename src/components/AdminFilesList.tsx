@@ -162,22 +162,7 @@ const AdminFilesList = ({ studentId, studentName }: AdminFilesListProps) => {
 
       if (error) {
         console.error('Error creating download URL:', error);
-        const { data: publicData } = supabase.storage
-          .from('student-files')
-          .getPublicUrl(storagePath);
-        
-        if (publicData.publicUrl) {
-          const a = document.createElement('a');
-          a.href = publicData.publicUrl;
-          a.download = file.name;
-          a.style.display = 'none';
-          a.target = '_blank';
-          a.rel = 'noopener noreferrer';
-          document.body.appendChild(a);
-          a.click();
-          setTimeout(() => document.body.removeChild(a), 100);
-          return;
-        }
+        toast.error('Failed to download file');
         return;
       }
 
@@ -12,27 +12,44 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/hooks/useAuth';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { StaffPermission } from '@/lib/permissions';
 import { useTheme } from '@/components/ThemeProvider';
-import { Moon, Sun, Users, BookOpen, Zap, BarChart3, FileText } from 'lucide-react';
+import OrganizationScopeSelect from '@/components/admin/OrganizationScopeSelect';
+import { Moon, Sun, Users, BookOpen, Zap, BarChart3, FileText, GraduationCap, Building2, ShieldCheck, ScrollText } from 'lucide-react';
 
 interface AdminLayoutProps {
   children: React.ReactNode;
 }
 
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: typeof BarChart3;
+  permission?: StaffPermission;
+}
+
 const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
   const location = useLocation();
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
   const { theme, setTheme } = useTheme();
+  const { can } = useAdminAuth();
 
-  const navigation = [
+  const navigation: NavigationItem[] = [
     { name: 'Dashboard', href: '/admin', icon: BarChart3 },
-    { name: 'Students', href: '/admin/students', icon: Users },
-    { name: 'Courses', href: '/admin/courses', icon: BookOpen },
-    { name: 'Services', href: '/admin/services', icon: Zap },
-    { name: 'Files', href: '/admin/files', icon: FileText },
+    { name: 'Students', href: '/admin/students', icon: Users, permission: 'manage_users' },
+    { name: 'Cohorts', href: '/admin/cohorts', icon: GraduationCap, permission: 'manage_users' },
+    { name: 'Organizations', href: '/admin/organizations', icon: Building2, permission: 'manage_users' },
+    { name: 'Courses', href: '/admin/courses', icon: BookOpen, permission: 'manage_content' },
+    { name: 'Services', href: '/admin/services', icon: Zap, permission: 'manage_services' },
+    { name: 'Files', href: '/admin/files', icon: FileText, permission: 'manage_files' },
+    { name: 'Staff', href: '/admin/staff', icon: ShieldCheck, permission: 'manage_staff' },
+    { name: 'Audit Log', href: '/admin/audit-log', icon: ScrollText, permission: 'view_reports' },
   ];
 
+  const visibleNavigation = navigation.filter(item => !item.permission || can(item.permission));
+
   const isActive = (path: string) => location.pathname === path;
 
   const handleSignOut = async () => {
@@ -61,7 +78,7 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
 
             {/* Navigation */}
             <nav className="hidden md:flex space-x-1">
-              {navigation.map((item) => {
+              {visibleNavigation.map((item) => {
                 const Icon = item.icon;
                 return (
                   <Link
@@ -130,6 +147,10 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Scopes students, files, services and progress to one client */}
+        <div className="flex justify-end mb-6">
+          <OrganizationScopeSelect />
+        </div>
         {children}
       </main>
     </div>
@@ -1,16 +1,27 @@
 
 import React from 'react';
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
 import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { useMfa } from '@/hooks/useMfa';
+import { useSecuritySettings } from '@/hooks/useSecuritySettings';
+import { StaffPermission } from '@/lib/permissions';
+import { ShieldCheck } from 'lucide-react';
 
 interface AdminRouteProps {
   children: React.ReactNode;
+  // Capability the page needs; staff without it are sent back to the admin dashboard
+  permission?: StaffPermission;
+  // Staff must have passed a TOTP check in this session; defaults to the portal setting
+  requireMfa?: boolean;
 }
 
-const AdminRoute: React.FC<AdminRouteProps> = ({ children }) => {
-  const { isAdmin, loading } = useAdminAuth();
+const AdminRoute: React.FC<AdminRouteProps> = ({ children, permission, requireMfa }) => {
+  const { isAdmin, can, loading } = useAdminAuth();
+  const { needsChallenge, isVerified, loading: mfaLoading } = useMfa();
+  const { requireStaffMfa, loading: settingsLoading } = useSecuritySettings();
 
-  if (loading) {
+  if (loading || mfaLoading || settingsLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -23,10 +34,38 @@ const AdminRoute: React.FC<AdminRouteProps> = ({ children }) => {
     );
   }
 
+  if (needsChallenge) {
+    return <Navigate to="/auth" replace />;
+  }
+
   if (!isAdmin) {
     return <Navigate to="/dashboard" replace />;
   }
 
+  // Staff with a factor have already been challenged above, so this only reaches those
+  // still to enroll; without a factor the database would return empty results
+  if ((requireMfa ?? requireStaffMfa) && !isVerified) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="text-center max-w-md space-y-4">
+          <ShieldCheck className="h-12 w-12 text-[#0D5C4B] mx-auto" />
+          <h1 className="text-2xl font-bold text-[#0D5C4B]">Two-Factor Authentication Required</h1>
+          <p className="text-gray-600">
+            The admin portal holds client documents, so staff accounts need an authenticator app.
+            Set one up from your profile, then come back.
+          </p>
+          <Link to="/profile">
+            <Button className="bg-[#0D5C4B] hover:bg-green-700">Set Up Two-Factor Authentication</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (permission && !can(permission)) {
+    return <Navigate to="/admin" replace />;
+  }
+
   return <>{children}</>;
 };
 
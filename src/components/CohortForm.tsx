@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+interface CohortFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cohort?: any;
+  mode: 'add' | 'edit';
+  courses: any[];
+  services: any[];
+}
+
+const toggleId = (ids: string[], id: string, checked: boolean) =>
+  checked ? [...ids, id] : ids.filter(existingId => existingId !== id);
+
+const CohortForm: React.FC<CohortFormProps> = ({ isOpen, onClose, cohort, mode, courses, services }) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [courseIds, setCourseIds] = useState<string[]>([]);
+  const [serviceIds, setServiceIds] = useState<string[]>([]);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(cohort?.name || '');
+      setDescription(cohort?.description || '');
+      setStartDate(cohort?.start_date || '');
+      setCourseIds(mode === 'edit' ? (cohort?.cohort_courses || []).map((row: any) => row.course_id) : []);
+      setServiceIds(mode === 'edit' ? (cohort?.cohort_services || []).map((row: any) => row.service_id) : []);
+    }
+  }, [isOpen, cohort, mode]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const cohortFields = { name, description, start_date: startDate || null };
+      let cohortId = cohort?.id;
+
+      if (mode === 'add') {
+        const { data, error } = await supabase
+          .from('cohorts')
+          .insert(cohortFields)
+          .select('id')
+          .single();
+        if (error) throw error;
+        cohortId = data.id;
+      } else {
+        const { error } = await supabase
+          .from('cohorts')
+          .update({ ...cohortFields, updated_at: new Date().toISOString() })
+          .eq('id', cohortId);
+        if (error) throw error;
+      }
+
+      // Only touch bundle rows that changed: removing a row revokes it from every member
+      const previousCourseIds: string[] = mode === 'edit' ? (cohort?.cohort_courses || []).map((row: any) => row.course_id) : [];
+      const previousServiceIds: string[] = mode === 'edit' ? (cohort?.cohort_services || []).map((row: any) => row.service_id) : [];
+
+      const removedCourseIds = previousCourseIds.filter(id => !courseIds.includes(id));
+      if (removedCourseIds.length > 0) {
+        const { error } = await supabase
+          .from('cohort_courses')
+          .delete()
+          .eq('cohort_id', cohortId)
+          .in('course_id', removedCourseIds);
+        if (error) throw error;
+      }
+
+      const addedCourseIds = courseIds.filter(id => !previousCourseIds.includes(id));
+      if (addedCourseIds.length > 0) {
+        const { error } = await supabase
+          .from('cohort_courses')
+          .insert(addedCourseIds.map(courseId => ({ cohort_id: cohortId, course_id: courseId })));
+        if (error) throw error;
+      }
+
+      const removedServiceIds = previousServiceIds.filter(id => !serviceIds.includes(id));
+      if (removedServiceIds.length > 0) {
+        const { error } = await supabase
+          .from('cohort_services')
+          .delete()
+          .eq('cohort_id', cohortId)
+          .in('service_id', removedServiceIds);
+        if (error) throw error;
+      }
+
+      const addedServiceIds = serviceIds.filter(id => !previousServiceIds.includes(id));
+      if (addedServiceIds.length > 0) {
+        const { error } = await supabase
+          .from('cohort_services')
+          .insert(addedServiceIds.map(serviceId => ({ cohort_id: cohortId, service_id: serviceId })));
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success(`Cohort ${mode === 'add' ? 'created' : 'updated'} successfully`);
+      queryClient.invalidateQueries({ queryKey: ['admin-cohorts'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-cohort', cohort?.id] });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to ${mode} cohort: ${error.message}`);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Cohort name is required');
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{mode === 'add' ? 'Add New Cohort' : 'Edit Cohort'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="cohort-name">Cohort Name</Label>
+            <Input
+              id="cohort-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Autumn 2025 Leadership"
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="cohort-description">Description</Label>
+            <Textarea
+              id="cohort-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Enter cohort description"
+              rows={3}
+            />
+          </div>
+          <div>
+            <Label htmlFor="cohort-start-date">Start Date</Label>
+            <Input
+              id="cohort-start-date"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Members' course enrollments start on this date, so scheduled lessons release together.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Courses</Label>
+              <div className="border rounded-md p-3 space-y-2 max-h-48 overflow-y-auto mt-2">
+                {courses.length === 0 && <p className="text-sm text-muted-foreground">No courses available</p>}
+                {courses.map(course => (
+                  <div key={course.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`cohort-course-${course.id}`}
+                      checked={courseIds.includes(course.id)}
+                      onCheckedChange={(checked) => setCourseIds(prev => toggleId(prev, course.id, checked === true))}
+                    />
+                    <Label htmlFor={`cohort-course-${course.id}`} className="font-normal">
+                      {course.title}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label>Services</Label>
+              <div className="border rounded-md p-3 space-y-2 max-h-48 overflow-y-auto mt-2">
+                {services.length === 0 && <p className="text-sm text-muted-foreground">No services available</p>}
+                {services.map(service => (
+                  <div key={service.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`cohort-service-${service.id}`}
+                      checked={serviceIds.includes(service.id)}
+                      onCheckedChange={(checked) => setServiceIds(prev => toggleId(prev, service.id, checked === true))}
+                    />
+                    <Label htmlFor={`cohort-service-${service.id}`} className="font-normal">
+                      {service.title}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={saveMutation.isPending}
+              className="flex-1"
+            >
+              {saveMutation.isPending ? 'Saving...' : mode === 'add' ? 'Create Cohort' : 'Update Cohort'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CohortForm;
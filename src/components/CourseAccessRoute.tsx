@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { ArrowLeft, Lock, BookOpen } from 'lucide-react';
+
+interface CourseAccessRouteProps {
+  children: React.ReactNode;
+}
+
+type CourseAccessStatus = 'loading' | 'enrolled' | 'not-enrolled' | 'locked' | 'prerequisites';
+
+const CourseAccessRoute: React.FC<CourseAccessRouteProps> = ({ children }) => {
+  const { id, courseId } = useParams();
+  const targetCourseId = courseId || id;
+  const { user, isAdmin, loading } = useAdminAuth();
+  const [status, setStatus] = useState<CourseAccessStatus>('loading');
+  const [blockingCourseTitles, setBlockingCourseTitles] = useState<string[]>([]);
+
+  useEffect(() => {
+    const checkEnrollment = async () => {
+      if (!user || !targetCourseId) return;
+
+      // Admins can preview every course
+      if (isAdmin) {
+        setStatus('enrolled');
+        return;
+      }
+
+      setStatus('loading');
+
+      try {
+        const { data, error } = await supabase
+          .from('user_course_assignments')
+          .select('locked')
+          .eq('user_id', user.id)
+          .eq('course_id', targetCourseId);
+
+        if (error) throw error;
+
+        if (!data?.length) {
+          setStatus('not-enrolled');
+        } else if (data.every(assignment => assignment.locked)) {
+          setStatus('locked');
+        } else {
+          const { data: availability, error: availabilityError } = await supabase.rpc('get_my_course_availability');
+          if (availabilityError) throw availabilityError;
+
+          const titles = availability?.find(row => row.course_id === targetCourseId)?.blocking_course_titles || [];
+          setBlockingCourseTitles(titles);
+          setStatus(titles.length > 0 ? 'prerequisites' : 'enrolled');
+        }
+      } catch (error) {
+        console.error('Error checking course enrollment:', error);
+        setStatus('not-enrolled');
+      }
+    };
+
+    if (!loading) {
+      checkEnrollment();
+    }
+  }, [user, isAdmin, loading, targetCourseId]);
+
+  if (loading || status === 'loading') {
+    return <div className="p-6">Checking course access...</div>;
+  }
+
+  if (status !== 'enrolled') {
+    const isLocked = status === 'locked';
+    const isWaiting = status === 'prerequisites';
+
+    return (
+      <Card className="max-w-xl mx-auto">
+        <CardContent className="text-center py-12">
+          {isLocked || isWaiting ? (
+            <Lock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          ) : (
+            <BookOpen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          )}
+          <h3 className="text-lg font-medium mb-2">
+            {isWaiting
+              ? `Available after ${blockingCourseTitles.join(', ')}`
+              : isLocked ? 'This course is locked' : "You're not enrolled in this course"}
+          </h3>
+          <p className="text-muted-foreground mb-6">
+            {isWaiting
+              ? 'This course opens automatically once you complete the courses that come before it.'
+              : isLocked
+                ? 'Your access to this course has been paused. Please contact your administrator.'
+                : 'Contact your administrator to be enrolled in this course.'}
+          </p>
+          <Link to="/courses">
+            <Button variant="outline">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Courses
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default CourseAccessRoute;
@@ -1,11 +1,12 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
@@ -14,20 +15,39 @@ interface CourseFormProps {
   onClose: () => void;
   course?: any;
   mode: 'add' | 'edit';
+  courses: any[];
 }
 
-const CourseForm: React.FC<CourseFormProps> = ({ isOpen, onClose, course, mode }) => {
+const CourseForm: React.FC<CourseFormProps> = ({ isOpen, onClose, course, mode, courses }) => {
   const [title, setTitle] = useState(course?.title || '');
   const [description, setDescription] = useState(course?.description || '');
+  const [prerequisiteIds, setPrerequisiteIds] = useState<string[]>([]);
   const queryClient = useQueryClient();
 
+  useEffect(() => {
+    if (isOpen) {
+      setPrerequisiteIds(
+        mode === 'edit'
+          ? (course?.course_prerequisites || []).map((prerequisite: any) => prerequisite.prerequisite_course_id)
+          : []
+      );
+    }
+  }, [isOpen, course, mode]);
+
+  const prerequisiteOptions = courses.filter(option => option.id !== course?.id);
+
   const saveMutation = useMutation({
     mutationFn: async () => {
+      let courseId = course?.id;
+
       if (mode === 'add') {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('courses')
-          .insert({ title, description });
+          .insert({ title, description })
+          .select('id')
+          .single();
         if (error) throw error;
+        courseId = data.id;
       } else {
         const { error } = await supabase
           .from('courses')
@@ -35,6 +55,23 @@ const CourseForm: React.FC<CourseFormProps> = ({ isOpen, onClose, course, mode }
           .eq('id', course.id);
         if (error) throw error;
       }
+
+      // Replace the prerequisite set; the database rejects circular chains
+      const { error: clearError } = await supabase
+        .from('course_prerequisites')
+        .delete()
+        .eq('course_id', courseId);
+      if (clearError) throw clearError;
+
+      if (prerequisiteIds.length > 0) {
+        const { error: prerequisitesError } = await supabase
+          .from('course_prerequisites')
+          .insert(prerequisiteIds.map(prerequisiteId => ({
+            course_id: courseId,
+            prerequisite_course_id: prerequisiteId
+          })));
+        if (prerequisitesError) throw prerequisitesError;
+      }
     },
     onSuccess: () => {
       toast.success(`Course ${mode === 'add' ? 'created' : 'updated'} successfully`);
@@ -42,12 +79,19 @@ const CourseForm: React.FC<CourseFormProps> = ({ isOpen, onClose, course, mode }
       onClose();
       setTitle('');
       setDescription('');
+      setPrerequisiteIds([]);
     },
     onError: (error: any) => {
       toast.error(`Failed to ${mode} course: ${error.message}`);
     },
   });
 
+  const togglePrerequisite = (courseId: string, checked: boolean) => {
+    setPrerequisiteIds(prev =>
+      checked ? [...prev, courseId] : prev.filter(id => id !== courseId)
+    );
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim()) {
@@ -90,6 +134,28 @@ const CourseForm: React.FC<CourseFormProps> = ({ isOpen, onClose, course, mode }
               rows={4}
             />
           </div>
+          {prerequisiteOptions.length > 0 && (
+            <div>
+              <Label>Prerequisites</Label>
+              <p className="text-xs text-muted-foreground mb-2">
+                Students must complete these courses before this one opens
+              </p>
+              <div className="border rounded-md p-3 space-y-2 max-h-40 overflow-y-auto">
+                {prerequisiteOptions.map(option => (
+                  <div key={option.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`prerequisite-${option.id}`}
+                      checked={prerequisiteIds.includes(option.id)}
+                      onCheckedChange={(checked) => togglePrerequisite(option.id, checked === true)}
+                    />
+                    <Label htmlFor={`prerequisite-${option.id}`} className="font-normal">
+                      {option.title}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
           <div className="flex space-x-2 pt-4">
             <Button type="button" variant="outline" onClick={handleClose} className="flex-1">
               Cancel
@@ -0,0 +1,113 @@
+
+import React, { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Trash2 } from 'lucide-react';
+
+interface DeleteCourseDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+  courseTitle: string;
+  lessonCount: number;
+  assignmentCount: number;
+  progressCount: number | undefined;
+  isDeleting: boolean;
+}
+
+const DeleteCourseDialog: React.FC<DeleteCourseDialogProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  courseTitle,
+  lessonCount,
+  assignmentCount,
+  progressCount,
+  isDeleting,
+}) => {
+  const [confirmText, setConfirmText] = useState('');
+
+  const handleClose = () => {
+    setConfirmText('');
+    onClose();
+  };
+
+  const handleConfirm = () => {
+    if (confirmText === courseTitle) {
+      onConfirm();
+      setConfirmText('');
+    }
+  };
+
+  const isConfirmValid = confirmText === courseTitle;
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={handleClose}>
+      <AlertDialogContent className="max-w-md">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center space-x-2 text-destructive">
+            <Trash2 className="h-5 w-5" />
+            <span>Delete Course</span>
+          </AlertDialogTitle>
+          <AlertDialogDescription className="space-y-3">
+            <p>
+              This action <strong>cannot be undone</strong>. This will permanently delete the course:
+            </p>
+            <div className="bg-muted p-3 rounded-md">
+              <p className="font-medium">{courseTitle}</p>
+            </div>
+            <p>The following will be removed along with it:</p>
+            <ul className="list-disc pl-5 space-y-1">
+              <li><strong>{lessonCount}</strong> lesson{lessonCount === 1 ? '' : 's'}</li>
+              <li><strong>{assignmentCount}</strong> student assignment{assignmentCount === 1 ? '' : 's'}</li>
+              <li>
+                <strong>{progressCount ?? '...'}</strong> lesson progress record{progressCount === 1 ? '' : 's'}
+              </li>
+            </ul>
+            <p>
+              To keep student history, archive the course instead.
+            </p>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        
+        <div className="space-y-2">
+          <Label htmlFor="confirm-course-name">
+            Please type <strong>{courseTitle}</strong> to confirm:
+          </Label>
+          <Input
+            id="confirm-course-name"
+            value={confirmText}
+            onChange={(e) => setConfirmText(e.target.value)}
+            placeholder={courseTitle}
+            className="font-mono"
+          />
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={handleClose} disabled={isDeleting}>
+            Cancel
+          </AlertDialogCancel>
+          <Button
+            variant="destructive"
+            onClick={handleConfirm}
+            disabled={!isConfirmValid || isDeleting}
+          >
+            {isDeleting ? 'Deleting...' : 'Delete Course'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default DeleteCourseDialog;
@@ -54,18 +54,18 @@ const DeleteUserDialog: React.FC<DeleteUserDialogProps> = ({
         <AlertDialogHeader>
           <AlertDialogTitle className="flex items-center space-x-2 text-destructive">
             <Trash2 className="h-5 w-5" />
-            <span>Delete User Account</span>
+            <span>Purge User Account</span>
           </AlertDialogTitle>
           <AlertDialogDescription className="space-y-3">
             <p>
-              This action <strong>cannot be undone</strong>. This will permanently delete the user account for:
+              This action <strong>cannot be undone</strong>. This will permanently purge the deactivated account for:
             </p>
             <div className="bg-muted p-3 rounded-md">
               <p className="font-medium">{userName}</p>
               <p className="text-sm text-muted-foreground">{userEmail}</p>
             </div>
             <p>
-              All user data, progress, and assignments will be permanently removed.
+              All of their progress, assignments, files and certificates will be permanently removed.
             </p>
           </AlertDialogDescription>
         </AlertDialogHeader>
@@ -92,7 +92,7 @@ const DeleteUserDialog: React.FC<DeleteUserDialogProps> = ({
             onClick={handleConfirm}
             disabled={!isConfirmValid || isDeleting}
           >
-            {isDeleting ? 'Deleting...' : 'Delete User'}
+            {isDeleting ? 'Purging...' : 'Purge User'}
           </Button>
         </AlertDialogFooter>
       </AlertDialogContent>
@@ -144,10 +144,7 @@ const FilePreview = ({ file, trigger }: FilePreviewProps) => {
       
       if (error) {
         console.error('Error creating signed URL:', error);
-        const { data: publicData } = supabase.storage
-          .from('student-files')
-          .getPublicUrl(storagePath);
-        return publicData.publicUrl;
+        return null;
       }
       
       console.log('Created signed URL:', data.signedUrl);
@@ -32,6 +32,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     { name: 'Dashboard', href: '/dashboard' },
     { name: 'Services', href: '/services' },
     { name: 'Files', href: '/files' },
+    { name: 'My Notes', href: '/notes' },
     { name: 'Prompts', href: '/prompts' },
   ];
 
@@ -142,6 +143,11 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                       <Link to="/admin">Admin Portal</Link>
                     </DropdownMenuItem>
                   )}
+                  {profile?.role === 'org_manager' && profile?.organization_id && (
+                    <DropdownMenuItem asChild>
+                      <Link to="/org">Organization Dashboard</Link>
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem asChild>
                     <Link to="/support">Support</Link>
                   </DropdownMenuItem>
@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+
+interface LearningPathFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  learningPath?: any;
+  mode: 'add' | 'edit';
+  courses: any[];
+}
+
+const toCourseIds = (learningPath?: any): string[] => {
+  return [...(learningPath?.learning_path_courses || [])]
+    .sort((a, b) => a.position - b.position)
+    .map((pathCourse) => pathCourse.course_id);
+};
+
+const LearningPathForm: React.FC<LearningPathFormProps> = ({ isOpen, onClose, learningPath, mode, courses }) => {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [courseIds, setCourseIds] = useState<string[]>([]);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(learningPath?.title || '');
+      setDescription(learningPath?.description || '');
+      setCourseIds(mode === 'edit' ? toCourseIds(learningPath) : []);
+    }
+  }, [isOpen, learningPath, mode]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      let pathId = learningPath?.id;
+
+      if (mode === 'add') {
+        const { data, error } = await supabase
+          .from('learning_paths')
+          .insert({ title, description })
+          .select('id')
+          .single();
+        if (error) throw error;
+        pathId = data.id;
+      } else {
+        const { error } = await supabase
+          .from('learning_paths')
+          .update({ title, description, updated_at: new Date().toISOString() })
+          .eq('id', pathId);
+        if (error) throw error;
+
+        const { error: clearError } = await supabase
+          .from('learning_path_courses')
+          .delete()
+          .eq('path_id', pathId);
+        if (clearError) throw clearError;
+      }
+
+      if (courseIds.length > 0) {
+        const { error } = await supabase
+          .from('learning_path_courses')
+          .insert(courseIds.map((courseId, index) => ({
+            path_id: pathId,
+            course_id: courseId,
+            position: index + 1
+          })));
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success(`Learning path ${mode === 'add' ? 'created' : 'updated'} successfully`);
+      queryClient.invalidateQueries({ queryKey: ['admin-learning-paths'] });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to ${mode} learning path: ${error.message}`);
+    },
+  });
+
+  const moveCourse = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= courseIds.length) return;
+    setCourseIds(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const availableCourses = courses.filter(course => !courseIds.includes(course.id));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) {
+      toast.error('Learning path title is required');
+      return;
+    }
+    if (courseIds.length < 2) {
+      toast.error('Add at least two courses to the path');
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{mode === 'add' ? 'Add Learning Path' : 'Edit Learning Path'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="path-title">Path Title</Label>
+            <Input
+              id="path-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Enter learning path title"
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="path-description">Description</Label>
+            <Textarea
+              id="path-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Enter learning path description"
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Courses (in the order students take them)</Label>
+            {courseIds.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No courses added yet.</p>
+            ) : (
+              courseIds.map((courseId, index) => (
+                <div key={courseId} className="border rounded p-2 flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs text-muted-foreground w-6">{index + 1}.</span>
+                    <span className="text-sm font-medium">
+                      {courses.find(course => course.id === courseId)?.title || 'Unknown course'}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveCourse(index, -1)}
+                      disabled={index === 0}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveCourse(index, 1)}
+                      disabled={index === courseIds.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCourseIds(prev => prev.filter(id => id !== courseId))}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+            {availableCourses.length > 0 && (
+              <Select value="" onValueChange={(courseId) => setCourseIds(prev => [...prev, courseId])}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Add a course to the path" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableCourses.map(course => (
+                    <SelectItem key={course.id} value={course.id}>
+                      {course.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="flex space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={saveMutation.isPending}
+              className="flex-1"
+            >
+              {saveMutation.isPending ? 'Saving...' : mode === 'add' ? 'Create Path' : 'Update Path'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LearningPathForm;
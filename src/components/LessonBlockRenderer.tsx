@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { LessonBlock, getLessonBlockTypeLabel, getVideoEmbedUrl, isVideoFileUrl } from '@/lib/lessonBlocks';
+import { getSignedLessonFileUrl, getLessonFileName } from '@/lib/lessonMaterials';
+import { CheckCircle, Download } from 'lucide-react';
+
+interface LessonBlockRendererProps {
+  block: LessonBlock;
+  viewed: boolean;
+  onViewed: (blockId: string) => void;
+}
+
+// Share of a video that must be watched before it counts as viewed
+const VIDEO_WATCHED_RATIO = 0.9;
+
+const LessonBlockRenderer: React.FC<LessonBlockRendererProps> = ({ block, viewed, onViewed }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [src, setSrc] = useState<string | null>(block.storage_path ? null : block.url);
+
+  useEffect(() => {
+    if (block.storage_path) {
+      getSignedLessonFileUrl(block.storage_path).then(setSrc);
+    } else {
+      setSrc(block.url);
+    }
+  }, [block.storage_path, block.url]);
+
+  const isUploadedOrDirectVideo = block.type === 'video' && (!!block.storage_path || (!!src && isVideoFileUrl(src)));
+  // Videos we can play natively are tracked by watch time, downloads by click, everything else by being seen
+  const viewedOnVisible = !isUploadedOrDirectVideo && block.type !== 'download';
+
+  useEffect(() => {
+    if (viewed || !viewedOnVisible || !containerRef.current) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onViewed(block.id);
+          observer.disconnect();
+        }
+      },
+      { threshold: 0.5 }
+    );
+
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, [viewed, viewedOnVisible, block.id, onViewed]);
+
+  const handleVideoProgress = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    if (!viewed && video.duration && video.currentTime / video.duration >= VIDEO_WATCHED_RATIO) {
+      onViewed(block.id);
+    }
+  };
+
+  const renderContent = () => {
+    if (block.type === 'rich_text') {
+      return (
+        <div
+          className="text-foreground prose prose-sm max-w-none dark:prose-invert"
+          dangerouslySetInnerHTML={{ __html: block.body || '' }}
+        />
+      );
+    }
+
+    if (!src) {
+      return (
+        <div className="flex items-center justify-center h-32 bg-muted rounded-lg">
+          <p className="text-muted-foreground">Content unavailable</p>
+        </div>
+      );
+    }
+
+    switch (block.type) {
+      case 'pdf':
+        return (
+          <div className="w-full h-[600px] border rounded-lg">
+            <iframe src={src} className="w-full h-full rounded-lg" title={block.title || 'Lesson PDF'} />
+          </div>
+        );
+      case 'video':
+        return isUploadedOrDirectVideo ? (
+          <video
+            src={src}
+            controls
+            className="w-full rounded-lg bg-black"
+            onTimeUpdate={handleVideoProgress}
+            onEnded={() => !viewed && onViewed(block.id)}
+          />
+        ) : (
+          <div className="aspect-video w-full">
+            <iframe
+              src={getVideoEmbedUrl(src) || src}
+              className="w-full h-full rounded-lg"
+              title={block.title || 'Lesson video'}
+              allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+              allowFullScreen
+            />
+          </div>
+        );
+      case 'embed':
+        return (
+          <div className="w-full h-[500px] border rounded-lg">
+            <iframe src={src} className="w-full h-full rounded-lg" title={block.title || 'Embedded content'} />
+          </div>
+        );
+      case 'download':
+        return (
+          <a href={src} target="_blank" rel="noopener noreferrer" download onClick={() => !viewed && onViewed(block.id)}>
+            <Button variant="outline">
+              <Download className="h-4 w-4 mr-2" />
+              {block.file_name || (block.storage_path ? getLessonFileName(block.storage_path) : 'Download')}
+            </Button>
+          </a>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Card ref={containerRef}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-card-foreground">
+            {block.title || getLessonBlockTypeLabel(block.type)}
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            {block.required && !viewed && <Badge variant="outline">Required</Badge>}
+            {viewed && <CheckCircle className="h-4 w-4 text-green-600" />}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>{renderContent()}</CardContent>
+    </Card>
+  );
+};
+
+export default LessonBlockRenderer;
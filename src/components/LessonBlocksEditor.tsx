@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ReactQuill from 'react-quill';
+import 'react-quill/dist/quill.snow.css';
+import {
+  DraftLessonBlock,
+  LessonBlockType,
+  LESSON_BLOCK_TYPES,
+  UPLOADABLE_BLOCK_TYPES,
+  emptyDraftBlock,
+  getLessonBlockTypeLabel
+} from '@/lib/lessonBlocks';
+import { getLessonFileName } from '@/lib/lessonMaterials';
+import { Plus, Trash2, ArrowUp, ArrowDown, FileText, X } from 'lucide-react';
+
+interface LessonBlocksEditorProps {
+  blocks: DraftLessonBlock[];
+  onChange: (blocks: DraftLessonBlock[]) => void;
+}
+
+const FILE_ACCEPT: Partial<Record<LessonBlockType, string>> = {
+  pdf: 'application/pdf,.pdf',
+  video: 'video/*',
+};
+
+const URL_PLACEHOLDERS: Partial<Record<LessonBlockType, string>> = {
+  pdf: 'Or link to an external PDF',
+  video: 'Or a YouTube, Vimeo or direct video URL',
+  embed: 'URL of the page to embed',
+  download: 'Or link to an external file',
+};
+
+const richTextModules = {
+  toolbar: [
+    [{ 'header': [2, 3, false] }],
+    ['bold', 'italic', 'underline'],
+    [{ 'list': 'ordered'}, { 'list': 'bullet' }],
+    ['link', 'blockquote'],
+    ['clean']
+  ]
+};
+
+const LessonBlocksEditor: React.FC<LessonBlocksEditorProps> = ({ blocks, onChange }) => {
+  const [newBlockType, setNewBlockType] = useState<LessonBlockType>('video');
+
+  const updateBlock = (index: number, changes: Partial<DraftLessonBlock>) => {
+    onChange(blocks.map((block, i) => (i === index ? { ...block, ...changes } : block)));
+  };
+
+  const moveBlock = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= blocks.length) return;
+    const next = [...blocks];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeBlock = (index: number) => {
+    onChange(blocks.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {blocks.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No content blocks yet. Add videos, rich text, embeds or downloads below.
+        </p>
+      )}
+
+      {blocks.map((block, index) => {
+        const canUpload = UPLOADABLE_BLOCK_TYPES.includes(block.type);
+        const hasFile = !!(block.file || block.storage_path);
+
+        return (
+          <div key={block.id || `new-${index}`} className="border rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium">Block {index + 1}</span>
+                <Badge variant="secondary">{getLessonBlockTypeLabel(block.type)}</Badge>
+              </div>
+              <div className="flex items-center space-x-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveBlock(index, -1)}
+                  disabled={index === 0}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveBlock(index, 1)}
+                  disabled={index === blocks.length - 1}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeBlock(index)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <Input
+              value={block.title}
+              onChange={(e) => updateBlock(index, { title: e.target.value })}
+              placeholder="Block title (optional)"
+            />
+
+            {block.type === 'rich_text' && (
+              <ReactQuill
+                theme="snow"
+                value={block.body}
+                onChange={(body) => updateBlock(index, { body })}
+                modules={richTextModules}
+                placeholder="Write the block content..."
+              />
+            )}
+
+            {canUpload && (
+              <div className="space-y-2">
+                {hasFile && (
+                  <div className="flex items-center justify-between p-2 border rounded bg-muted">
+                    <div className="flex items-center space-x-2 text-sm">
+                      <FileText className="h-4 w-4 text-muted-foreground" />
+                      <span>{block.file?.name || block.file_name || getLessonFileName(block.storage_path || '')}</span>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateBlock(index, { file: null, storage_path: null, file_name: null })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+                <Input
+                  type="file"
+                  accept={FILE_ACCEPT[block.type]}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0] || null;
+                    updateBlock(index, { file, file_name: file?.name || block.file_name });
+                  }}
+                />
+              </div>
+            )}
+
+            {(block.type === 'embed' || (canUpload && !hasFile)) && (
+              <Input
+                value={block.url}
+                onChange={(e) => updateBlock(index, { url: e.target.value })}
+                placeholder={URL_PLACEHOLDERS[block.type]}
+              />
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`block-required-${index}`}
+                checked={block.required}
+                onCheckedChange={(required) => updateBlock(index, { required })}
+              />
+              <Label htmlFor={`block-required-${index}`} className="text-sm">
+                Students must view this block to complete the lesson
+              </Label>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center space-x-2">
+        <Select value={newBlockType} onValueChange={(value) => setNewBlockType(value as LessonBlockType)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LESSON_BLOCK_TYPES.map((blockType) => (
+              <SelectItem key={blockType.value} value={blockType.value}>
+                {blockType.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onChange([...blocks, emptyDraftBlock(newBlockType)])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Block
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default LessonBlocksEditor;
@@ -1,12 +1,17 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import { uploadLessonFile, removeUnusedLessonFiles, getLessonFileName } from '@/lib/lessonMaterials';
+import { DraftLessonBlock, LessonBlock, toDraftBlocks, validateDraftBlocks } from '@/lib/lessonBlocks';
+import LessonBlocksEditor from './LessonBlocksEditor';
 import { toast } from 'sonner';
+import { FileText, X } from 'lucide-react';
 import ReactQuill from 'react-quill';
 import 'react-quill/dist/quill.snow.css';
 import './RichTextStyles.css';
@@ -17,16 +22,54 @@ interface LessonFormProps {
   courseId: string;
   lesson?: any;
   mode: 'add' | 'edit';
+  quizSets?: { id: string; title: string }[];
+  courseLessons?: { id: string; title: string; order: number }[];
 }
 
-const LessonForm: React.FC<LessonFormProps> = ({ isOpen, onClose, courseId, lesson, mode }) => {
+const NO_QUIZ = 'none';
+
+// <input type="datetime-local"> works in local time without a zone suffix
+const toDateTimeLocal = (value?: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+const LessonForm: React.FC<LessonFormProps> = ({ isOpen, onClose, courseId, lesson, mode, quizSets = [], courseLessons = [] }) => {
   const [title, setTitle] = useState(lesson?.title || '');
   const [description, setDescription] = useState(lesson?.description || '');
   const [pdfUrl, setPdfUrl] = useState(lesson?.pdf_url || '');
+  const [pdfPath, setPdfPath] = useState<string | null>(lesson?.pdf_path || null);
+  const [pdfFile, setPdfFile] = useState<File | null>(null);
   const [instructorNotes, setInstructorNotes] = useState(lesson?.instructor_notes || '');
   const [order, setOrder] = useState(lesson?.order || 1);
+  const [quizSetId, setQuizSetId] = useState<string>(lesson?.quiz_set_id || NO_QUIZ);
+  const [releaseDays, setReleaseDays] = useState<string>(lesson?.release_days_after_enrollment?.toString() ?? '');
+  const [releaseAt, setReleaseAt] = useState(toDateTimeLocal(lesson?.release_at));
+  const [blocks, setBlocks] = useState<DraftLessonBlock[]>(toDraftBlocks(lesson?.lesson_blocks));
   const queryClient = useQueryClient();
 
+  // New lessons go to the end of the course by default
+  const nextOrder = courseLessons.reduce((max, courseLesson) => Math.max(max, courseLesson.order), 0) + 1;
+  const maxOrder = mode === 'add' ? nextOrder : Math.max(courseLessons.length, 1);
+
+  // Load the selected lesson's values whenever the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(lesson?.title || '');
+      setDescription(lesson?.description || '');
+      setPdfUrl(lesson?.pdf_url || '');
+      setPdfPath(lesson?.pdf_path || null);
+      setPdfFile(null);
+      setInstructorNotes(lesson?.instructor_notes || '');
+      setOrder(mode === 'add' ? nextOrder : lesson?.order || 1);
+      setQuizSetId(lesson?.quiz_set_id || NO_QUIZ);
+      setReleaseDays(lesson?.release_days_after_enrollment?.toString() ?? '');
+      setReleaseAt(toDateTimeLocal(lesson?.release_at));
+      setBlocks(toDraftBlocks(lesson?.lesson_blocks));
+    }
+  }, [isOpen, lesson, mode, nextOrder]);
+
   const quillModules = {
     toolbar: [
       [{ 'header': [1, 2, 3, 4, 5, 6, false] }],
@@ -58,33 +101,81 @@ const LessonForm: React.FC<LessonFormProps> = ({ isOpen, onClose, courseId, less
     'script', 'direction', 'code-block'
   ];
 
+  // Upload new files, then replace the lesson's blocks in one transaction
+  const saveBlocks = async (lessonId: string, lessonCourseId: string) => {
+    const existingBlocks: LessonBlock[] = lesson?.lesson_blocks || [];
+    const keptIds = blocks.filter(block => block.id).map(block => block.id);
+    const unusedPaths = existingBlocks
+      .filter(block => !keptIds.includes(block.id))
+      .map(block => block.storage_path);
+
+    const rows = [];
+    for (const block of blocks) {
+      const storagePath = block.file ? await uploadLessonFile(lessonCourseId, block.file) : block.storage_path;
+      rows.push({
+        id: block.id ?? null,
+        type: block.type,
+        title: block.title.trim(),
+        url: storagePath || block.type === 'rich_text' ? null : block.url.trim() || null,
+        body: block.type === 'rich_text' ? block.body : null,
+        storage_path: storagePath,
+        file_name: block.file ? block.file.name : storagePath ? block.file_name : null,
+        required: block.required
+      });
+
+      const previous = existingBlocks.find(existing => existing.id === block.id);
+      if (previous?.storage_path && previous.storage_path !== storagePath) {
+        unusedPaths.push(previous.storage_path);
+      }
+    }
+
+    const { error } = await supabase.rpc('save_lesson_blocks', { p_lesson_id: lessonId, p_blocks: rows });
+    if (error) throw error;
+
+    await removeUnusedLessonFiles(unusedPaths);
+  };
+
   const saveMutation = useMutation({
     mutationFn: async () => {
-      if (mode === 'add') {
-        const { error } = await supabase
-          .from('lessons')
-          .insert({
-            title,
-            description,
-            pdf_url: pdfUrl,
-            instructor_notes: instructorNotes,
-            order,
-            course_id: courseId
-          });
-        if (error) throw error;
-      } else {
-        const { error } = await supabase
-          .from('lessons')
-          .update({
-            title,
-            description,
-            pdf_url: pdfUrl,
-            instructor_notes: instructorNotes,
-            order
-          })
-          .eq('id', lesson.id);
-        if (error) throw error;
+      const lessonCourseId = mode === 'add' ? courseId : lesson.course_id;
+      const savedPdfPath = pdfFile ? await uploadLessonFile(lessonCourseId, pdfFile) : pdfPath;
+      const lessonFields = {
+        title,
+        description,
+        pdf_path: savedPdfPath,
+        pdf_url: savedPdfPath ? null : pdfUrl.trim() || null,
+        instructor_notes: instructorNotes,
+        order,
+        quiz_set_id: quizSetId === NO_QUIZ ? null : quizSetId,
+        release_days_after_enrollment: releaseDays === '' ? null : parseInt(releaseDays),
+        release_at: releaseAt ? new Date(releaseAt).toISOString() : null
+      };
+
+      const { data: savedLesson, error } = mode === 'add'
+        ? await supabase
+            .from('lessons')
+            .insert({ ...lessonFields, course_id: courseId })
+            .select('id')
+            .single()
+        : await supabase
+            .from('lessons')
+            .update(lessonFields)
+            .eq('id', lesson.id)
+            .select('id')
+            .single();
+
+      if (error) {
+        // Don't leave an orphaned upload behind when the lesson couldn't be saved
+        if (pdfFile) await removeUnusedLessonFiles([savedPdfPath]);
+        throw error;
+      }
+
+      // The replaced or removed PDF is no longer needed
+      if (lesson?.pdf_path && lesson.pdf_path !== savedPdfPath) {
+        await removeUnusedLessonFiles([lesson.pdf_path]);
       }
+
+      await saveBlocks(savedLesson.id, lessonCourseId);
     },
     onSuccess: () => {
       toast.success(`Lesson ${mode === 'add' ? 'created' : 'updated'} successfully`);
@@ -93,6 +184,11 @@ const LessonForm: React.FC<LessonFormProps> = ({ isOpen, onClose, courseId, less
       resetForm();
     },
     onError: (error: any) => {
+      // 23505 is the unique (course_id, order) constraint
+      if (error.code === '23505') {
+        toast.error(`Another lesson already uses position ${order}. Drag lessons in Lesson Management to reorder them.`);
+        return;
+      }
       toast.error(`Failed to ${mode} lesson: ${error.message}`);
     },
   });
@@ -101,8 +197,14 @@ const LessonForm: React.FC<LessonFormProps> = ({ isOpen, onClose, courseId, less
     setTitle('');
     setDescription('');
     setPdfUrl('');
+    setPdfPath(null);
+    setPdfFile(null);
     setInstructorNotes('');
     setOrder(1);
+    setQuizSetId(NO_QUIZ);
+    setReleaseDays('');
+    setReleaseAt('');
+    setBlocks([]);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -111,8 +213,28 @@ const LessonForm: React.FC<LessonFormProps> = ({ isOpen, onClose, courseId, less
       toast.error('Lesson title is required');
       return;
     }
-    if (!pdfUrl.trim()) {
-      toast.error('PDF URL is required');
+    if (!pdfFile && !pdfPath && !pdfUrl.trim() && blocks.length === 0) {
+      toast.error('Add a lesson PDF or at least one content block');
+      return;
+    }
+    const blockError = validateDraftBlocks(blocks);
+    if (blockError) {
+      toast.error(blockError);
+      return;
+    }
+    const conflictingLesson = courseLessons.find(courseLesson =>
+      courseLesson.order === order && courseLesson.id !== lesson?.id
+    );
+    if (conflictingLesson) {
+      toast.error(`Position ${order} is already used by "${conflictingLesson.title}". Drag lessons in Lesson Management to reorder them.`);
+      return;
+    }
+    if (order < 1 || order > maxOrder) {
+      toast.error(`Order must be between 1 and ${maxOrder}`);
+      return;
+    }
+    if (releaseDays !== '' && !(parseInt(releaseDays) >= 0)) {
+      toast.error('Release days must be zero or more');
       return;
     }
     saveMutation.mutate();
@@ -122,8 +244,14 @@ const LessonForm: React.FC<LessonFormProps> = ({ isOpen, onClose, courseId, less
     setTitle(lesson?.title || '');
     setDescription(lesson?.description || '');
     setPdfUrl(lesson?.pdf_url || '');
+    setPdfPath(lesson?.pdf_path || null);
+    setPdfFile(null);
     setInstructorNotes(lesson?.instructor_notes || '');
     setOrder(lesson?.order || 1);
+    setQuizSetId(lesson?.quiz_set_id || NO_QUIZ);
+    setReleaseDays(lesson?.release_days_after_enrollment?.toString() ?? '');
+    setReleaseAt(toDateTimeLocal(lesson?.release_at));
+    setBlocks(toDraftBlocks(lesson?.lesson_blocks));
     onClose();
   };
 
@@ -155,15 +283,59 @@ const LessonForm: React.FC<LessonFormProps> = ({ isOpen, onClose, courseId, less
               required
             />
           </div>
-          <div>
-            <Label htmlFor="pdfUrl">PDF URL</Label>
+          <div className="space-y-2">
+            <Label htmlFor="pdfFile">Lesson PDF</Label>
+            {(pdfFile || pdfPath) && (
+              <div className="flex items-center justify-between p-2 border rounded bg-muted">
+                <div className="flex items-center space-x-2 text-sm">
+                  <FileText className="h-4 w-4 text-muted-foreground" />
+                  <span>{pdfFile ? pdfFile.name : getLessonFileName(pdfPath || '')}</span>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setPdfFile(null);
+                    setPdfPath(null);
+                  }}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
             <Input
-              id="pdfUrl"
-              value={pdfUrl}
-              onChange={(e) => setPdfUrl(e.target.value)}
-              placeholder="Enter PDF URL"
-              required
+              id="pdfFile"
+              type="file"
+              accept="application/pdf,.pdf"
+              onChange={(e) => {
+                const file = e.target.files?.[0] || null;
+                if (file && file.type !== 'application/pdf') {
+                  toast.error('Please choose a PDF file');
+                  e.target.value = '';
+                  return;
+                }
+                setPdfFile(file);
+              }}
             />
+            <p className="text-xs text-muted-foreground">
+              {pdfPath || pdfFile ? 'Choosing a new file replaces the current PDF.' : 'Upload a PDF, or link to an externally hosted one below.'}
+            </p>
+            {!pdfFile && !pdfPath && (
+              <Input
+                id="pdfUrl"
+                value={pdfUrl}
+                onChange={(e) => setPdfUrl(e.target.value)}
+                placeholder="External PDF URL (optional)"
+              />
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Content Blocks</Label>
+            <p className="text-xs text-muted-foreground">
+              Blocks are shown after the lesson PDF, in the order listed here.
+            </p>
+            <LessonBlocksEditor blocks={blocks} onChange={setBlocks} />
           </div>
           <div>
             <Label htmlFor="order">Order</Label>
@@ -173,8 +345,56 @@ const LessonForm: React.FC<LessonFormProps> = ({ isOpen, onClose, courseId, less
               value={order}
               onChange={(e) => setOrder(parseInt(e.target.value) || 1)}
               min="1"
+              max={maxOrder}
               required
             />
+            <p className="text-xs text-muted-foreground mt-1">
+              Each lesson needs its own position. Drag lessons in Lesson Management to reorder them.
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="quizSet">Quiz</Label>
+            <Select value={quizSetId} onValueChange={setQuizSetId}>
+              <SelectTrigger id="quizSet">
+                <SelectValue placeholder="Select a quiz" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_QUIZ}>No quiz</SelectItem>
+                {quizSets.map((quizSet) => (
+                  <SelectItem key={quizSet.id} value={quizSet.id}>
+                    {quizSet.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Release Schedule</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+              <div>
+                <Label htmlFor="releaseDays" className="text-xs text-muted-foreground">Days after enrollment</Label>
+                <Input
+                  id="releaseDays"
+                  type="number"
+                  min="0"
+                  value={releaseDays}
+                  onChange={(e) => setReleaseDays(e.target.value)}
+                  placeholder="Available immediately"
+                />
+              </div>
+              <div>
+                <Label htmlFor="releaseAt" className="text-xs text-muted-foreground">Release date</Label>
+                <Input
+                  id="releaseAt"
+                  type="datetime-local"
+                  value={releaseAt}
+                  onChange={(e) => setReleaseAt(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Both are optional. When both are set, the lesson opens at whichever comes later.
+            </p>
           </div>
           <div>
             <Label htmlFor="instructorNotes">Instructor Notes</Label>
@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { Bookmark, BookmarkCheck, BookOpen, Plus, Trash2 } from 'lucide-react';
+
+interface LessonNotesPanelProps {
+  courseId: string;
+  lessonId: string;
+  hasPdf: boolean;
+  onOpenPdfPage: (page: number) => void;
+}
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+const LessonNotesPanel: React.FC<LessonNotesPanelProps> = ({ courseId, lessonId, hasPdf, onOpenPdfPage }) => {
+  const { user } = useAuth();
+  const [content, setContent] = useState('');
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [bookmarks, setBookmarks] = useState<Tables<'lesson_bookmarks'>[]>([]);
+  const [page, setPage] = useState('');
+  const [pageLabel, setPageLabel] = useState('');
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingContent = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchNotes = async () => {
+      const { data: note } = await supabase
+        .from('lesson_notes')
+        .select('content')
+        .eq('user_id', user.id)
+        .eq('lesson_id', lessonId)
+        .maybeSingle();
+
+      const { data: bookmarkData } = await supabase
+        .from('lesson_bookmarks')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('lesson_id', lessonId)
+        .order('pdf_page', { nullsFirst: true });
+
+      setContent(note?.content || '');
+      setBookmarks(bookmarkData || []);
+      setSaveStatus('idle');
+    };
+
+    fetchNotes();
+  }, [user, lessonId]);
+
+  const saveNote = useCallback(async (text: string) => {
+    if (!user) return;
+    setSaveStatus('saving');
+
+    const { error } = await supabase
+      .from('lesson_notes')
+      .upsert(
+        { user_id: user.id, lesson_id: lessonId, course_id: courseId, content: text, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id,lesson_id' }
+      );
+
+    if (error) {
+      console.error('Error saving note:', error);
+      setSaveStatus('error');
+      return;
+    }
+
+    pendingContent.current = null;
+    setSaveStatus('saved');
+  }, [user, lessonId, courseId]);
+
+  // Save anything still pending when leaving the lesson; the cleanup keeps the
+  // saveNote of the lesson being left
+  useEffect(() => {
+    return () => {
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      if (pendingContent.current !== null) saveNote(pendingContent.current);
+    };
+  }, [saveNote]);
+
+  const handleContentChange = (text: string) => {
+    setContent(text);
+    pendingContent.current = text;
+    setSaveStatus('idle');
+
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(() => saveNote(text), AUTOSAVE_DELAY_MS);
+  };
+
+  const addBookmark = async (pdfPage: number | null, label = '') => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('lesson_bookmarks')
+      .insert({ user_id: user.id, lesson_id: lessonId, course_id: courseId, pdf_page: pdfPage, label })
+      .select('*')
+      .single();
+
+    if (error) {
+      toast.error(error.code === '23505' ? 'That page is already bookmarked' : 'Failed to add bookmark');
+      return;
+    }
+
+    setBookmarks(prev => [...prev, data].sort((a, b) => (a.pdf_page ?? 0) - (b.pdf_page ?? 0)));
+  };
+
+  const removeBookmark = async (bookmarkId: string) => {
+    const { error } = await supabase
+      .from('lesson_bookmarks')
+      .delete()
+      .eq('id', bookmarkId);
+
+    if (error) {
+      toast.error('Failed to remove bookmark');
+      return;
+    }
+
+    setBookmarks(prev => prev.filter(bookmark => bookmark.id !== bookmarkId));
+  };
+
+  const handleAddPageBookmark = async () => {
+    const pageNumber = parseInt(page);
+    if (!pageNumber || pageNumber < 1) {
+      toast.error('Enter a page number');
+      return;
+    }
+    await addBookmark(pageNumber, pageLabel.trim());
+    setPage('');
+    setPageLabel('');
+  };
+
+  const lessonBookmark = bookmarks.find(bookmark => bookmark.pdf_page === null);
+  const pageBookmarks = bookmarks.filter(bookmark => bookmark.pdf_page !== null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-card-foreground">My Notes</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => (lessonBookmark ? removeBookmark(lessonBookmark.id) : addBookmark(null))}
+          >
+            {lessonBookmark ? (
+              <BookmarkCheck className="h-4 w-4 mr-2 text-primary" />
+            ) : (
+              <Bookmark className="h-4 w-4 mr-2" />
+            )}
+            {lessonBookmark ? 'Bookmarked' : 'Bookmark Lesson'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Textarea
+            value={content}
+            onChange={(e) => handleContentChange(e.target.value)}
+            placeholder="Write your own notes for this lesson. Only you can see them."
+            rows={6}
+          />
+          <p className="text-xs text-muted-foreground h-4">
+            {saveStatus === 'saving' && 'Saving...'}
+            {saveStatus === 'saved' && 'All changes saved'}
+            {saveStatus === 'error' && 'Could not save your notes. Keep typing to retry.'}
+          </p>
+        </div>
+
+        {hasPdf && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">PDF Page Bookmarks</p>
+            {pageBookmarks.map((bookmark) => (
+              <div key={bookmark.id} className="flex items-center justify-between p-2 border rounded">
+                <button
+                  type="button"
+                  className="flex items-center space-x-2 text-sm hover:underline"
+                  onClick={() => onOpenPdfPage(bookmark.pdf_page as number)}
+                >
+                  <BookOpen className="h-4 w-4 text-muted-foreground" />
+                  <span>Page {bookmark.pdf_page}{bookmark.label ? ` - ${bookmark.label}` : ''}</span>
+                </button>
+                <Button variant="ghost" size="sm" onClick={() => removeBookmark(bookmark.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center space-x-2">
+              <Input
+                type="number"
+                min="1"
+                value={page}
+                onChange={(e) => setPage(e.target.value)}
+                placeholder="Page"
+                className="w-24"
+              />
+              <Input
+                value={pageLabel}
+                onChange={(e) => setPageLabel(e.target.value)}
+                placeholder="Label (optional)"
+              />
+              <Button variant="outline" size="sm" onClick={handleAddPageBookmark}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LessonNotesPanel;
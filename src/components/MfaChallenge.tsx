@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Loader2, ShieldCheck } from 'lucide-react';
+
+interface MfaChallengeProps {
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+// Second sign-in step for users with an authenticator app
+const MfaChallenge: React.FC<MfaChallengeProps> = ({ onVerified, onCancel }) => {
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const verifyCode = async (value: string) => {
+    setIsLoading(true);
+
+    try {
+      const { data: factorList, error: factorsError } = await supabase.auth.mfa.listFactors();
+      if (factorsError) throw factorsError;
+
+      const factor = factorList.totp[0];
+      if (!factor) throw new Error('No authenticator is set up for this account');
+
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: factor.id, code: value });
+      if (error) {
+        toast.error('That code is not valid. Check your authenticator app and try again.');
+        setCode('');
+        return;
+      }
+
+      onVerified();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRecovery = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        throw new Error('No active session');
+      }
+
+      const response = await fetch(`https://oimqzyfmglyhljjuboek.supabase.co/functions/v1/use-recovery-code`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code: recoveryCode }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to use recovery code');
+      }
+
+      // Pick up the session's new assurance level now that the authenticator is removed
+      await supabase.auth.refreshSession();
+      toast.success('Two-factor authentication was turned off. Set it up again from your profile.');
+      onVerified();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          <span>Two-Factor Authentication</span>
+        </CardTitle>
+        <CardDescription>
+          {useRecovery
+            ? 'Enter one of the recovery codes you saved when you set up two-factor authentication'
+            : 'Enter the 6-digit code from your authenticator app'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {useRecovery ? (
+          <form onSubmit={handleRecovery} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="recovery-code">Recovery Code</Label>
+              <Input
+                id="recovery-code"
+                placeholder="XXXXX-XXXXX"
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value)}
+                className="font-mono"
+                autoComplete="one-time-code"
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Use Recovery Code
+            </Button>
+          </form>
+        ) : (
+          <div className="flex justify-center">
+            <InputOTP
+              maxLength={6}
+              value={code}
+              onChange={setCode}
+              onComplete={verifyCode}
+              disabled={isLoading}
+              autoFocus
+            >
+              <InputOTPGroup>
+                {[0, 1, 2, 3, 4, 5].map(index => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button
+            type="button"
+            variant="link"
+            onClick={() => setUseRecovery(!useRecovery)}
+            className="text-sm text-muted-foreground hover:text-primary px-0"
+          >
+            {useRecovery ? 'Use authenticator code' : 'Lost your device?'}
+          </Button>
+          <Button
+            type="button"
+            variant="link"
+            onClick={onCancel}
+            className="text-sm text-muted-foreground hover:text-primary px-0"
+          >
+            Sign in as someone else
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MfaChallenge;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getPasswordStrength, MIN_PASSWORD_LENGTH } from '@/lib/passwords';
+import { cn } from '@/lib/utils';
+
+interface NewPasswordFieldsProps {
+  password: string;
+  confirmPassword: string;
+  onPasswordChange: (value: string) => void;
+  onConfirmPasswordChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+const STRENGTH_COLORS = ['bg-destructive', 'bg-destructive', 'bg-orange-500', 'bg-yellow-500', 'bg-green-600'];
+
+const NewPasswordFields: React.FC<NewPasswordFieldsProps> = ({
+  password,
+  confirmPassword,
+  onPasswordChange,
+  onConfirmPasswordChange,
+  disabled,
+}) => {
+  const strength = getPasswordStrength(password);
+  const mismatch = confirmPassword.length > 0 && confirmPassword !== password;
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="new-password">New Password</Label>
+        <Input
+          id="new-password"
+          type="password"
+          placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+          value={password}
+          onChange={(e) => onPasswordChange(e.target.value)}
+          autoComplete="new-password"
+          disabled={disabled}
+          required
+        />
+        {password && (
+          <div className="space-y-1">
+            <div className="flex space-x-1">
+              {[1, 2, 3, 4].map(level => (
+                <div
+                  key={level}
+                  className={cn('h-1.5 flex-1 rounded-full', strength.score >= level ? STRENGTH_COLORS[strength.score] : 'bg-muted')}
+                />
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {strength.label}{strength.hint && ` · ${strength.hint}`}
+            </p>
+          </div>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirm-new-password">Confirm New Password</Label>
+        <Input
+          id="confirm-new-password"
+          type="password"
+          placeholder="Repeat your new password"
+          value={confirmPassword}
+          onChange={(e) => onConfirmPasswordChange(e.target.value)}
+          autoComplete="new-password"
+          disabled={disabled}
+          required
+        />
+        {mismatch && <p className="text-xs text-destructive">Passwords do not match</p>}
+      </div>
+    </>
+  );
+};
+
+export default NewPasswordFields;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { useOrgManagerAuth } from '@/hooks/useOrgManagerAuth';
+import { useMfa } from '@/hooks/useMfa';
+
+interface OrgManagerRouteProps {
+  children: React.ReactNode;
+}
+
+const OrgManagerRoute: React.FC<OrgManagerRouteProps> = ({ children }) => {
+  const { isOrgManager, loading } = useOrgManagerAuth();
+  const { needsChallenge, loading: mfaLoading } = useMfa();
+
+  if (loading || mfaLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-[#0D5C4B] rounded-lg flex items-center justify-center mx-auto mb-4 animate-pulse">
+            <span className="text-white font-bold text-xl">AI</span>
+          </div>
+          <p className="text-gray-600">Checking organization permissions...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (needsChallenge) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isOrgManager) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default OrgManagerRoute;
@@ -0,0 +1,58 @@
+import React, { useState, useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { OrganizationScopeContext } from '@/hooks/useOrganizationScope';
+
+type OrganizationScopeProviderProps = {
+  children: React.ReactNode;
+  storageKey?: string;
+};
+
+export function OrganizationScopeProvider({
+  children,
+  storageKey = 'aidm-admin-organization-scope',
+}: OrganizationScopeProviderProps) {
+  const [organizationId, setOrganizationId] = useState<string | null>(
+    () => localStorage.getItem(storageKey)
+  );
+
+  const { data: members } = useQuery({
+    queryKey: ['admin-organization-members', organizationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+      return (data || []).map(profile => profile.id);
+    },
+    enabled: !!organizationId,
+  });
+
+  // While members load, show nothing rather than every organization's data
+  const scopedUserIds = organizationId ? members || [] : null;
+
+  const rememberOrganizationId = useCallback((nextOrganizationId: string | null) => {
+    if (nextOrganizationId) {
+      localStorage.setItem(storageKey, nextOrganizationId);
+    } else {
+      localStorage.removeItem(storageKey);
+    }
+    setOrganizationId(nextOrganizationId);
+  }, [storageKey]);
+
+  const value = {
+    organizationId,
+    setOrganizationId: rememberOrganizationId,
+    scopedUserIds,
+    isInScope: (userId: string | null | undefined) =>
+      scopedUserIds === null || (!!userId && scopedUserIds.includes(userId)),
+  };
+
+  return (
+    <OrganizationScopeContext.Provider value={value}>
+      {children}
+    </OrganizationScopeContext.Provider>
+  );
+}
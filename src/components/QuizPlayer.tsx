@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { ClipboardCheck, CheckCircle, XCircle, RotateCcw } from 'lucide-react';
+
+interface QuizQuestion {
+  id: string;
+  question: string;
+  options: string[];
+}
+
+// Grading happens in submit_quiz; only which answers were right comes back
+export interface QuizResult {
+  score: number;
+  correctQuestionIds: string[];
+}
+
+interface QuizPlayerProps {
+  quizSetId: string;
+  bestScore: number | null;
+  attempts: number;
+  onSubmit: (answers: Record<string, number>) => Promise<QuizResult>;
+}
+
+const QuizPlayer: React.FC<QuizPlayerProps> = ({ quizSetId, bestScore, attempts, onSubmit }) => {
+  const [title, setTitle] = useState('');
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<string, number>>({});
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchQuiz = async () => {
+      setLoading(true);
+      try {
+        const { data: quizSet } = await supabase
+          .from('quiz_sets')
+          .select('title')
+          .eq('id', quizSetId)
+          .maybeSingle();
+
+        // Students read questions through a view that leaves out the correct answers
+        const { data: questionData, error } = await supabase
+          .from('student_quiz_questions')
+          .select('id, question, options')
+          .eq('quiz_set_id', quizSetId)
+          .order('order')
+          .order('created_at');
+
+        if (error) throw error;
+
+        setTitle(quizSet?.title || 'Lesson Quiz');
+        setQuestions((questionData || []).map(q => ({
+          id: q.id!,
+          question: q.question || '',
+          // Options are stored as a JSON array of answer strings
+          options: Array.isArray(q.options) ? q.options.map(option => String(option)) : []
+        })));
+        setAnswers({});
+        setResult(null);
+      } catch (error) {
+        console.error('Error fetching quiz:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchQuiz();
+  }, [quizSetId]);
+
+  const allAnswered = questions.length > 0 && questions.every(q => answers[q.id] !== undefined);
+
+  const handleSubmit = async () => {
+    if (!allAnswered) {
+      toast.error('Please answer every question before submitting');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      setResult(await onSubmit(answers));
+    } catch (error) {
+      toast.error('Failed to save quiz result');
+      console.error('Quiz submit error:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetake = () => {
+    setAnswers({});
+    setResult(null);
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-muted-foreground">Loading quiz...</CardContent>
+      </Card>
+    );
+  }
+
+  if (questions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-card-foreground flex items-center">
+            <ClipboardCheck className="h-5 w-5 mr-2 text-primary" />
+            {title}
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            {bestScore !== null && (
+              <Badge variant="outline">Best score: {bestScore}%</Badge>
+            )}
+            {attempts > 0 && (
+              <Badge variant="secondary">
+                {attempts} {attempts === 1 ? 'attempt' : 'attempts'}
+              </Badge>
+            )}
+          </div>
+        </div>
+        <CardDescription>
+          Answer all {questions.length} questions to check your understanding of this lesson.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {questions.map((question, index) => {
+          const selected = answers[question.id];
+          const answeredCorrectly = result?.correctQuestionIds.includes(question.id);
+
+          return (
+            <div key={question.id} className="space-y-3">
+              <p className="font-medium text-foreground">
+                {index + 1}. {question.question}
+              </p>
+              <RadioGroup
+                value={selected !== undefined ? String(selected) : ''}
+                onValueChange={(value) => setAnswers(prev => ({ ...prev, [question.id]: parseInt(value) }))}
+                disabled={result !== null}
+              >
+                {question.options.map((option, optionIndex) => {
+                  const isSelected = optionIndex === selected;
+
+                  return (
+                    <div
+                      key={optionIndex}
+                      className={`flex items-center space-x-3 p-3 rounded-lg border ${
+                        result !== null && isSelected && answeredCorrectly
+                          ? 'border-green-300 bg-green-50 dark:bg-green-900/20 dark:border-green-800'
+                          : result !== null && isSelected
+                            ? 'border-red-300 bg-red-50 dark:bg-red-900/20 dark:border-red-800'
+                            : ''
+                      }`}
+                    >
+                      <RadioGroupItem
+                        value={String(optionIndex)}
+                        id={`question-${question.id}-${optionIndex}`}
+                      />
+                      <Label
+                        htmlFor={`question-${question.id}-${optionIndex}`}
+                        className="flex-1 font-normal cursor-pointer"
+                      >
+                        {option}
+                      </Label>
+                      {result !== null && isSelected && answeredCorrectly && <CheckCircle className="h-4 w-4 text-green-600" />}
+                      {result !== null && isSelected && !answeredCorrectly && <XCircle className="h-4 w-4 text-red-600" />}
+                    </div>
+                  );
+                })}
+              </RadioGroup>
+            </div>
+          );
+        })}
+
+        {result !== null ? (
+          <div className="flex items-center justify-between p-4 rounded-lg bg-muted">
+            <p className="text-foreground">
+              You scored <strong>{result.score}%</strong>
+            </p>
+            <Button variant="outline" onClick={handleRetake}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retake Quiz
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={handleSubmit} disabled={!allAnswered || submitting}>
+            {submitting ? 'Submitting...' : 'Submit Answers'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QuizPlayer;
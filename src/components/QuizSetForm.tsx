@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Plus, Trash2, ArrowUp, ArrowDown, X } from 'lucide-react';
+
+interface DraftQuestion {
+  id?: string;
+  question: string;
+  options: string[];
+  correct_answer: number;
+}
+
+interface QuizSetFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  quizSet?: any;
+  mode: 'add' | 'edit';
+}
+
+const emptyQuestion = (): DraftQuestion => ({
+  question: '',
+  options: ['', ''],
+  correct_answer: 0
+});
+
+const toDraftQuestions = (quizSet?: any): DraftQuestion[] => {
+  const questions = [...(quizSet?.quiz_questions || [])].sort((a, b) => a.order - b.order);
+  return questions.map((q) => ({
+    id: q.id,
+    question: q.question,
+    options: Array.isArray(q.options) ? q.options.map((option: unknown) => String(option)) : ['', ''],
+    correct_answer: q.correct_answer
+  }));
+};
+
+const QuizSetForm: React.FC<QuizSetFormProps> = ({ isOpen, onClose, quizSet, mode }) => {
+  const [title, setTitle] = useState('');
+  const [questions, setQuestions] = useState<DraftQuestion[]>([]);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(quizSet?.title || '');
+      setQuestions(mode === 'edit' ? toDraftQuestions(quizSet) : [emptyQuestion()]);
+    }
+  }, [isOpen, quizSet, mode]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Title and questions are saved in one transaction
+      const { error } = await supabase.rpc('save_quiz_set', {
+        p_quiz_set_id: mode === 'edit' ? quizSet?.id : null,
+        p_title: title,
+        p_questions: questions.map(q => ({
+          id: q.id ?? null,
+          question: q.question.trim(),
+          options: q.options.map(option => option.trim()),
+          correct_answer: q.correct_answer
+        }))
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success(`Quiz ${mode === 'add' ? 'created' : 'updated'} successfully`);
+      queryClient.invalidateQueries({ queryKey: ['admin-quiz-sets'] });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to ${mode} quiz: ${error.message}`);
+    },
+  });
+
+  const updateQuestion = (index: number, changes: Partial<DraftQuestion>) => {
+    setQuestions(prev => prev.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+    setQuestions(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeQuestion = (index: number) => {
+    setQuestions(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
+    const question = questions[questionIndex];
+    updateQuestion(questionIndex, {
+      options: question.options.map((option, i) => (i === optionIndex ? value : option))
+    });
+  };
+
+  const addOption = (questionIndex: number) => {
+    const question = questions[questionIndex];
+    updateQuestion(questionIndex, { options: [...question.options, ''] });
+  };
+
+  const removeOption = (questionIndex: number, optionIndex: number) => {
+    const question = questions[questionIndex];
+    const options = question.options.filter((_, i) => i !== optionIndex);
+    let correctAnswer = question.correct_answer;
+    if (optionIndex === correctAnswer) {
+      correctAnswer = 0;
+    } else if (optionIndex < correctAnswer) {
+      correctAnswer -= 1;
+    }
+    updateQuestion(questionIndex, { options, correct_answer: correctAnswer });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) {
+      toast.error('Quiz title is required');
+      return;
+    }
+    if (questions.length === 0) {
+      toast.error('Add at least one question');
+      return;
+    }
+    const invalidIndex = questions.findIndex(q =>
+      !q.question.trim() || q.options.length < 2 || q.options.some(option => !option.trim())
+    );
+    if (invalidIndex !== -1) {
+      toast.error(`Question ${invalidIndex + 1} needs text and at least two filled-in options`);
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{mode === 'add' ? 'Add New Quiz' : 'Edit Quiz'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="quiz-title">Quiz Title</Label>
+            <Input
+              id="quiz-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Enter quiz title"
+              required
+            />
+          </div>
+
+          <div className="space-y-4">
+            {questions.map((question, questionIndex) => (
+              <div key={question.id || `new-${questionIndex}`} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">Question {questionIndex + 1}</span>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveQuestion(questionIndex, -1)}
+                      disabled={questionIndex === 0}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveQuestion(questionIndex, 1)}
+                      disabled={questionIndex === questions.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeQuestion(questionIndex)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Textarea
+                  value={question.question}
+                  onChange={(e) => updateQuestion(questionIndex, { question: e.target.value })}
+                  placeholder="Enter the question"
+                  rows={2}
+                />
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Options (select the correct answer)</Label>
+                  <RadioGroup
+                    value={String(question.correct_answer)}
+                    onValueChange={(value) => updateQuestion(questionIndex, { correct_answer: parseInt(value) })}
+                  >
+                    {question.options.map((option, optionIndex) => (
+                      <div key={optionIndex} className="flex items-center space-x-2">
+                        <RadioGroupItem
+                          value={String(optionIndex)}
+                          id={`q-${questionIndex}-option-${optionIndex}`}
+                        />
+                        <Input
+                          value={option}
+                          onChange={(e) => updateOption(questionIndex, optionIndex, e.target.value)}
+                          placeholder={`Option ${optionIndex + 1}`}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeOption(questionIndex, optionIndex)}
+                          disabled={question.options.length <= 2}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => addOption(questionIndex)}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Option
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setQuestions(prev => [...prev, emptyQuestion()])}
+              className="w-full"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Question
+            </Button>
+          </div>
+
+          <div className="flex space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={saveMutation.isPending}
+              className="flex-1"
+            >
+              {saveMutation.isPending ? 'Saving...' : mode === 'add' ? 'Create Quiz' : 'Update Quiz'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuizSetForm;
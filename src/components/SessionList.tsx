@@ -0,0 +1,57 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Database } from '@/integrations/supabase/types';
+import { parseUserAgent } from '@/lib/userAgent';
+import { Monitor, Smartphone, Tablet, LogOut } from 'lucide-react';
+
+export type AuthSession = Database['public']['Functions']['get_my_sessions']['Returns'][number];
+
+interface SessionListProps {
+  sessions: AuthSession[];
+  onRevoke?: (session: AuthSession) => void;
+  revoking?: boolean;
+}
+
+const DEVICE_ICONS = { desktop: Monitor, mobile: Smartphone, tablet: Tablet };
+
+const SessionList: React.FC<SessionListProps> = ({ sessions, onRevoke, revoking }) => {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No active sessions</p>;
+  }
+
+  return (
+    <div className="divide-y border rounded-md">
+      {sessions.map(session => {
+        const device = parseUserAgent(session.user_agent);
+        const DeviceIcon = DEVICE_ICONS[device.deviceType];
+        return (
+          <div key={session.id} className="flex items-center justify-between p-3">
+            <div className="flex items-center space-x-3">
+              <DeviceIcon className="h-5 w-5 text-muted-foreground" />
+              <div>
+                <p className="text-sm font-medium flex items-center space-x-2">
+                  <span>{device.browser} on {device.os}</span>
+                  {session.is_current && <Badge variant="secondary" className="text-xs">This device</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Active {formatDistanceToNow(new Date(session.last_active_at), { addSuffix: true })}
+                  {session.ip && ` · ${session.ip}`}
+                  {` · Signed in ${new Date(session.created_at).toLocaleDateString()}`}
+                </p>
+              </div>
+            </div>
+            {onRevoke && !session.is_current && (
+              <Button variant="outline" size="sm" onClick={() => onRevoke(session)} disabled={revoking} title="Sign out this session">
+                <LogOut className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { supabase } from '@/integrations/supabase/client';
+import { useMfa } from '@/hooks/useMfa';
+import { generateRecoveryCodes, hashRecoveryCode } from '@/lib/mfa';
+import { toast } from 'sonner';
+import { ShieldCheck, Copy } from 'lucide-react';
+
+const TwoFactorSettings = () => {
+  const { factors, hasFactor, isVerified, refresh, user } = useMfa();
+  const [enrollment, setEnrollment] = useState<{ factorId: string; qrCode: string; secret: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [remainingCodes, setRemainingCodes] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (user && hasFactor) {
+      fetchRemainingCodes();
+    }
+  }, [user, hasFactor]);
+
+  const fetchRemainingCodes = async () => {
+    const { count, error } = await supabase
+      .from('mfa_recovery_codes')
+      .select('id', { count: 'exact', head: true })
+      .is('used_at', null);
+
+    if (error) {
+      console.error('Error fetching recovery codes:', error);
+      return;
+    }
+    setRemainingCodes(count || 0);
+  };
+
+  // Only hashes are stored, so the plain codes are shown once right here
+  const issueRecoveryCodes = async () => {
+    const codes = generateRecoveryCodes();
+    const hashes = await Promise.all(codes.map(hashRecoveryCode));
+
+    const { error } = await supabase.rpc('replace_mfa_recovery_codes', { p_code_hashes: hashes });
+    if (error) throw error;
+
+    setRecoveryCodes(codes);
+    setRemainingCodes(codes.length);
+  };
+
+  const handleStartEnrollment = async () => {
+    setBusy(true);
+
+    try {
+      // Clear out any setup that was started but never verified
+      const { data: factorList, error: factorsError } = await supabase.auth.mfa.listFactors();
+      if (factorsError) throw factorsError;
+
+      for (const factor of factorList.all.filter(factor => factor.status === 'unverified')) {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName: 'Authenticator app' });
+      if (error) throw error;
+
+      setEnrollment({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+      setCode('');
+    } catch (error: any) {
+      console.error('Error starting two-factor setup:', error);
+      toast.error(`Failed to start two-factor setup: ${error.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleVerifyEnrollment = async (value: string) => {
+    if (!enrollment) return;
+    setBusy(true);
+
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: enrollment.factorId, code: value });
+      if (error) {
+        toast.error('That code is not valid. Check your authenticator app and try again.');
+        setCode('');
+        return;
+      }
+
+      await issueRecoveryCodes();
+      setEnrollment(null);
+      await refresh();
+      toast.success('Two-factor authentication is on');
+    } catch (error: any) {
+      console.error('Error verifying two-factor setup:', error);
+      toast.error(`Failed to turn on two-factor authentication: ${error.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    setBusy(true);
+
+    try {
+      await issueRecoveryCodes();
+      toast.success('New recovery codes created. Your old codes no longer work.');
+    } catch (error: any) {
+      toast.error(`Failed to create recovery codes: ${error.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setBusy(true);
+
+    try {
+      const { error: codesError } = await supabase.rpc('replace_mfa_recovery_codes', { p_code_hashes: [] });
+      if (codesError) throw codesError;
+
+      for (const factor of factors) {
+        const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        if (error) throw error;
+      }
+
+      setRecoveryCodes(null);
+      setRemainingCodes(null);
+      await supabase.auth.refreshSession();
+      await refresh();
+      toast.success('Two-factor authentication is off');
+    } catch (error: any) {
+      toast.error(`Failed to turn off two-factor authentication: ${error.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast.success('Recovery codes copied to clipboard!');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5" />
+            <span>Two-Factor Authentication</span>
+          </CardTitle>
+          <Badge variant={hasFactor ? 'default' : 'secondary'}>{hasFactor ? 'On' : 'Off'}</Badge>
+        </div>
+        <CardDescription>
+          Ask for a code from an authenticator app such as Google Authenticator or 1Password when you sign in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes && (
+          <div className="rounded-md border border-yellow-300 bg-yellow-50 dark:bg-yellow-950/30 p-4 space-y-3">
+            <p className="text-sm font-medium">
+              Save these recovery codes somewhere safe. Each one works once if you lose your device, and
+              they won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map(recoveryCode => <span key={recoveryCode}>{recoveryCode}</span>)}
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={handleCopyCodes}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button size="sm" onClick={() => setRecoveryCodes(null)}>I've saved them</Button>
+            </div>
+          </div>
+        )}
+
+        {enrollment ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-44 w-44 bg-white p-2 rounded-md border" />
+            <p className="text-xs text-muted-foreground">
+              Can't scan it? Enter this key instead: <span className="font-mono break-all">{enrollment.secret}</span>
+            </p>
+            <InputOTP maxLength={6} value={code} onChange={setCode} onComplete={handleVerifyEnrollment} disabled={busy}>
+              <InputOTPGroup>
+                {[0, 1, 2, 3, 4, 5].map(index => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            <Button variant="outline" onClick={() => setEnrollment(null)} disabled={busy}>Cancel</Button>
+          </div>
+        ) : hasFactor ? (
+          <div className="space-y-3">
+            {remainingCodes !== null && (
+              <p className="text-sm text-muted-foreground">
+                {remainingCodes} unused recovery code{remainingCodes === 1 ? '' : 's'} left
+              </p>
+            )}
+            {isVerified ? (
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={handleRegenerateCodes} disabled={busy}>
+                  New Recovery Codes
+                </Button>
+                <Button variant="outline" onClick={handleDisable} disabled={busy} className="text-destructive hover:text-destructive">
+                  Turn Off
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Sign in again with your authenticator code to change these settings.</p>
+            )}
+          </div>
+        ) : (
+          <Button onClick={handleStartEnrollment} disabled={busy}>
+            Set Up Two-Factor Authentication
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
@@ -48,11 +48,6 @@ const UploadFileModal = ({ open, onOpenChange, studentId, onFileUploaded }: Uplo
         throw new Error('Failed to upload file');
       }
 
-      // Get the public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('student-files')
-        .getPublicUrl(filePath);
-
       // Save file metadata to database
       const { error: dbError } = await supabase
         .from('files')
@@ -61,7 +56,8 @@ const UploadFileModal = ({ open, onOpenChange, studentId, onFileUploaded }: Uplo
           uploader_id: user?.id,
           name: file.name,
           type: fileExtension.toLowerCase(),
-          path: publicUrl,
+          // The bucket is private; readers get a signed URL for this path
+          path: filePath,
           description: description || null
         });
 
@@ -2,20 +2,34 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { BookOpen, Users, Plus, Edit } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { BookOpen, Users, Plus, Edit, MoreVertical, Copy, Archive, ArchiveRestore, Trash2 } from 'lucide-react';
 
 interface CourseOverviewCardsProps {
   courses: any[];
   courseAssignments: any[];
   onEditCourse: (course: any) => void;
   onAddLesson: (courseId: string) => void;
+  onDuplicateCourse: (course: any) => void;
+  onToggleArchiveCourse: (course: any) => void;
+  onDeleteCourse: (course: any) => void;
 }
 
 const CourseOverviewCards: React.FC<CourseOverviewCardsProps> = ({
   courses,
   courseAssignments,
   onEditCourse,
-  onAddLesson
+  onAddLesson,
+  onDuplicateCourse,
+  onToggleArchiveCourse,
+  onDeleteCourse
 }) => {
   const getAssignedStudentCount = (courseId: string) => {
     return courseAssignments?.filter(assignment => assignment.course_id === courseId).length || 0;
@@ -26,22 +40,60 @@ const CourseOverviewCards: React.FC<CourseOverviewCardsProps> = ({
       {courses?.map((course) => {
         const assignedCount = getAssignedStudentCount(course.id);
         const lessonCount = course.lessons?.length || 0;
+        const isArchived = !!course.archived_at;
         
         return (
-          <Card key={course.id} className="hover:shadow-md transition-shadow">
+          <Card key={course.id} className={`hover:shadow-md transition-shadow ${isArchived ? 'opacity-70' : ''}`}>
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-2">
                   <BookOpen className="h-5 w-5 text-[#0D5C4B]" />
                   <CardTitle className="text-lg">{course.title}</CardTitle>
+                  {isArchived && <Badge variant="secondary">Archived</Badge>}
+                </div>
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onEditCourse(course)}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm">
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => onDuplicateCourse(course)}>
+                        <Copy className="h-4 w-4 mr-2" />
+                        Duplicate
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => onToggleArchiveCourse(course)}>
+                        {isArchived ? (
+                          <>
+                            <ArchiveRestore className="h-4 w-4 mr-2" />
+                            Unarchive
+                          </>
+                        ) : (
+                          <>
+                            <Archive className="h-4 w-4 mr-2" />
+                            Archive
+                          </>
+                        )}
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        onClick={() => onDeleteCourse(course)}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => onEditCourse(course)}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
               </div>
               <CardDescription>{course.description}</CardDescription>
             </CardHeader>
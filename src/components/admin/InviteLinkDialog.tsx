@@ -0,0 +1,47 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { Copy } from 'lucide-react';
+
+interface InviteLinkDialogProps {
+  invite: { name: string; inviteUrl: string; expiresAt: string } | null;
+  onClose: () => void;
+  children?: React.ReactNode;
+}
+
+// The link is only shown once: the server keeps a hash, not the token
+const InviteLinkDialog: React.FC<InviteLinkDialogProps> = ({ invite, onClose, children }) => {
+  const handleCopy = () => {
+    if (!invite) return;
+    navigator.clipboard.writeText(invite.inviteUrl);
+    toast.success('Invite link copied to clipboard!');
+  };
+
+  return (
+    <Dialog open={!!invite} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite Link for {invite?.name}</DialogTitle>
+          <DialogDescription>
+            Send this link to the user so they can choose their own password. It works once and
+            expires on {invite && new Date(invite.expiresAt).toLocaleDateString()}. It won't be shown again,
+            but you can always issue a new one.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex space-x-2">
+          <Input value={invite?.inviteUrl || ''} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+          <Button variant="outline" onClick={handleCopy}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <DialogFooter>
+          {children || <Button variant="outline" onClick={onClose}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InviteLinkDialog;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Route, Edit, Trash2, Plus, ChevronRight } from 'lucide-react';
+
+interface LearningPathManagementProps {
+  learningPaths: any[];
+  onAddLearningPath: () => void;
+  onEditLearningPath: (learningPath: any) => void;
+  onDeleteLearningPath: (learningPath: any) => void;
+}
+
+const LearningPathManagement: React.FC<LearningPathManagementProps> = ({
+  learningPaths,
+  onAddLearningPath,
+  onEditLearningPath,
+  onDeleteLearningPath
+}) => {
+  const [learningPathToDelete, setLearningPathToDelete] = useState<any>(null);
+
+  const handleConfirmDelete = () => {
+    if (learningPathToDelete) {
+      onDeleteLearningPath(learningPathToDelete);
+      setLearningPathToDelete(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Learning Paths</CardTitle>
+            <CardDescription>Ordered course sequences; each course opens once the previous one is completed</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={onAddLearningPath}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Path
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {learningPaths.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No learning paths yet. Click "Add Path" to create the first one.</p>
+        ) : (
+          learningPaths.map((learningPath) => {
+            const pathCourses = [...(learningPath.learning_path_courses || [])]
+              .sort((a: any, b: any) => a.position - b.position);
+
+            return (
+              <div key={learningPath.id} className="border rounded p-3 flex items-center justify-between">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <Route className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{learningPath.title}</span>
+                    <Badge variant="secondary" className="text-xs">
+                      {pathCourses.length} courses
+                    </Badge>
+                  </div>
+                  {pathCourses.length > 0 ? (
+                    <div className="flex flex-wrap items-center text-xs text-muted-foreground">
+                      {pathCourses.map((pathCourse: any, index: number) => (
+                        <React.Fragment key={pathCourse.course_id}>
+                          {index > 0 && <ChevronRight className="h-3 w-3 mx-1" />}
+                          <span>{pathCourse.courses?.title || 'Unknown course'}</span>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">No courses in this path</p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onEditLearningPath(learningPath)}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLearningPathToDelete(learningPath)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!learningPathToDelete} onOpenChange={(open) => !open && setLearningPathToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Learning Path</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete <strong>{learningPathToDelete?.title}</strong>.
+              Students keep their course enrollments, but path order will no longer gate their courses.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Path
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default LearningPathManagement;
@@ -1,10 +1,10 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { FileText, Edit, Trash2, Lock, Unlock, Plus } from 'lucide-react';
+import { FileText, Edit, Trash2, Lock, Unlock, Plus, GripVertical, CalendarClock } from 'lucide-react';
 
 interface LessonManagementProps {
   courses: any[];
@@ -16,8 +16,17 @@ interface LessonManagementProps {
   onEditLesson: (lesson: any) => void;
   onDeleteLesson: (lesson: any) => void;
   onAddLesson: (courseId: string) => void;
+  onReorderLessons: (courseId: string, lessonIds: string[]) => void;
+  isReordering: boolean;
 }
 
+interface DragState {
+  courseId: string;
+  lessonId: string;
+}
+
+const sortByOrder = (lessons: any[] = []) => [...lessons].sort((a, b) => a.order - b.order);
+
 const LessonManagement: React.FC<LessonManagementProps> = ({
   courses,
   students,
@@ -27,88 +36,155 @@ const LessonManagement: React.FC<LessonManagementProps> = ({
   onToggleLessonLock,
   onEditLesson,
   onDeleteLesson,
-  onAddLesson
+  onAddLesson,
+  onReorderLessons,
+  isReordering
 }) => {
+  const [dragging, setDragging] = useState<DragState | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const handleDragEnd = () => {
+    setDragging(null);
+    setDropTargetId(null);
+  };
+
+  const handleDrop = (courseId: string, lessons: any[], targetLessonId: string) => {
+    if (!dragging || dragging.courseId !== courseId || dragging.lessonId === targetLessonId) {
+      handleDragEnd();
+      return;
+    }
+
+    const lessonIds = lessons.map(lesson => lesson.id);
+    const fromIndex = lessonIds.indexOf(dragging.lessonId);
+    const toIndex = lessonIds.indexOf(targetLessonId);
+    lessonIds.splice(fromIndex, 1);
+    lessonIds.splice(toIndex, 0, dragging.lessonId);
+
+    onReorderLessons(courseId, lessonIds);
+    handleDragEnd();
+  };
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>Lesson Management</CardTitle>
-        <CardDescription>Edit lessons and manage individual lesson access for students</CardDescription>
+        <CardDescription>Edit lessons, drag to reorder them, and manage individual lesson access for students</CardDescription>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          {courses?.map((course) => (
-            <div key={course.id} className="border rounded-lg p-4">
-              <h3 className="font-semibold mb-3">{course.title}</h3>
-              <div className="space-y-2">
-                {course.lessons?.length === 0 ? (
-                  <p className="text-muted-foreground text-sm">No lessons yet. Click "Add Lesson" above to create the first lesson.</p>
-                ) : (
-                  course.lessons?.map((lesson: any) => (
-                    <div key={lesson.id} className="border rounded p-3">
-                      <div className="flex justify-between items-center mb-2">
-                        <div className="flex items-center space-x-2">
-                          <FileText className="h-4 w-4 text-muted-foreground" />
-                          <span className="font-medium">{lesson.title}</span>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => onEditLesson(lesson)}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => onDeleteLesson(lesson)}
-                            className="text-destructive hover:text-destructive"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+          {courses?.map((course) => {
+            const lessons = sortByOrder(course.lessons);
+
+            return (
+              <div key={course.id} className="border rounded-lg p-4">
+                <h3 className="font-semibold mb-3">{course.title}</h3>
+                <div className="space-y-2">
+                  {lessons.length === 0 ? (
+                    <p className="text-muted-foreground text-sm">No lessons yet. Click "Add Lesson" above to create the first lesson.</p>
+                  ) : (
+                    lessons.map((lesson: any) => (
+                      <div
+                        key={lesson.id}
+                        draggable={!isReordering}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move';
+                          setDragging({ courseId: course.id, lessonId: lesson.id });
+                        }}
+                        onDragOver={(e) => {
+                          // Lessons can only be moved within their own course
+                          if (dragging?.courseId !== course.id) return;
+                          e.preventDefault();
+                          setDropTargetId(lesson.id);
+                        }}
+                        onDragLeave={() => setDropTargetId(current => (current === lesson.id ? null : current))}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          handleDrop(course.id, lessons, lesson.id);
+                        }}
+                        onDragEnd={handleDragEnd}
+                        className={`border rounded p-3 transition-colors ${
+                          dragging?.lessonId === lesson.id ? 'opacity-50' : ''
+                        } ${
+                          dropTargetId === lesson.id && dragging?.lessonId !== lesson.id ? 'border-[#0D5C4B] bg-accent/50' : ''
+                        }`}
+                      >
+                        <div className="flex justify-between items-center mb-2">
+                          <div className="flex items-center space-x-2">
+                            <GripVertical
+                              className={`h-4 w-4 text-muted-foreground ${isReordering ? 'cursor-wait' : 'cursor-grab'}`}
+                            />
+                            <span className="text-sm text-muted-foreground w-6">{lesson.order}.</span>
+                            <FileText className="h-4 w-4 text-muted-foreground" />
+                            <span className="font-medium">{lesson.title}</span>
+                            {(lesson.release_days_after_enrollment != null || lesson.release_at) && (
+                              <span className="flex items-center text-xs text-muted-foreground">
+                                <CalendarClock className="h-3 w-3 mr-1" />
+                                {[
+                                  lesson.release_days_after_enrollment != null && `Day ${lesson.release_days_after_enrollment}`,
+                                  lesson.release_at && new Date(lesson.release_at).toLocaleDateString()
+                                ].filter(Boolean).join(' · ')}
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => onEditLesson(lesson)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => onDeleteLesson(lesson)}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
                         </div>
-                      </div>
-                      <div className="space-y-2">
-                        {students?.map((student) => {
-                          const isAssigned = courseAssignments?.some(ca => 
-                            ca.course_id === course.id && ca.user_id === student.id
-                          );
-                          
-                          if (!isAssigned) return null;
+                        <div className="space-y-2">
+                          {students?.map((student) => {
+                            const isAssigned = courseAssignments?.some(ca => 
+                              ca.course_id === course.id && ca.user_id === student.id
+                            );
+                            
+                            if (!isAssigned) return null;
 
-                          const locked = isLessonLocked(lesson.id, student.id);
-                          
-                          return (
-                            <div key={student.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                              <span className="text-sm">{student.name}</span>
-                              <div className="flex items-center space-x-2">
-                                <Label htmlFor={`lock-${lesson.id}-${student.id}`} className="text-xs">
-                                  {locked ? 'Locked' : 'Unlocked'}
-                                </Label>
-                                <Switch
-                                  id={`lock-${lesson.id}-${student.id}`}
-                                  checked={locked}
-                                  onCheckedChange={(checked) => 
-                                    onToggleLessonLock(lesson.id, student.id, checked)
-                                  }
-                                />
-                                {locked ? (
-                                  <Lock className="h-4 w-4 text-red-500" />
-                                ) : (
-                                  <Unlock className="h-4 w-4 text-green-500" />
-                                )}
+                            const locked = isLessonLocked(lesson.id, student.id);
+                            
+                            return (
+                              <div key={student.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                                <span className="text-sm">{student.name}</span>
+                                <div className="flex items-center space-x-2">
+                                  <Label htmlFor={`lock-${lesson.id}-${student.id}`} className="text-xs">
+                                    {locked ? 'Locked' : 'Unlocked'}
+                                  </Label>
+                                  <Switch
+                                    id={`lock-${lesson.id}-${student.id}`}
+                                    checked={locked}
+                                    onCheckedChange={(checked) => 
+                                      onToggleLessonLock(lesson.id, student.id, checked)
+                                    }
+                                  />
+                                  {locked ? (
+                                    <Lock className="h-4 w-4 text-red-500" />
+                                  ) : (
+                                    <Unlock className="h-4 w-4 text-green-500" />
+                                  )}
+                                </div>
                               </div>
-                            </div>
-                          );
-                        })}
+                            );
+                          })}
+                        </div>
                       </div>
-                    </div>
-                  ))
-                )}
+                    ))
+                  )}
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </CardContent>
     </Card>
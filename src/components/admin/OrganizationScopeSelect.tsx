@@ -0,0 +1,56 @@
+import React, { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrganizationScope } from '@/hooks/useOrganizationScope';
+import { Building2 } from 'lucide-react';
+
+const ALL_ORGANIZATIONS = 'all';
+
+const OrganizationScopeSelect = () => {
+  const { organizationId, setOrganizationId } = useOrganizationScope();
+
+  const { data: organizations } = useQuery({
+    queryKey: ['admin-organizations-list'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  // Drop a remembered scope whose organization was deleted or merged away
+  useEffect(() => {
+    if (organizations && organizationId && !organizations.some(organization => organization.id === organizationId)) {
+      setOrganizationId(null);
+    }
+  }, [organizations, organizationId, setOrganizationId]);
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Building2 className="h-4 w-4 text-muted-foreground" />
+      <Select
+        value={organizationId || ALL_ORGANIZATIONS}
+        onValueChange={(value) => setOrganizationId(value === ALL_ORGANIZATIONS ? null : value)}
+      >
+        <SelectTrigger className="w-56">
+          <SelectValue placeholder="All organizations" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_ORGANIZATIONS}>All organizations</SelectItem>
+          {organizations?.map(organization => (
+            <SelectItem key={organization.id} value={organization.id}>
+              {organization.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default OrganizationScopeSelect;
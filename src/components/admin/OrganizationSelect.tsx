@@ -0,0 +1,50 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+
+const NO_ORGANIZATION = 'none';
+
+interface OrganizationSelectProps {
+  id?: string;
+  value: string | null;
+  onChange: (organizationId: string | null) => void;
+  disabled?: boolean;
+}
+
+const OrganizationSelect = ({ id, value, onChange, disabled }: OrganizationSelectProps) => {
+  const { data: organizations } = useQuery({
+    queryKey: ['admin-organizations-list'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  return (
+    <Select
+      value={value || NO_ORGANIZATION}
+      onValueChange={(nextValue) => onChange(nextValue === NO_ORGANIZATION ? null : nextValue)}
+      disabled={disabled}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select an organization" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_ORGANIZATION}>No organization</SelectItem>
+        {organizations?.map(organization => (
+          <SelectItem key={organization.id} value={organization.id}>
+            {organization.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default OrganizationSelect;
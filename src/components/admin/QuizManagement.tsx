@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { QuizSettings } from '@/lib/lessonAccess';
+import { ClipboardCheck, Edit, Trash2, Plus } from 'lucide-react';
+
+interface QuizManagementProps {
+  quizSets: any[];
+  quizSettings: QuizSettings | null;
+  onAddQuizSet: () => void;
+  onEditQuizSet: (quizSet: any) => void;
+  onDeleteQuizSet: (quizSet: any) => void;
+  onSaveQuizSettings: (settings: QuizSettings) => void;
+  isSavingSettings: boolean;
+}
+
+const QuizManagement: React.FC<QuizManagementProps> = ({
+  quizSets,
+  quizSettings,
+  onAddQuizSet,
+  onEditQuizSet,
+  onDeleteQuizSet,
+  onSaveQuizSettings,
+  isSavingSettings
+}) => {
+  const [enforcePassMark, setEnforcePassMark] = useState(false);
+  const [passMark, setPassMark] = useState(70);
+  const [quizSetToDelete, setQuizSetToDelete] = useState<any>(null);
+
+  useEffect(() => {
+    setEnforcePassMark(quizSettings?.enforce_pass_mark || false);
+    setPassMark(quizSettings?.pass_mark_percentage ?? 70);
+  }, [quizSettings]);
+
+  const handleConfirmDelete = () => {
+    if (quizSetToDelete) {
+      onDeleteQuizSet(quizSetToDelete);
+      setQuizSetToDelete(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Quiz Management</CardTitle>
+            <CardDescription>Author quizzes and attach them to lessons from the lesson form</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={onAddQuizSet}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Quiz
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Pass mark settings */}
+        <div className="border rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="enforce-pass-mark" className="font-medium">Enforce pass mark</Label>
+              <p className="text-sm text-muted-foreground">
+                Students must reach the pass mark on a lesson's quiz before completing it
+              </p>
+            </div>
+            <Switch
+              id="enforce-pass-mark"
+              checked={enforcePassMark}
+              onCheckedChange={setEnforcePassMark}
+            />
+          </div>
+          <div className="flex items-end space-x-2">
+            <div>
+              <Label htmlFor="pass-mark">Pass mark (%)</Label>
+              <Input
+                id="pass-mark"
+                type="number"
+                min="0"
+                max="100"
+                value={passMark}
+                onChange={(e) => setPassMark(Math.min(100, Math.max(0, parseInt(e.target.value) || 0)))}
+                className="w-32"
+              />
+            </div>
+            <Button
+              size="sm"
+              onClick={() => onSaveQuizSettings({ enforce_pass_mark: enforcePassMark, pass_mark_percentage: passMark })}
+              disabled={isSavingSettings}
+            >
+              {isSavingSettings ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </div>
+        </div>
+
+        {/* Quiz sets */}
+        <div className="space-y-2">
+          {quizSets.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No quizzes yet. Click "Add Quiz" to create the first quiz.</p>
+          ) : (
+            quizSets.map((quizSet) => (
+              <div key={quizSet.id} className="border rounded p-3 flex items-center justify-between">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <ClipboardCheck className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{quizSet.title}</span>
+                    <Badge variant="secondary" className="text-xs">
+                      {quizSet.quiz_questions?.length || 0} questions
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {quizSet.lessons?.length
+                      ? `Used by: ${quizSet.lessons.map((lesson: any) => lesson.title).join(', ')}`
+                      : 'Not attached to any lesson'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onEditQuizSet(quizSet)}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setQuizSetToDelete(quizSet)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={!!quizSetToDelete} onOpenChange={(open) => !open && setQuizSetToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Quiz</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete <strong>{quizSetToDelete?.title}</strong> and its questions.
+              Lessons using this quiz will no longer have one.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Quiz
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default QuizManagement;
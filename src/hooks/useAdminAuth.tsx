@@ -2,16 +2,19 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from './useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { can, StaffPermission } from '@/lib/permissions';
 
 export const useAdminAuth = () => {
   const { user, loading } = useAuth();
   const [isAdmin, setIsAdmin] = useState(false);
+  const [permissions, setPermissions] = useState<string[]>([]);
   const [adminLoading, setAdminLoading] = useState(true);
 
   useEffect(() => {
     const checkAdminRole = async () => {
       if (!user) {
         setIsAdmin(false);
+        setPermissions([]);
         setAdminLoading(false);
         return;
       }
@@ -29,6 +32,20 @@ export const useAdminAuth = () => {
         } else {
           setIsAdmin(data?.role === 'admin');
         }
+
+        if (data?.role === 'admin') {
+          const { data: grants, error: grantsError } = await supabase
+            .from('staff_permissions')
+            .select('permission')
+            .eq('user_id', user.id);
+
+          if (grantsError) {
+            console.error('Error loading staff permissions:', grantsError);
+          }
+          setPermissions((grants || []).map(grant => grant.permission));
+        } else {
+          setPermissions([]);
+        }
       } catch (error) {
         console.error('Error checking admin role:', error);
         setIsAdmin(false);
@@ -44,6 +61,8 @@ export const useAdminAuth = () => {
 
   return {
     isAdmin,
+    permissions,
+    can: (permission: StaffPermission) => isAdmin && can(permissions, permission),
     loading: loading || adminLoading,
     user
   };
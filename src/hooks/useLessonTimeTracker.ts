@@ -0,0 +1,80 @@
+import { useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+const FLUSH_INTERVAL_MS = 30 * 1000;
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+// Measures active viewing time for a lesson and adds it to user_progress.time_spent.
+// Time stops counting while the tab is hidden or after IDLE_TIMEOUT_MS without input.
+export const useLessonTimeTracker = (courseId?: string, lessonId?: string, enabled = true) => {
+  useEffect(() => {
+    if (!courseId || !lessonId || !enabled) return;
+
+    let activeSince: number | null = document.visibilityState === 'visible' ? Date.now() : null;
+    let lastActivity = Date.now();
+    let pendingMs = 0;
+
+    const collect = () => {
+      const now = Date.now();
+
+      // Reading inside the embedded PDF viewer produces no events on this document
+      if (document.activeElement?.tagName === 'IFRAME' && document.visibilityState === 'visible') {
+        lastActivity = now;
+      }
+
+      if (activeSince === null) return;
+
+      const activeUntil = Math.min(now, lastActivity + IDLE_TIMEOUT_MS);
+      pendingMs += Math.max(0, activeUntil - activeSince);
+      activeSince = activeUntil < now ? null : now;
+    };
+
+    const flush = () => {
+      collect();
+
+      const seconds = Math.floor(pendingMs / 1000);
+      if (seconds <= 0) return;
+      pendingMs -= seconds * 1000;
+
+      supabase
+        .rpc('record_lesson_time', {
+          p_course_id: courseId,
+          p_lesson_id: lessonId,
+          p_seconds: seconds
+        })
+        .then(({ error }) => {
+          if (error) console.error('Error recording lesson time:', error);
+        });
+    };
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      if (activeSince === null && document.visibilityState === 'visible') {
+        activeSince = lastActivity;
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        flush();
+        activeSince = null;
+      } else {
+        handleActivity();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    const interval = window.setInterval(flush, FLUSH_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+      window.clearInterval(interval);
+      flush();
+    };
+  }, [courseId, lessonId, enabled]);
+};
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Factor } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+// Assurance level of the current session: aal1 after a password, aal2 after a TOTP code
+export const useMfa = () => {
+  const { user, loading: authLoading } = useAuth();
+  const [currentLevel, setCurrentLevel] = useState<string | null>(null);
+  const [nextLevel, setNextLevel] = useState<string | null>(null);
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setCurrentLevel(null);
+      setNextLevel(null);
+      setFactors([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [{ data: assurance, error: assuranceError }, { data: factorList, error: factorsError }] = await Promise.all([
+        supabase.auth.mfa.getAuthenticatorAssuranceLevel(),
+        supabase.auth.mfa.listFactors()
+      ]);
+
+      if (assuranceError) throw assuranceError;
+      if (factorsError) throw factorsError;
+
+      setCurrentLevel(assurance.currentLevel);
+      setNextLevel(assurance.nextLevel);
+      setFactors(factorList.totp);
+    } catch (error) {
+      console.error('Error checking two-factor status:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      refresh();
+    }
+  }, [authLoading, refresh]);
+
+  return {
+    // Signed in with a password but still owes a TOTP code
+    needsChallenge: nextLevel === 'aal2' && currentLevel !== 'aal2',
+    isVerified: currentLevel === 'aal2',
+    hasFactor: factors.length > 0,
+    factors,
+    loading: authLoading || loading,
+    refresh,
+    user
+  };
+};
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from './useAuth';
+import { supabase } from '@/integrations/supabase/client';
+
+export const useOrgManagerAuth = () => {
+  const { user, loading } = useAuth();
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [managerLoading, setManagerLoading] = useState(true);
+
+  useEffect(() => {
+    const checkManagerRole = async () => {
+      if (!user) {
+        setOrganizationId(null);
+        setManagerLoading(false);
+        return;
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('role, organization_id')
+          .eq('id', user.id)
+          .single();
+
+        if (error) {
+          console.error('Error checking organization manager role:', error);
+          setOrganizationId(null);
+        } else {
+          // A manager without an organization has nothing to manage
+          setOrganizationId(data?.role === 'org_manager' ? data.organization_id : null);
+        }
+      } catch (error) {
+        console.error('Error checking organization manager role:', error);
+        setOrganizationId(null);
+      } finally {
+        setManagerLoading(false);
+      }
+    };
+
+    if (!loading) {
+      checkManagerRole();
+    }
+  }, [user, loading]);
+
+  return {
+    isOrgManager: !!organizationId,
+    organizationId,
+    loading: loading || managerLoading,
+    user
+  };
+};
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+
+export type OrganizationScopeState = {
+  // null means every organization
+  organizationId: string | null;
+  setOrganizationId: (organizationId: string | null) => void;
+  // Members of the scoped organization, or null when unscoped
+  scopedUserIds: string[] | null;
+  isInScope: (userId: string | null | undefined) => boolean;
+};
+
+const initialState: OrganizationScopeState = {
+  organizationId: null,
+  setOrganizationId: () => null,
+  scopedUserIds: null,
+  isInScope: () => true,
+};
+
+export const OrganizationScopeContext = createContext<OrganizationScopeState>(initialState);
+
+export const useOrganizationScope = () => useContext(OrganizationScopeContext);
@@ -2,9 +2,17 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useOrganizationScope } from '@/hooks/useOrganizationScope';
 
-export const useRealtimeAdminStats = () => {
+export const useRealtimeAdminStats = (enabled = true) => {
   const queryClient = useQueryClient();
+  const { organizationId, scopedUserIds } = useOrganizationScope();
+
+  // Narrow a query to the scoped organization's members when one is selected
+  const scopeToUsers = <Q,>(query: Q, column: string): Q =>
+    scopedUserIds
+      ? (query as unknown as { in: (column: string, values: string[]) => Q }).in(column, scopedUserIds)
+      : query;
 
   const fetchAdminStats = async () => {
     console.log('Starting admin stats fetch...');
@@ -20,10 +28,14 @@ export const useRealtimeAdminStats = () => {
         userCoursesCheck,
         progressResult
       ] = await Promise.all([
-        supabase
-          .from('profiles')
-          .select('*', { count: 'exact', head: true })
-          .eq('role', 'student'),
+        scopeToUsers(
+          supabase
+            .from('profiles')
+            .select('*', { count: 'exact', head: true })
+            .eq('role', 'student')
+            .is('deactivated_at', null),
+          'id'
+        ),
         
         supabase
           .from('services')
@@ -34,9 +46,12 @@ export const useRealtimeAdminStats = () => {
           .from('courses')
           .select('*', { count: 'exact', head: true }),
         
-        supabase
-          .from('files')
-          .select('*', { count: 'exact', head: true }),
+        scopeToUsers(
+          supabase
+            .from('files')
+            .select('*', { count: 'exact', head: true }),
+          'student_id'
+        ),
         
         // Check if user_services table has any data
         supabase
@@ -50,10 +65,13 @@ export const useRealtimeAdminStats = () => {
           .select('*')
           .limit(10),
 
-        supabase
-          .from('user_progress')
-          .select('*')
-          .eq('completed', true)
+        scopeToUsers(
+          supabase
+            .from('user_progress')
+            .select('*')
+            .eq('completed', true),
+          'user_id'
+        )
       ]);
 
       console.log('Raw data check:');
@@ -69,25 +87,29 @@ export const useRealtimeAdminStats = () => {
       // Now get the detailed assigned services and courses
       const [assignedServicesResult, assignedCoursesResult] = await Promise.all([
         // Get assigned services with user and service details
-        supabase
-          .from('user_services')
-          .select(`
-            *,
-            profiles:user_id(id, name, email),
-            services:service_id(id, title, description, type, status)
-          `)
-          .eq('status', 'active')
-          .order('assigned_at', { ascending: false }),
+        scopeToUsers(
+          supabase
+            .from('user_services')
+            .select(`
+              *,
+              profiles:user_id(id, name, email),
+              services:service_id(id, title, description, type, status)
+            `)
+            .eq('status', 'active'),
+          'user_id'
+        ).order('assigned_at', { ascending: false }),
 
         // Get assigned courses with user and course details
-        supabase
-          .from('user_course_assignments')
-          .select(`
-            *,
-            profiles:user_id(id, name, email),
-            courses:course_id(id, title, description)
-          `)
-          .order('created_at', { ascending: false })
+        scopeToUsers(
+          supabase
+            .from('user_course_assignments')
+            .select(`
+              *,
+              profiles:user_id(id, name, email),
+              courses:course_id(id, title, description)
+            `),
+          'user_id'
+        ).order('created_at', { ascending: false })
       ]);
 
       console.log('Detailed queries:');
@@ -95,9 +117,12 @@ export const useRealtimeAdminStats = () => {
       console.log('Assigned courses result:', assignedCoursesResult);
 
       // Calculate completion rate
-      const totalProgressResult = await supabase
-        .from('user_progress')
-        .select('*', { count: 'exact', head: true });
+      const totalProgressResult = await scopeToUsers(
+        supabase
+          .from('user_progress')
+          .select('*', { count: 'exact', head: true }),
+        'user_id'
+      );
 
       const completedLessons = progressResult.data?.length || 0;
       const totalLessons = totalProgressResult.count || 0;
@@ -125,8 +150,9 @@ export const useRealtimeAdminStats = () => {
   };
 
   const query = useQuery({
-    queryKey: ['admin-stats-realtime'],
+    queryKey: ['admin-stats-realtime', organizationId, scopedUserIds],
     queryFn: fetchAdminStats,
+    enabled,
     refetchInterval: 5000, // Refetch every 5 seconds
   });
 
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+// Portal-wide security switches; staff managers change them on the Staff page
+export const useSecuritySettings = () => {
+  const { user, loading: authLoading } = useAuth();
+  const [requireStaffMfa, setRequireStaffMfa] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      if (!user) {
+        setRequireStaffMfa(false);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('security_settings')
+          .select('require_staff_mfa')
+          .order('created_at')
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw error;
+        setRequireStaffMfa(!!data?.require_staff_mfa);
+      } catch (error) {
+        console.error('Error loading security settings:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (!authLoading) {
+      fetchSettings();
+    }
+  }, [user, authLoading]);
+
+  return {
+    requireStaffMfa,
+    loading: authLoading || loading
+  };
+};
@@ -9,8 +9,245 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          id: string
+          new_data: Json | null
+          occurred_at: string
+          old_data: Json | null
+          record_id: string | null
+          subject_user_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          id?: string
+          new_data?: Json | null
+          occurred_at?: string
+          old_data?: Json | null
+          record_id?: string | null
+          subject_user_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          id?: string
+          new_data?: Json | null
+          occurred_at?: string
+          old_data?: Json | null
+          record_id?: string | null
+          subject_user_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      certificates: {
+        Row: {
+          completed_at: string
+          course_id: string | null
+          course_title: string
+          created_at: string | null
+          id: string
+          student_name: string
+          user_id: string
+          verification_code: string
+        }
+        Insert: {
+          completed_at?: string
+          course_id?: string | null
+          course_title: string
+          created_at?: string | null
+          id?: string
+          student_name: string
+          user_id: string
+          verification_code: string
+        }
+        Update: {
+          completed_at?: string
+          course_id?: string | null
+          course_title?: string
+          created_at?: string | null
+          id?: string
+          student_name?: string
+          user_id?: string
+          verification_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certificates_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cohort_courses: {
+        Row: {
+          cohort_id: string
+          course_id: string
+        }
+        Insert: {
+          cohort_id: string
+          course_id: string
+        }
+        Update: {
+          cohort_id?: string
+          course_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cohort_courses_cohort_id_fkey"
+            columns: ["cohort_id"]
+            isOneToOne: false
+            referencedRelation: "cohorts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cohort_courses_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cohort_members: {
+        Row: {
+          cohort_id: string
+          id: string
+          joined_at: string | null
+          user_id: string
+        }
+        Insert: {
+          cohort_id: string
+          id?: string
+          joined_at?: string | null
+          user_id: string
+        }
+        Update: {
+          cohort_id?: string
+          id?: string
+          joined_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cohort_members_cohort_id_fkey"
+            columns: ["cohort_id"]
+            isOneToOne: false
+            referencedRelation: "cohorts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cohort_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cohort_services: {
+        Row: {
+          cohort_id: string
+          service_id: string
+        }
+        Insert: {
+          cohort_id: string
+          service_id: string
+        }
+        Update: {
+          cohort_id?: string
+          service_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cohort_services_cohort_id_fkey"
+            columns: ["cohort_id"]
+            isOneToOne: false
+            referencedRelation: "cohorts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cohort_services_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cohorts: {
+        Row: {
+          created_at: string | null
+          description: string
+          id: string
+          name: string
+          start_date: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string
+          id?: string
+          name: string
+          start_date?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          id?: string
+          name?: string
+          start_date?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      course_prerequisites: {
+        Row: {
+          course_id: string
+          created_at: string | null
+          prerequisite_course_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string | null
+          prerequisite_course_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string | null
+          prerequisite_course_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_prerequisites_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_prerequisites_prerequisite_course_id_fkey"
+            columns: ["prerequisite_course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       courses: {
         Row: {
+          archived_at: string | null
           created_at: string | null
           description: string
           id: string
@@ -18,6 +255,7 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string | null
           description: string
           id?: string
@@ -25,6 +263,7 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          archived_at?: string | null
           created_at?: string | null
           description?: string
           id?: string
@@ -95,53 +334,292 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "files_student_id_fkey"
-            columns: ["student_id"]
+            foreignKeyName: "files_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "files_uploader_id_fkey"
+            columns: ["uploader_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learning_path_courses: {
+        Row: {
+          course_id: string
+          path_id: string
+          position: number
+        }
+        Insert: {
+          course_id: string
+          path_id: string
+          position: number
+        }
+        Update: {
+          course_id?: string
+          path_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learning_path_courses_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "learning_path_courses_path_id_fkey"
+            columns: ["path_id"]
+            isOneToOne: false
+            referencedRelation: "learning_paths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learning_paths: {
+        Row: {
+          created_at: string | null
+          description: string
+          id: string
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string
+          id?: string
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          id?: string
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      lesson_block_views: {
+        Row: {
+          block_id: string
+          id: string
+          lesson_id: string
+          user_id: string
+          viewed_at: string | null
+        }
+        Insert: {
+          block_id: string
+          id?: string
+          lesson_id: string
+          user_id: string
+          viewed_at?: string | null
+        }
+        Update: {
+          block_id?: string
+          id?: string
+          lesson_id?: string
+          user_id?: string
+          viewed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_block_views_block_id_fkey"
+            columns: ["block_id"]
+            isOneToOne: false
+            referencedRelation: "lesson_blocks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lesson_block_views_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_blocks: {
+        Row: {
+          body: string | null
+          created_at: string | null
+          file_name: string | null
+          id: string
+          lesson_id: string
+          order: number
+          required: boolean
+          storage_path: string | null
+          title: string
+          type: string
+          updated_at: string | null
+          url: string | null
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string | null
+          file_name?: string | null
+          id?: string
+          lesson_id: string
+          order?: number
+          required?: boolean
+          storage_path?: string | null
+          title?: string
+          type: string
+          updated_at?: string | null
+          url?: string | null
+        }
+        Update: {
+          body?: string | null
+          created_at?: string | null
+          file_name?: string | null
+          id?: string
+          lesson_id?: string
+          order?: number
+          required?: boolean
+          storage_path?: string | null
+          title?: string
+          type?: string
+          updated_at?: string | null
+          url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_blocks_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_bookmarks: {
+        Row: {
+          course_id: string
+          created_at: string | null
+          id: string
+          label: string
+          lesson_id: string
+          pdf_page: number | null
+          user_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string | null
+          id?: string
+          label?: string
+          lesson_id: string
+          pdf_page?: number | null
+          user_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string | null
+          id?: string
+          label?: string
+          lesson_id?: string
+          pdf_page?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_bookmarks_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lesson_bookmarks_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_locks: {
+        Row: {
+          course_id: string
+          created_at: string
+          id: string
+          lesson_id: string
+          user_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          id?: string
+          lesson_id: string
+          user_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          id?: string
+          lesson_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_locks_course_id_fkey"
+            columns: ["course_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "courses"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "files_uploader_id_fkey"
-            columns: ["uploader_id"]
+            foreignKeyName: "lesson_locks_lesson_id_fkey"
+            columns: ["lesson_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "lessons"
             referencedColumns: ["id"]
           },
         ]
       }
-      lesson_locks: {
+      lesson_notes: {
         Row: {
+          content: string
           course_id: string
-          created_at: string
+          created_at: string | null
           id: string
           lesson_id: string
+          updated_at: string | null
           user_id: string
         }
         Insert: {
+          content?: string
           course_id: string
-          created_at?: string
+          created_at?: string | null
           id?: string
           lesson_id: string
+          updated_at?: string | null
           user_id: string
         }
         Update: {
+          content?: string
           course_id?: string
-          created_at?: string
+          created_at?: string | null
           id?: string
           lesson_id?: string
+          updated_at?: string | null
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "lesson_locks_course_id_fkey"
+            foreignKeyName: "lesson_notes_course_id_fkey"
             columns: ["course_id"]
             isOneToOne: false
             referencedRelation: "courses"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "lesson_locks_lesson_id_fkey"
+            foreignKeyName: "lesson_notes_lesson_id_fkey"
             columns: ["lesson_id"]
             isOneToOne: false
             referencedRelation: "lessons"
@@ -157,8 +635,11 @@ export type Database = {
           id: string
           instructor_notes: string
           order: number
-          pdf_url: string
+          pdf_path: string | null
+          pdf_url: string | null
           quiz_set_id: string | null
+          release_at: string | null
+          release_days_after_enrollment: number | null
           title: string
           updated_at: string | null
         }
@@ -169,8 +650,11 @@ export type Database = {
           id?: string
           instructor_notes: string
           order: number
-          pdf_url: string
+          pdf_path?: string | null
+          pdf_url?: string | null
           quiz_set_id?: string | null
+          release_at?: string | null
+          release_days_after_enrollment?: number | null
           title: string
           updated_at?: string | null
         }
@@ -181,8 +665,11 @@ export type Database = {
           id?: string
           instructor_notes?: string
           order?: number
-          pdf_url?: string
+          pdf_path?: string | null
+          pdf_url?: string | null
           quiz_set_id?: string | null
+          release_at?: string | null
+          release_days_after_enrollment?: number | null
           title?: string
           updated_at?: string | null
         }
@@ -203,13 +690,61 @@ export type Database = {
           },
         ]
       }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      organizations: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string | null
+          deactivated_at: string | null
+          deactivated_by: string | null
           email: string
           id: string
           name: string
           organization: string | null
+          organization_id: string | null
           organization_role: string | null
           profile_image: string | null
           role: string
@@ -217,10 +752,13 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          deactivated_at?: string | null
+          deactivated_by?: string | null
           email: string
           id: string
           name: string
           organization?: string | null
+          organization_id?: string | null
           organization_role?: string | null
           profile_image?: string | null
           role?: string
@@ -228,16 +766,27 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          deactivated_at?: string | null
+          deactivated_by?: string | null
           email?: string
           id?: string
           name?: string
           organization?: string | null
+          organization_id?: string | null
           organization_role?: string | null
           profile_image?: string | null
           role?: string
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       prompts: {
         Row: {
@@ -281,6 +830,7 @@ export type Database = {
           created_at: string | null
           id: string
           options: Json
+          order: number
           question: string
           quiz_set_id: string | null
           updated_at: string | null
@@ -290,6 +840,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           options: Json
+          order?: number
           question: string
           quiz_set_id?: string | null
           updated_at?: string | null
@@ -299,6 +850,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           options?: Json
+          order?: number
           question?: string
           quiz_set_id?: string | null
           updated_at?: string | null
@@ -358,6 +910,27 @@ export type Database = {
         }
         Relationships: []
       }
+      security_settings: {
+        Row: {
+          created_at: string | null
+          id: string
+          require_staff_mfa: boolean
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          require_staff_mfa?: boolean
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          require_staff_mfa?: boolean
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       services: {
         Row: {
           created_at: string
@@ -388,8 +961,45 @@ export type Database = {
         }
         Relationships: []
       }
+      staff_permissions: {
+        Row: {
+          created_at: string | null
+          granted_by: string | null
+          permission: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          granted_by?: string | null
+          permission: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          granted_by?: string | null
+          permission?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_permissions_granted_by_fkey"
+            columns: ["granted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_permissions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_course_assignments: {
         Row: {
+          cohort_id: string | null
           course_id: string | null
           created_at: string | null
           id: string
@@ -398,6 +1008,7 @@ export type Database = {
           user_id: string | null
         }
         Insert: {
+          cohort_id?: string | null
           course_id?: string | null
           created_at?: string | null
           id?: string
@@ -406,6 +1017,7 @@ export type Database = {
           user_id?: string | null
         }
         Update: {
+          cohort_id?: string | null
           course_id?: string | null
           created_at?: string | null
           id?: string
@@ -428,6 +1040,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "user_course_assignments_cohort_id_fkey"
+            columns: ["cohort_id"]
+            isOneToOne: false
+            referencedRelation: "cohorts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "user_course_assignments_course_id_fkey"
             columns: ["course_id"]
@@ -437,6 +1056,86 @@ export type Database = {
           },
         ]
       }
+      user_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          created_by: string | null
+          email: string
+          expires_at: string
+          id: string
+          revoked_at: string | null
+          token_hash: string
+          user_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          email: string
+          expires_at: string
+          id?: string
+          revoked_at?: string | null
+          token_hash: string
+          user_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string
+          expires_at?: string
+          id?: string
+          revoked_at?: string | null
+          token_hash?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_invitations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_invitations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_learning_paths: {
+        Row: {
+          assigned_at: string | null
+          id: string
+          path_id: string
+          user_id: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          id?: string
+          path_id: string
+          user_id: string
+        }
+        Update: {
+          assigned_at?: string | null
+          id?: string
+          path_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_learning_paths_path_id_fkey"
+            columns: ["path_id"]
+            isOneToOne: false
+            referencedRelation: "learning_paths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_lesson_locks: {
         Row: {
           course_id: string
@@ -509,6 +1208,7 @@ export type Database = {
           course_id: string | null
           created_at: string | null
           id: string
+          last_tracked_at: string | null
           lesson_id: string | null
           pdf_viewed: boolean
           quiz_attempts: number
@@ -522,6 +1222,7 @@ export type Database = {
           course_id?: string | null
           created_at?: string | null
           id?: string
+          last_tracked_at?: string | null
           lesson_id?: string | null
           pdf_viewed?: boolean
           quiz_attempts?: number
@@ -535,6 +1236,7 @@ export type Database = {
           course_id?: string | null
           created_at?: string | null
           id?: string
+          last_tracked_at?: string | null
           lesson_id?: string | null
           pdf_viewed?: boolean
           quiz_attempts?: number
@@ -563,6 +1265,7 @@ export type Database = {
       user_services: {
         Row: {
           assigned_at: string
+          cohort_id: string | null
           id: string
           service_id: string | null
           status: string | null
@@ -570,6 +1273,7 @@ export type Database = {
         }
         Insert: {
           assigned_at?: string
+          cohort_id?: string | null
           id?: string
           service_id?: string | null
           status?: string | null
@@ -577,6 +1281,7 @@ export type Database = {
         }
         Update: {
           assigned_at?: string
+          cohort_id?: string | null
           id?: string
           service_id?: string | null
           status?: string | null
@@ -597,6 +1302,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "user_services_cohort_id_fkey"
+            columns: ["cohort_id"]
+            isOneToOne: false
+            referencedRelation: "cohorts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "user_services_service_id_fkey"
             columns: ["service_id"]
@@ -608,9 +1320,122 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      student_quiz_questions: {
+        Row: {
+          created_at: string | null
+          id: string | null
+          options: Json | null
+          order: number | null
+          question: string | null
+          quiz_set_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_questions_quiz_set_id_fkey"
+            columns: ["quiz_set_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      assign_learning_path: {
+        Args: { p_user_id: string; p_path_id: string }
+        Returns: undefined
+      }
+      can_open_lesson: {
+        Args: { p_lesson_id: string }
+        Returns: boolean
+      }
+      complete_lesson: {
+        Args: { p_lesson_id: string }
+        Returns: undefined
+      }
+      delete_course: {
+        Args: { p_course_id: string }
+        Returns: undefined
+      }
+      delete_quiz_set: {
+        Args: { p_quiz_set_id: string }
+        Returns: undefined
+      }
+      duplicate_course: {
+        Args: { p_course_id: string }
+        Returns: string
+      }
+      end_user_sessions: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      get_blocking_courses: {
+        Args: { p_user_id: string; p_course_id: string }
+        Returns: {
+          course_id: string
+          title: string
+        }[]
+      }
+      get_course_outline: {
+        Args: { p_course_id: string }
+        Returns: {
+          id: string
+          title: string
+          description: string
+          order: number
+          quiz_set_id: string | null
+          release_at: string | null
+          release_days_after_enrollment: number | null
+          block_types: string[]
+        }[]
+      }
+      get_lesson_lock_reason: {
+        Args: { p_user_id: string; p_lesson_id: string }
+        Returns: string
+      }
+      get_lesson_release_at: {
+        Args: { p_user_id: string; p_lesson_id: string }
+        Returns: string
+      }
+      get_my_course_availability: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          course_id: string
+          blocking_course_titles: string[]
+        }[]
+      }
+      get_my_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          created_at: string
+          last_active_at: string
+          user_agent: string | null
+          ip: string | null
+          aal: string | null
+          is_current: boolean
+        }[]
+      }
+      get_user_sessions: {
+        Args: { p_user_id: string }
+        Returns: {
+          id: string
+          created_at: string
+          last_active_at: string
+          user_agent: string | null
+          ip: string | null
+          aal: string | null
+          is_current: boolean
+        }[]
+      }
+      has_course_access: {
+        Args: { p_course_id: string }
+        Returns: boolean
+      }
+      has_permission: {
+        Args: { p_permission: string }
+        Returns: boolean
+      }
       is_admin: {
         Args: { user_id: string }
         Returns: boolean
@@ -619,6 +1444,100 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      is_assigned_to_course: {
+        Args: { p_course_id: string }
+        Returns: boolean
+      }
+      is_course_completed: {
+        Args: { p_user_id: string; p_course_id: string }
+        Returns: boolean
+      }
+      is_lesson_passed: {
+        Args: { p_user_id: string; p_lesson_id: string }
+        Returns: boolean
+      }
+      is_org_manager_course: {
+        Args: { p_course_id: string }
+        Returns: boolean
+      }
+      is_org_manager_of: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      issue_certificate: {
+        Args: { p_course_id: string }
+        Returns: {
+          completed_at: string
+          course_id: string | null
+          course_title: string
+          created_at: string | null
+          id: string
+          student_name: string
+          user_id: string
+          verification_code: string
+        }
+      }
+      link_organization_name: {
+        Args: { p_value: string; p_organization_id: string }
+        Returns: number
+      }
+      merge_organizations: {
+        Args: { p_source_id: string; p_target_id: string }
+        Returns: number
+      }
+      mfa_satisfied: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      record_lesson_time: {
+        Args: { p_course_id: string; p_lesson_id: string; p_seconds: number }
+        Returns: undefined
+      }
+      reorder_lessons: {
+        Args: { p_course_id: string; p_lesson_ids: string[] }
+        Returns: undefined
+      }
+      replace_mfa_recovery_codes: {
+        Args: { p_code_hashes: string[] }
+        Returns: undefined
+      }
+      revoke_my_session: {
+        Args: { p_session_id: string }
+        Returns: undefined
+      }
+      revoke_user_sessions: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      save_lesson_blocks: {
+        Args: { p_lesson_id: string; p_blocks: Json }
+        Returns: undefined
+      }
+      save_quiz_set: {
+        Args: { p_quiz_set_id: string | null; p_title: string; p_questions: Json }
+        Returns: string
+      }
+      staff_mfa_satisfied: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      submit_quiz: {
+        Args: { p_lesson_id: string; p_answers: Json }
+        Returns: {
+          score: number
+          best_score: number
+          attempts: number
+          correct_question_ids: string[]
+        }[]
+      }
+      verify_certificate: {
+        Args: { p_code: string }
+        Returns: {
+          student_name: string
+          course_title: string
+          completed_at: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,48 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Deactivated accounts must wait this long before they can be purged.
+// The delete-user edge function enforces the same period.
+export const PURGE_RETENTION_DAYS = 30;
+
+export const getPurgeAvailableAt = (deactivatedAt: string) => {
+  const availableAt = new Date(deactivatedAt);
+  availableAt.setDate(availableAt.getDate() + PURGE_RETENTION_DAYS);
+  return availableAt;
+};
+
+export const canPurgeAccount = (deactivatedAt: string | null) =>
+  !!deactivatedAt && getPurgeAvailableAt(deactivatedAt) <= new Date();
+
+export type InviteStatus = 'pending' | 'expired' | 'revoked' | 'accepted';
+
+export const getInviteStatus = (invitation: { accepted_at: string | null; revoked_at: string | null; expires_at: string }): InviteStatus => {
+  if (invitation.accepted_at) return 'accepted';
+  if (invitation.revoked_at) return 'revoked';
+  return new Date(invitation.expires_at) < new Date() ? 'expired' : 'pending';
+};
+
+// Calls an account-management edge function as the signed-in admin
+export const callAccountFunction = async (name: 'deactivate-user' | 'delete-user' | 'invite-user', body: Record<string, unknown>) => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error('No active session');
+  }
+
+  const response = await fetch(`https://oimqzyfmglyhljjuboek.supabase.co/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || `Failed to call ${name}`);
+  }
+
+  return result;
+};
@@ -0,0 +1,74 @@
+import { jsPDF } from 'jspdf';
+import { Tables } from '@/integrations/supabase/types';
+
+export type Certificate = Tables<'certificates'>;
+
+// Matches the portal name shown in the header and on the sign-in page
+const BRAND_NAME = 'AI Data Management';
+const BRAND_COLOR: [number, number, number] = [13, 92, 75];
+
+export const getCertificateVerificationUrl = (verificationCode: string) =>
+  `${window.location.origin}/verify/${encodeURIComponent(verificationCode)}`;
+
+export const formatCertificateDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Certificates are drawn in the browser so no server-side rendering is needed
+export const buildCertificatePdf = (certificate: Pick<Certificate, 'student_name' | 'course_title' | 'completed_at' | 'verification_code'>) => {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const centerX = width / 2;
+
+  // Border
+  doc.setDrawColor(...BRAND_COLOR);
+  doc.setLineWidth(2);
+  doc.rect(10, 10, width - 20, height - 20);
+  doc.setLineWidth(0.5);
+  doc.rect(14, 14, width - 28, height - 28);
+
+  doc.setTextColor(...BRAND_COLOR);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(BRAND_NAME.toUpperCase(), centerX, 38, { align: 'center' });
+
+  doc.setFontSize(34);
+  doc.text('Certificate of Completion', centerX, 60, { align: 'center' });
+
+  doc.setTextColor(60, 60, 60);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  doc.text('This certifies that', centerX, 80, { align: 'center' });
+
+  doc.setTextColor(20, 20, 20);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(28);
+  doc.text(certificate.student_name, centerX, 98, { align: 'center' });
+
+  doc.setTextColor(60, 60, 60);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  doc.text('has successfully completed the course', centerX, 114, { align: 'center' });
+
+  doc.setTextColor(...BRAND_COLOR);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(22);
+  const titleLines = doc.splitTextToSize(certificate.course_title, width - 80);
+  doc.text(titleLines, centerX, 130, { align: 'center' });
+
+  doc.setTextColor(60, 60, 60);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.text(`Completed on ${formatCertificateDate(certificate.completed_at)}`, centerX, 152, { align: 'center' });
+
+  doc.setFontSize(10);
+  doc.text(`Verification code: ${certificate.verification_code}`, centerX, 176, { align: 'center' });
+  doc.text(`Verify at ${getCertificateVerificationUrl(certificate.verification_code)}`, centerX, 182, { align: 'center' });
+
+  return doc;
+};
+
+export const downloadCertificate = (certificate: Pick<Certificate, 'student_name' | 'course_title' | 'completed_at' | 'verification_code'>) => {
+  const fileName = `certificate-${certificate.course_title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.pdf`;
+  buildCertificatePdf(certificate).save(fileName);
+};
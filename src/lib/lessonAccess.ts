@@ -0,0 +1,152 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Tables } from '@/integrations/supabase/types';
+
+export type QuizSettings = Pick<Tables<'quiz_settings'>, 'enforce_pass_mark' | 'pass_mark_percentage'>;
+export type CourseOutlineLesson = Database['public']['Functions']['get_course_outline']['Returns'][number];
+
+type LessonQuizInfo = Pick<Tables<'lessons'>, 'quiz_set_id'>;
+type ProgressQuizInfo = Pick<Tables<'user_progress'>, 'completed' | 'quiz_score'>;
+type LessonReleaseInfo = Pick<Tables<'lessons'>, 'release_at' | 'release_days_after_enrollment'>;
+type LessonSequenceInfo = Pick<Tables<'lessons'>, 'id' | 'quiz_set_id'> & LessonReleaseInfo;
+type ProgressSequenceInfo = ProgressQuizInfo & Pick<Tables<'user_progress'>, 'lesson_id'>;
+
+// 'admin' locks come from user_lesson_locks, 'scheduled' locks from a future release date,
+// 'sequence' locks from an unfinished previous lesson
+export type LessonLockReason = 'admin' | 'scheduled' | 'sequence' | null;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// quiz_settings holds a single portal-wide row
+export const fetchQuizSettings = async (): Promise<QuizSettings | null> => {
+  const { data, error } = await supabase
+    .from('quiz_settings')
+    .select('enforce_pass_mark, pass_mark_percentage')
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching quiz settings:', error);
+    return null;
+  }
+
+  return data;
+};
+
+export const meetsPassMark = (
+  lesson: LessonQuizInfo,
+  progress: ProgressQuizInfo | null | undefined,
+  settings: QuizSettings | null
+) => {
+  if (!lesson.quiz_set_id || !settings?.enforce_pass_mark) return true;
+  return (progress?.quiz_score ?? -1) >= settings.pass_mark_percentage;
+};
+
+export const isLessonPassed = (
+  lesson: LessonQuizInfo,
+  progress: ProgressQuizInfo | null | undefined,
+  settings: QuizSettings | null
+) => {
+  return !!progress?.completed && meetsPassMark(lesson, progress, settings);
+};
+
+export const fetchLockedLessonIds = async (userId: string, courseId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('user_lesson_locks')
+    .select('lesson_id')
+    .eq('user_id', userId)
+    .eq('course_id', courseId)
+    .eq('locked', true);
+
+  if (error) {
+    console.error('Error fetching lesson locks:', error);
+    return [];
+  }
+
+  return (data || []).map(lock => lock.lesson_id);
+};
+
+// Every lesson of an open course, including locked ones; their content is only readable once unlocked
+export const fetchCourseOutline = async (courseId: string): Promise<CourseOutlineLesson[]> => {
+  const { data, error } = await supabase.rpc('get_course_outline', { p_course_id: courseId });
+
+  if (error) {
+    console.error('Error fetching course outline:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+// Drip schedules count from the student's first enrollment in the course
+export const fetchEnrollmentDate = async (userId: string, courseId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('user_course_assignments')
+    .select('created_at')
+    .eq('user_id', userId)
+    .eq('course_id', courseId)
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching enrollment date:', error);
+    return null;
+  }
+
+  return data?.created_at || null;
+};
+
+// Mirrors get_lesson_release_at: the later of both schedules wins
+export const getLessonReleaseDate = (lesson: LessonReleaseInfo, enrolledAt: string | null): Date | null => {
+  const fixedDate = lesson.release_at ? new Date(lesson.release_at) : null;
+  const relativeDate = lesson.release_days_after_enrollment != null && enrolledAt
+    ? new Date(new Date(enrolledAt).getTime() + lesson.release_days_after_enrollment * DAY_MS)
+    : null;
+
+  if (fixedDate && relativeDate) {
+    return fixedDate > relativeDate ? fixedDate : relativeDate;
+  }
+  return fixedDate || relativeDate;
+};
+
+export const formatReleaseCountdown = (releaseDate: Date, now = new Date()) => {
+  const remaining = releaseDate.getTime() - now.getTime();
+  const days = Math.floor(remaining / DAY_MS);
+  const hours = Math.floor(remaining / (60 * 60 * 1000));
+  const minutes = Math.max(1, Math.ceil(remaining / (60 * 1000)));
+
+  if (days >= 1) return `Available in ${days} day${days === 1 ? '' : 's'}`;
+  if (hours >= 1) return `Available in ${hours} hour${hours === 1 ? '' : 's'}`;
+  return `Available in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+// Lessons must be released and passed in course order
+export const getLessonLockReason = (
+  lessons: LessonSequenceInfo[],
+  index: number,
+  progress: ProgressSequenceInfo[],
+  lockedLessonIds: string[],
+  settings: QuizSettings | null,
+  enrolledAt: string | null,
+  now = new Date()
+): LessonLockReason => {
+  const lesson = lessons[index];
+  if (!lesson) return null;
+
+  if (lockedLessonIds.includes(lesson.id)) return 'admin';
+
+  const releaseDate = getLessonReleaseDate(lesson, enrolledAt);
+  if (releaseDate && releaseDate > now) return 'scheduled';
+
+  const previousLesson = index > 0 ? lessons[index - 1] : null;
+  if (previousLesson && !isLessonPassed(
+    previousLesson,
+    progress.find(p => p.lesson_id === previousLesson.id),
+    settings
+  )) {
+    return 'sequence';
+  }
+
+  return null;
+};
@@ -0,0 +1,92 @@
+import { Tables } from '@/integrations/supabase/types';
+
+export type LessonBlock = Tables<'lesson_blocks'>;
+
+export type LessonBlockType = 'pdf' | 'video' | 'rich_text' | 'embed' | 'download';
+
+export const LESSON_BLOCK_TYPES: { value: LessonBlockType; label: string }[] = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'video', label: 'Video' },
+  { value: 'rich_text', label: 'Rich Text' },
+  { value: 'embed', label: 'Embed' },
+  { value: 'download', label: 'Download' }
+];
+
+export const getLessonBlockTypeLabel = (type: string) =>
+  LESSON_BLOCK_TYPES.find(blockType => blockType.value === type)?.label || type;
+
+// Block types whose content can come from an uploaded file
+export const UPLOADABLE_BLOCK_TYPES: LessonBlockType[] = ['pdf', 'video', 'download'];
+
+const VIDEO_FILE_PATTERN = /\.(mp4|webm|ogg|mov|m4v)(\?|#|$)/i;
+
+export const isVideoFileUrl = (url: string) => VIDEO_FILE_PATTERN.test(url);
+
+// Turn YouTube and Vimeo watch links into their embeddable player URLs
+export const getVideoEmbedUrl = (url: string): string | null => {
+  const youtube = url.match(/(?:youtube\.com\/(?:watch\?v=|embed\/|shorts\/)|youtu\.be\/)([\w-]{11})/);
+  if (youtube) return `https://www.youtube.com/embed/${youtube[1]}`;
+
+  const vimeo = url.match(/vimeo\.com\/(?:video\/)?(\d+)/);
+  if (vimeo) return `https://player.vimeo.com/video/${vimeo[1]}`;
+
+  return null;
+};
+
+export const getMissingRequiredBlocks = (blocks: LessonBlock[], viewedBlockIds: string[]) =>
+  blocks.filter(block => block.required && !viewedBlockIds.includes(block.id));
+
+// Editable copy of a block used by the lesson form before it is saved
+export interface DraftLessonBlock {
+  id?: string;
+  type: LessonBlockType;
+  title: string;
+  url: string;
+  body: string;
+  storage_path: string | null;
+  file_name: string | null;
+  required: boolean;
+  file?: File | null;
+}
+
+export const emptyDraftBlock = (type: LessonBlockType): DraftLessonBlock => ({
+  type,
+  title: '',
+  url: '',
+  body: '',
+  storage_path: null,
+  file_name: null,
+  required: false,
+  file: null
+});
+
+export const toDraftBlocks = (blocks: LessonBlock[] = []): DraftLessonBlock[] =>
+  [...blocks]
+    .sort((a, b) => a.order - b.order)
+    .map(block => ({
+      id: block.id,
+      type: block.type as LessonBlockType,
+      title: block.title,
+      url: block.url || '',
+      body: block.body || '',
+      storage_path: block.storage_path,
+      file_name: block.file_name,
+      required: block.required,
+      file: null
+    }));
+
+// Returns a message describing the first incomplete block, or null when all are valid
+export const validateDraftBlocks = (blocks: DraftLessonBlock[]): string | null => {
+  const invalidIndex = blocks.findIndex(block => {
+    if (block.type === 'rich_text') return !block.body.replace(/<[^>]*>/g, '').trim();
+    if (block.type === 'embed') return !block.url.trim();
+    return !block.file && !block.storage_path && !block.url.trim();
+  });
+
+  if (invalidIndex === -1) return null;
+
+  const block = blocks[invalidIndex];
+  if (block.type === 'rich_text') return `Block ${invalidIndex + 1} needs some text`;
+  if (block.type === 'embed') return `Block ${invalidIndex + 1} needs an embed URL`;
+  return `Block ${invalidIndex + 1} needs an uploaded file or a URL`;
+};
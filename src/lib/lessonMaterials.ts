@@ -0,0 +1,77 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export const LESSON_MATERIALS_BUCKET = 'lesson-materials';
+
+// Signed URLs are refreshed on every lesson load, so an hour is plenty
+const SIGNED_URL_TTL_SECONDS = 3600;
+
+type LessonPdfInfo = Pick<Tables<'lessons'>, 'pdf_path' | 'pdf_url'>;
+
+export const uploadLessonFile = async (courseId: string, file: File): Promise<string> => {
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const path = `${courseId}/${crypto.randomUUID()}-${safeName}`;
+
+  const { error } = await supabase.storage
+    .from(LESSON_MATERIALS_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined });
+
+  if (error) throw error;
+  return path;
+};
+
+// Duplicated courses share uploads, so only objects no lesson or block points at any more are removed
+export const removeUnusedLessonFiles = async (paths: (string | null | undefined)[]) => {
+  const candidates = [...new Set(paths.filter((path): path is string => !!path))];
+  if (candidates.length === 0) return;
+
+  const [{ data: lessonsUsing, error: lessonsError }, { data: blocksUsing, error: blocksError }] = await Promise.all([
+    supabase.from('lessons').select('pdf_path').in('pdf_path', candidates),
+    supabase.from('lesson_blocks').select('storage_path').in('storage_path', candidates)
+  ]);
+
+  if (lessonsError || blocksError) {
+    console.error('Error checking lesson file usage:', lessonsError || blocksError);
+    return;
+  }
+
+  const usedPaths = [
+    ...(lessonsUsing || []).map(lesson => lesson.pdf_path),
+    ...(blocksUsing || []).map(block => block.storage_path)
+  ];
+  const unused = candidates.filter(path => !usedPaths.includes(path));
+  if (unused.length === 0) return;
+
+  const { error: removeError } = await supabase.storage
+    .from(LESSON_MATERIALS_BUCKET)
+    .remove(unused);
+
+  if (removeError) {
+    console.error('Error removing lesson files:', removeError);
+  }
+};
+
+export const getSignedLessonFileUrl = async (path: string): Promise<string | null> => {
+  const { data, error } = await supabase.storage
+    .from(LESSON_MATERIALS_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('Error creating lesson file URL:', error);
+    return null;
+  }
+
+  return data.signedUrl;
+};
+
+// Uploaded PDFs are served through signed URLs; legacy lessons keep their external link
+export const getLessonPdfUrl = async (lesson: LessonPdfInfo): Promise<string | null> => {
+  if (!lesson.pdf_path) return lesson.pdf_url || null;
+  return getSignedLessonFileUrl(lesson.pdf_path);
+};
+
+export const getLessonFileName = (path: string) => {
+  const fileName = path.split('/').pop() || path;
+  // Strip the uuid prefix added on upload
+  return fileName.replace(/^[0-9a-f-]{36}-/, '');
+};
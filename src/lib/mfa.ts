@@ -0,0 +1,20 @@
+export const RECOVERY_CODE_COUNT = 10;
+
+// No 0/O or 1/I/L, so codes survive being read aloud or written down
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(crypto.getRandomValues(new Uint8Array(10)), byte =>
+      RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]
+    ).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+
+// The use-recovery-code edge function normalises and hashes codes the same way
+export const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const hashRecoveryCode = async (code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,69 @@
+export interface NotesLessonEntry {
+  lessonId: string;
+  lessonTitle: string;
+  lessonOrder: number;
+  content: string;
+  updatedAt: string | null;
+  bookmarkedLesson: boolean;
+  pageBookmarks: { page: number; label: string }[];
+}
+
+export interface NotesCourseGroup {
+  courseId: string;
+  courseTitle: string;
+  lessons: NotesLessonEntry[];
+}
+
+export const getLessonLink = (courseId: string, lessonId: string, page?: number) =>
+  `/courses/${courseId}/lessons/${lessonId}${page ? `?page=${page}` : ''}`;
+
+// Links are absolute so they keep working from outside the portal
+export const buildNotesMarkdown = (groups: NotesCourseGroup[]) => {
+  const origin = window.location.origin;
+  const lines = ['# My Notes', '', `_Exported ${new Date().toLocaleDateString()}_`, ''];
+
+  groups.forEach(group => {
+    lines.push(`## ${group.courseTitle}`, '');
+
+    group.lessons.forEach(lesson => {
+      lines.push(
+        `### ${lesson.lessonOrder}. ${lesson.lessonTitle}`,
+        '',
+        `[Open lesson](${origin}${getLessonLink(group.courseId, lesson.lessonId)})`,
+        ''
+      );
+
+      if (lesson.bookmarkedLesson || lesson.pageBookmarks.length > 0) {
+        lines.push('**Bookmarks**', '');
+        if (lesson.bookmarkedLesson) lines.push('- Lesson bookmarked');
+        lesson.pageBookmarks.forEach(bookmark => {
+          const label = bookmark.label ? ` - ${bookmark.label}` : '';
+          lines.push(`- [Page ${bookmark.page}](${origin}${getLessonLink(group.courseId, lesson.lessonId, bookmark.page)})${label}`);
+        });
+        lines.push('');
+      }
+
+      if (lesson.content.trim()) {
+        lines.push(lesson.content.trim(), '');
+      }
+    });
+  });
+
+  return lines.join('\n');
+};
+
+export const downloadMarkdown = (fileName: string, markdown: string) => {
+  const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+
+  setTimeout(() => {
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, 100);
+};
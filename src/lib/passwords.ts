@@ -0,0 +1,41 @@
+// Matches the minimum enforced by Supabase Auth and the accept-invite function
+export const MIN_PASSWORD_LENGTH = 6;
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+  hint?: string;
+}
+
+const COMMON_PASSWORDS = ['password', '123456', '12345678', 'qwerty', 'letmein', 'welcome', 'admin'];
+
+// Rough guidance for the strength meter; only the minimum length is enforced
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return { score: 0, label: 'Too short', hint: `Use at least ${MIN_PASSWORD_LENGTH} characters` };
+  }
+
+  if (COMMON_PASSWORDS.some(common => password.toLowerCase().startsWith(common))) {
+    return { score: 1, label: 'Weak', hint: 'Avoid common passwords' };
+  }
+
+  const variety = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(pattern => pattern.test(password)).length;
+  const points = (password.length >= 10 ? 1 : 0) + (password.length >= 14 ? 1 : 0) + Math.max(variety - 1, 0);
+
+  if (points >= 4) return { score: 4, label: 'Strong' };
+  if (points >= 3) return { score: 3, label: 'Good', hint: 'A longer password is even better' };
+  if (points >= 2) return { score: 2, label: 'Fair', hint: 'Mix in capitals, numbers or symbols' };
+  return { score: 1, label: 'Weak', hint: 'Use a longer password with more variety' };
+};
+
+export const validateNewPassword = (password: string, confirmPassword: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`;
+  }
+
+  if (password !== confirmPassword) {
+    return 'Passwords do not match';
+  }
+
+  return null;
+};
@@ -0,0 +1,20 @@
+// Capabilities stored in staff_permissions; the same names are checked by has_permission() in RLS
+export type StaffPermission =
+  | 'manage_users'
+  | 'manage_content'
+  | 'manage_files'
+  | 'manage_services'
+  | 'view_reports'
+  | 'manage_staff';
+
+export const STAFF_PERMISSIONS: { value: StaffPermission; label: string; description: string }[] = [
+  { value: 'manage_users', label: 'Manage users', description: 'Students, cohorts, organizations, enrollments and account deactivation' },
+  { value: 'manage_content', label: 'Manage content', description: 'Courses, lessons, quizzes, learning paths and prompts' },
+  { value: 'manage_files', label: 'Manage files', description: 'Share, edit and delete student files' },
+  { value: 'manage_services', label: 'Manage services', description: 'Service catalogue and service assignments' },
+  { value: 'view_reports', label: 'View reports', description: 'Dashboard statistics and progress reports' },
+  { value: 'manage_staff', label: 'Manage staff', description: 'Grant admin access and edit staff permissions' },
+];
+
+export const can = (permissions: readonly string[], permission: StaffPermission) =>
+  permissions.includes(permission);
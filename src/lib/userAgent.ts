@@ -0,0 +1,38 @@
+export type DeviceType = 'desktop' | 'mobile' | 'tablet';
+
+export interface DeviceInfo {
+  browser: string;
+  os: string;
+  deviceType: DeviceType;
+}
+
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+// Best-effort summary of a session's user agent for display; unknown parts read "Unknown"
+export const parseUserAgent = (userAgent: string | null): DeviceInfo => {
+  const ua = userAgent || '';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(ua))?.[1] || 'Unknown browser';
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] || 'Unknown device';
+  const deviceType: DeviceType = /iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))
+    ? 'tablet'
+    : /Mobi|iPhone|Android/.test(ua) ? 'mobile' : 'desktop';
+
+  return { browser, os, deviceType };
+};
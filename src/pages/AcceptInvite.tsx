@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import NewPasswordFields from '@/components/NewPasswordFields';
+import { validateNewPassword } from '@/lib/passwords';
+import { toast } from 'sonner';
+import { Loader2, MailX } from 'lucide-react';
+
+// The accept-invite function is public; the token in the link is the credential
+const callAcceptInvite = async (body: { token: string; password?: string }) => {
+  const response = await fetch(`https://oimqzyfmglyhljjuboek.supabase.co/functions/v1/accept-invite`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'This invite link is not valid');
+  }
+
+  return result as { email: string; name?: string };
+};
+
+const AcceptInvite = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [invite, setInvite] = useState<{ email: string; name?: string } | null>(null);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const checkInvite = async () => {
+      if (!token) {
+        setInviteError('This invite link is missing its token.');
+        setChecking(false);
+        return;
+      }
+
+      try {
+        setInvite(await callAcceptInvite({ token }));
+      } catch (error: any) {
+        setInviteError(error.message);
+      } finally {
+        setChecking(false);
+      }
+    };
+
+    checkInvite();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validateNewPassword(password, confirmPassword);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const { email } = await callAcceptInvite({ token, password });
+
+      // Any session from another account in this browser would otherwise stay active
+      await supabase.auth.signOut();
+
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) {
+        toast.success('Password set. Please sign in.');
+        navigate('/auth');
+        return;
+      }
+
+      toast.success('Welcome! Your account is ready.');
+      navigate('/dashboard');
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/10 via-background to-primary/5 flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-8">
+        {/* Logo */}
+        <div className="text-center">
+          <div className="w-20 h-20 bg-primary rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <span className="text-white font-bold text-2xl">AI</span>
+          </div>
+          <h1 className="text-3xl font-bold text-foreground">AIDM</h1>
+          <p className="text-muted-foreground mt-2">AI Data Management Client Portal</p>
+        </div>
+
+        {checking ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : inviteError ? (
+          <Card>
+            <CardHeader className="text-center">
+              <div className="w-16 h-16 bg-destructive/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                <MailX className="h-8 w-8 text-destructive" />
+              </div>
+              <CardTitle>Invite Unavailable</CardTitle>
+              <CardDescription>{inviteError}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link to="/auth">
+                <Button variant="outline" className="w-full">Go to Sign In</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Welcome{invite?.name ? `, ${invite.name}` : ''}</CardTitle>
+              <CardDescription>Choose a password to finish setting up your account</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input id="email" type="email" value={invite?.email || ''} disabled />
+                </div>
+                <NewPasswordFields
+                  password={password}
+                  confirmPassword={confirmPassword}
+                  onPasswordChange={setPassword}
+                  onConfirmPasswordChange={setConfirmPassword}
+                  disabled={isLoading}
+                />
+
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Set Password
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvite;
@@ -11,19 +11,24 @@ import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
 import { UserPlus, ArrowLeft } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import OrganizationSelect from '@/components/admin/OrganizationSelect';
+import InviteLinkDialog from '@/components/admin/InviteLinkDialog';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
 
 const AdminAddUser = () => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const { can } = useAdminAuth();
   const [formData, setFormData] = useState({
     name: '',
     email: '',
-    password: '',
-    organization: '',
+    organization_id: null as string | null,
     organization_role: '',
     role: 'student'
   });
 
+  const [createdUser, setCreatedUser] = useState<{ id: string; name: string; inviteUrl: string; expiresAt: string } | null>(null);
+
   const createUserMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
       // Get the current session
@@ -49,12 +54,14 @@ const AdminAddUser = () => {
         throw new Error(result.error || 'Failed to create user');
       }
 
-      return result.user;
+      return result;
     },
-    onSuccess: (user) => {
+    onSuccess: (result, data) => {
       toast.success('User created successfully');
       queryClient.invalidateQueries({ queryKey: ['admin-students'] });
-      navigate(`/admin/students/${user.id}`);
+      queryClient.invalidateQueries({ queryKey: ['admin-student-invitations'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-organization-members'] });
+      setCreatedUser({ id: result.user.id, name: data.name, inviteUrl: result.invite_url, expiresAt: result.expires_at });
     },
     onError: (error: any) => {
       toast.error(`Failed to create user: ${error.message}`);
@@ -65,13 +72,13 @@ const AdminAddUser = () => {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.name || !formData.email || !formData.password) {
+    if (!formData.name || !formData.email) {
       toast.error('Please fill in all required fields');
       return;
     }
 
-    if (formData.password.length < 6) {
-      toast.error('Password must be at least 6 characters long');
+    if (formData.role === 'org_manager' && !formData.organization_id) {
+      toast.error('Organization managers must belong to an organization');
       return;
     }
 
@@ -105,7 +112,7 @@ const AdminAddUser = () => {
             <CardTitle>User Information</CardTitle>
           </div>
           <CardDescription>
-            Fill in the details to create a new user account
+            Fill in the details to create a new user account. You'll get an invite link for them to choose their own password.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -135,27 +142,13 @@ const AdminAddUser = () => {
               </div>
             </div>
 
-            <div>
-              <Label htmlFor="password">Password *</Label>
-              <Input
-                id="password"
-                type="password"
-                value={formData.password}
-                onChange={(e) => handleInputChange('password', e.target.value)}
-                placeholder="Enter password (min 6 characters)"
-                minLength={6}
-                required
-              />
-            </div>
-
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <Label htmlFor="organization">Organization</Label>
-                <Input
+                <OrganizationSelect
                   id="organization"
-                  value={formData.organization}
-                  onChange={(e) => handleInputChange('organization', e.target.value)}
-                  placeholder="Company or organization"
+                  value={formData.organization_id}
+                  onChange={(organizationId) => setFormData(prev => ({ ...prev, organization_id: organizationId }))}
                 />
               </div>
               
@@ -178,7 +171,8 @@ const AdminAddUser = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="student">Student</SelectItem>
-                  <SelectItem value="admin">Admin</SelectItem>
+                  <SelectItem value="org_manager">Organization Manager</SelectItem>
+                  {can('manage_staff') && <SelectItem value="admin">Admin</SelectItem>}
                 </SelectContent>
               </Select>
             </div>
@@ -199,6 +193,15 @@ const AdminAddUser = () => {
           </form>
         </CardContent>
       </Card>
+
+      <InviteLinkDialog invite={createdUser} onClose={() => createdUser && navigate(`/admin/students/${createdUser.id}`)}>
+        <Button
+          onClick={() => createdUser && navigate(`/admin/students/${createdUser.id}`)}
+          className="bg-[#0D5C4B] hover:bg-green-700"
+        >
+          Continue to Profile
+        </Button>
+      </InviteLinkDialog>
     </div>
   );
 };
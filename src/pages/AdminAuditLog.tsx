@@ -0,0 +1,324 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { ScrollText, ChevronDown, ChevronRight, X } from 'lucide-react';
+
+const PAGE_SIZE = 50;
+const ALL = 'all';
+
+const TABLE_LABELS: Record<string, string> = {
+  'auth.users': 'User account',
+  'auth.mfa_factors': 'Two-factor authentication',
+  'auth.sessions': 'Sessions',
+  profiles: 'Profile',
+  staff_permissions: 'Staff permission',
+  organizations: 'Organization',
+  cohorts: 'Cohort',
+  cohort_members: 'Cohort member',
+  courses: 'Course',
+  lessons: 'Lesson',
+  quiz_sets: 'Quiz set',
+  learning_paths: 'Learning path',
+  user_course_assignments: 'Course assignment',
+  user_lesson_locks: 'Lesson lock',
+  user_learning_paths: 'Learning path assignment',
+  services: 'Service',
+  user_services: 'Service assignment',
+  files: 'File',
+  certificates: 'Certificate',
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  insert: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  create_user: 'Created account',
+  invite_user: 'Sent invitation',
+  revoke_invitation: 'Revoked invitation',
+  delete_user: 'Purged account',
+  deactivate_user: 'Deactivated account',
+  restore_user: 'Restored account',
+  mfa_recovery: 'Used recovery code',
+  revoke_sessions: 'Signed out sessions',
+};
+
+type AuditRow = Record<string, Json | undefined>;
+
+// Fields that changed between the before and after snapshots, ignoring bookkeeping timestamps
+const getChanges = (oldData: Json | null, newData: Json | null) => {
+  const before = (oldData || {}) as AuditRow;
+  const after = (newData || {}) as AuditRow;
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(key => key !== 'updated_at');
+
+  return keys
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => ({ key, before: before[key], after: after[key] }));
+};
+
+const formatValue = (value: Json | undefined) => {
+  if (value === undefined || value === null) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const AdminAuditLog = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const subjectUserId = searchParams.get('user');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [tableFilter, setTableFilter] = useState(ALL);
+  const [actionFilter, setActionFilter] = useState(ALL);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin-audit-log', searchTerm, tableFilter, actionFilter, fromDate, toDate, subjectUserId, page],
+    queryFn: async () => {
+      let query = supabase
+        .from('audit_log')
+        .select('*', { count: 'exact' })
+        .order('occurred_at', { ascending: false })
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+      const term = searchTerm.trim().replace(/[,()]/g, ' ');
+      if (term) {
+        query = query.or(`actor_email.ilike.%${term}%,record_id.ilike.%${term}%`);
+      }
+      if (tableFilter !== ALL) query = query.eq('table_name', tableFilter);
+      if (actionFilter !== ALL) query = query.eq('action', actionFilter);
+      if (subjectUserId) query = query.eq('subject_user_id', subjectUserId);
+      if (fromDate) query = query.gte('occurred_at', new Date(`${fromDate}T00:00:00`).toISOString());
+      if (toDate) query = query.lte('occurred_at', new Date(`${toDate}T23:59:59.999`).toISOString());
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+      return { entries: data || [], count: count || 0 };
+    },
+  });
+
+  const { data: subject } = useQuery({
+    queryKey: ['admin-audit-log-subject', subjectUserId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('name, email')
+        .eq('id', subjectUserId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!subjectUserId,
+  });
+
+  // Any filter change starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const clearSubject = () => {
+    searchParams.delete('user');
+    setSearchParams(searchParams);
+    setPage(0);
+  };
+
+  const pageCount = Math.max(1, Math.ceil((data?.count || 0) / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-[#0D5C4B]">Audit Log</h1>
+        <p className="text-muted-foreground">Who changed what, and when</p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="audit-search">Search</Label>
+              <Input
+                id="audit-search"
+                placeholder="Staff email or record ID..."
+                value={searchTerm}
+                onChange={(e) => updateFilter(setSearchTerm)(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Record type</Label>
+              <Select value={tableFilter} onValueChange={updateFilter(setTableFilter)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All records</SelectItem>
+                  {Object.entries(TABLE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Action</Label>
+              <Select value={actionFilter} onValueChange={updateFilter(setActionFilter)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All actions</SelectItem>
+                  {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="audit-from">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => updateFilter(setFromDate)(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="audit-to">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => updateFilter(setToDate)(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+          {subjectUserId && (
+            <Badge variant="secondary" className="space-x-1">
+              <span>Affecting {subject?.name || subject?.email || 'a deleted user'}</span>
+              <button type="button" onClick={clearSubject} aria-label="Clear user filter">
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries ({data?.count || 0})</CardTitle>
+          <CardDescription>Entries are written by the database and cannot be edited or deleted</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#0D5C4B]"></div>
+            </div>
+          ) : !data?.entries.length ? (
+            <div className="text-center py-8">
+              <ScrollText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No matching entries</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Record</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.entries.map((entry) => {
+                  const isExpanded = expandedId === entry.id;
+                  const changes = getChanges(entry.old_data, entry.new_data);
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <TableRow
+                        className="cursor-pointer hover:bg-accent/50"
+                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                      >
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {new Date(entry.occurred_at).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {entry.actor_email || <span className="text-muted-foreground">System</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={entry.action.startsWith('delete') ? 'destructive' : 'outline'}>
+                            {ACTION_LABELS[entry.action] || entry.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <p>{TABLE_LABELS[entry.table_name] || entry.table_name}</p>
+                          <p className="text-xs text-muted-foreground font-mono">{entry.record_id}</p>
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell></TableCell>
+                          <TableCell colSpan={4}>
+                            {changes.length === 0 ? (
+                              <p className="text-sm text-muted-foreground">No field changes recorded</p>
+                            ) : (
+                              <div className="grid grid-cols-[max-content_1fr_1fr] gap-x-4 gap-y-1 text-xs">
+                                <span className="font-semibold">Field</span>
+                                <span className="font-semibold">Before</span>
+                                <span className="font-semibold">After</span>
+                                {changes.map(change => (
+                                  <React.Fragment key={change.key}>
+                                    <span className="font-mono">{change.key}</span>
+                                    <span className="break-all text-red-700 dark:text-red-400">{formatValue(change.before)}</span>
+                                    <span className="break-all text-green-700 dark:text-green-400">{formatValue(change.after)}</span>
+                                  </React.Fragment>
+                                ))}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between pt-4">
+              <p className="text-sm text-muted-foreground">Page {page + 1} of {pageCount}</p>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminAuditLog;
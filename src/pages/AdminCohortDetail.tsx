@@ -0,0 +1,361 @@
+import React, { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { ArrowLeft, Users, Plus, X, BarChart3, BookOpen, Zap, Calendar } from 'lucide-react';
+
+const AdminCohortDetail = () => {
+  const { id } = useParams();
+  const queryClient = useQueryClient();
+  const [showAddMembers, setShowAddMembers] = useState(false);
+  const [memberSearch, setMemberSearch] = useState('');
+  const [selectedStudentIds, setSelectedStudentIds] = useState<string[]>([]);
+
+  const { data: cohort, isLoading } = useQuery({
+    queryKey: ['admin-cohort', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cohorts')
+        .select(`
+          *,
+          cohort_members (id, user_id, joined_at, profiles (name, email)),
+          cohort_courses (course_id, courses (title)),
+          cohort_services (service_id, services (title))
+        `)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: students } = useQuery({
+    queryKey: ['admin-students-list'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, name, email')
+        .eq('role', 'student')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const memberIds = cohort?.cohort_members?.map((member: any) => member.user_id) || [];
+  const courseIds = cohort?.cohort_courses?.map((row: any) => row.course_id) || [];
+
+  // Completed lessons per member and course for the side-by-side comparison
+  const { data: cohortProgress } = useQuery({
+    queryKey: ['admin-cohort-progress', id, memberIds, courseIds],
+    queryFn: async () => {
+      const { data: lessons, error: lessonsError } = await supabase
+        .from('lessons')
+        .select('id, course_id')
+        .in('course_id', courseIds);
+      if (lessonsError) throw lessonsError;
+
+      const { data: progress, error: progressError } = await supabase
+        .from('user_progress')
+        .select('user_id, course_id, lesson_id, completed, time_spent')
+        .in('course_id', courseIds)
+        .in('user_id', memberIds);
+      if (progressError) throw progressError;
+
+      return { lessons: lessons || [], progress: progress || [] };
+    },
+    enabled: !!cohort && memberIds.length > 0 && courseIds.length > 0,
+  });
+
+  const addMembersMutation = useMutation({
+    mutationFn: async (userIds: string[]) => {
+      const { error } = await supabase
+        .from('cohort_members')
+        .insert(userIds.map(userId => ({ cohort_id: id, user_id: userId })));
+      if (error) throw error;
+    },
+    onSuccess: (_, userIds) => {
+      toast.success(`${userIds.length} member${userIds.length === 1 ? '' : 's'} added and enrolled`);
+      queryClient.invalidateQueries({ queryKey: ['admin-cohort', id] });
+      queryClient.invalidateQueries({ queryKey: ['admin-cohorts'] });
+      setShowAddMembers(false);
+      setSelectedStudentIds([]);
+      setMemberSearch('');
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to add members: ${error.message}`);
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const { error } = await supabase
+        .from('cohort_members')
+        .delete()
+        .eq('cohort_id', id)
+        .eq('user_id', userId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Member removed and cohort access revoked');
+      queryClient.invalidateQueries({ queryKey: ['admin-cohort', id] });
+      queryClient.invalidateQueries({ queryKey: ['admin-cohorts'] });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to remove member: ${error.message}`);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#0D5C4B]"></div>
+      </div>
+    );
+  }
+
+  if (!cohort) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-lg font-semibold text-muted-foreground">Cohort not found</p>
+      </div>
+    );
+  }
+
+  const candidates = (students || []).filter(student =>
+    !memberIds.includes(student.id) && (
+      student.name?.toLowerCase().includes(memberSearch.toLowerCase()) ||
+      student.email?.toLowerCase().includes(memberSearch.toLowerCase())
+    )
+  );
+
+  const getCoursePercentage = (userId: string, courseId: string) => {
+    const lessonCount = cohortProgress?.lessons.filter(lesson => lesson.course_id === courseId).length || 0;
+    if (lessonCount === 0) return 0;
+    const completed = cohortProgress?.progress.filter(p =>
+      p.user_id === userId && p.course_id === courseId && p.completed
+    ).length || 0;
+    return Math.round((completed / lessonCount) * 100);
+  };
+
+  const memberRows = (cohort.cohort_members || [])
+    .map((member: any) => {
+      const coursePercentages = courseIds.map((courseId: string) => getCoursePercentage(member.user_id, courseId));
+      const overall = coursePercentages.length
+        ? Math.round(coursePercentages.reduce((total: number, value: number) => total + value, 0) / coursePercentages.length)
+        : 0;
+      return { member, coursePercentages, overall };
+    })
+    .sort((a: any, b: any) => b.overall - a.overall);
+
+  const cohortAverage = memberRows.length
+    ? Math.round(memberRows.reduce((total: number, row: any) => total + row.overall, 0) / memberRows.length)
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Link to="/admin/cohorts">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold text-[#0D5C4B]">{cohort.name}</h1>
+          <p className="text-muted-foreground">{cohort.description || 'Manage cohort members and compare progress'}</p>
+        </div>
+      </div>
+
+      {/* Bundle */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center space-x-2">
+              <Calendar className="h-4 w-4 text-[#0D5C4B]" />
+              <span>Start Date</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">
+              {cohort.start_date ? new Date(`${cohort.start_date}T00:00:00`).toLocaleDateString() : 'Not set'}
+            </p>
+            <p className="text-xs text-muted-foreground">Cohort average progress: {cohortAverage}%</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center space-x-2">
+              <BookOpen className="h-4 w-4 text-[#0D5C4B]" />
+              <span>Courses</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-1">
+            {cohort.cohort_courses?.map((row: any) => (
+              <Badge key={row.course_id} variant="secondary">{row.courses?.title}</Badge>
+            ))}
+            {!cohort.cohort_courses?.length && <span className="text-sm text-muted-foreground">No courses</span>}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center space-x-2">
+              <Zap className="h-4 w-4 text-[#0D5C4B]" />
+              <span>Services</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-1">
+            {cohort.cohort_services?.map((row: any) => (
+              <Badge key={row.service_id} variant="outline">{row.services?.title}</Badge>
+            ))}
+            {!cohort.cohort_services?.length && <span className="text-sm text-muted-foreground">No services</span>}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Members and progress */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <div className="flex items-center space-x-2">
+                <BarChart3 className="h-5 w-5 text-[#0D5C4B]" />
+                <CardTitle>Members ({memberRows.length})</CardTitle>
+              </div>
+              <CardDescription>Course completion compared side by side</CardDescription>
+            </div>
+            <Dialog open={showAddMembers} onOpenChange={setShowAddMembers}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Members
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add Members to {cohort.name}</DialogTitle>
+                  <DialogDescription>
+                    Selected students are enrolled in the cohort's courses and services.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="member-search">Students</Label>
+                    <Input
+                      id="member-search"
+                      value={memberSearch}
+                      onChange={(e) => setMemberSearch(e.target.value)}
+                      placeholder="Search by name or email..."
+                    />
+                  </div>
+                  <div className="border rounded-md p-3 space-y-2 max-h-64 overflow-y-auto">
+                    {candidates.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No students to add</p>
+                    )}
+                    {candidates.map(student => (
+                      <div key={student.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`member-${student.id}`}
+                          checked={selectedStudentIds.includes(student.id)}
+                          onCheckedChange={(checked) => setSelectedStudentIds(prev =>
+                            checked === true ? [...prev, student.id] : prev.filter(studentId => studentId !== student.id)
+                          )}
+                        />
+                        <Label htmlFor={`member-${student.id}`} className="font-normal">
+                          {student.name} <span className="text-muted-foreground">({student.email})</span>
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      onClick={() => addMembersMutation.mutate(selectedStudentIds)}
+                      disabled={addMembersMutation.isPending || selectedStudentIds.length === 0}
+                      className="bg-[#0D5C4B] hover:bg-green-700"
+                    >
+                      {addMembersMutation.isPending ? 'Adding...' : `Add ${selectedStudentIds.length || ''} Members`}
+                    </Button>
+                    <Button variant="outline" onClick={() => setShowAddMembers(false)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {memberRows.length === 0 ? (
+            <div className="text-center py-8">
+              <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No members yet</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  {cohort.cohort_courses?.map((row: any) => (
+                    <TableHead key={row.course_id}>{row.courses?.title}</TableHead>
+                  ))}
+                  <TableHead>Overall</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {memberRows.map(({ member, coursePercentages, overall }: any) => (
+                  <TableRow key={member.id}>
+                    <TableCell>
+                      <Link to={`/admin/students/${member.user_id}`} className="hover:underline">
+                        <p className="font-medium">{member.profiles?.name}</p>
+                      </Link>
+                      <p className="text-xs text-muted-foreground">{member.profiles?.email}</p>
+                    </TableCell>
+                    {coursePercentages.map((percentage: number, index: number) => (
+                      <TableCell key={courseIds[index]}>
+                        <div className="w-28 space-y-1">
+                          <Progress value={percentage} className="h-2" />
+                          <span className="text-xs text-muted-foreground">{percentage}%</span>
+                        </div>
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <Badge variant={overall === 100 ? 'default' : overall < cohortAverage ? 'destructive' : 'secondary'}>
+                        {overall}%
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeMemberMutation.mutate(member.user_id)}
+                        disabled={removeMemberMutation.isPending}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminCohortDetail;
@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import { GraduationCap, Plus, Eye, Edit, Trash2 } from 'lucide-react';
+import CohortForm from '@/components/CohortForm';
+
+const AdminCohorts = () => {
+  const queryClient = useQueryClient();
+  const [formOpen, setFormOpen] = useState(false);
+  const [formMode, setFormMode] = useState<'add' | 'edit'>('add');
+  const [selectedCohort, setSelectedCohort] = useState<any>(null);
+  const [cohortToDelete, setCohortToDelete] = useState<any>(null);
+
+  const { data: cohorts, isLoading } = useQuery({
+    queryKey: ['admin-cohorts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cohorts')
+        .select(`
+          *,
+          cohort_members (user_id),
+          cohort_courses (course_id, courses (title)),
+          cohort_services (service_id, services (title))
+        `)
+        .order('start_date', { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: courses } = useQuery({
+    queryKey: ['admin-available-courses'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('courses')
+        .select('id, title, description')
+        .is('archived_at', null)
+        .order('title');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: services } = useQuery({
+    queryKey: ['admin-services'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('services')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const deleteCohortMutation = useMutation({
+    mutationFn: async (cohortId: string) => {
+      const { error } = await supabase
+        .from('cohorts')
+        .delete()
+        .eq('id', cohortId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Cohort deleted successfully');
+      queryClient.invalidateQueries({ queryKey: ['admin-cohorts'] });
+      setCohortToDelete(null);
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to delete cohort: ${error.message}`);
+    },
+  });
+
+  const handleAddCohort = () => {
+    setSelectedCohort(null);
+    setFormMode('add');
+    setFormOpen(true);
+  };
+
+  const handleEditCohort = (cohort: any) => {
+    setSelectedCohort(cohort);
+    setFormMode('edit');
+    setFormOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#0D5C4B]"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-[#0D5C4B]">Cohorts</h1>
+          <p className="text-muted-foreground">Enroll groups of students in a shared course and service bundle</p>
+        </div>
+        <Button onClick={handleAddCohort} className="bg-[#0D5C4B] hover:bg-green-700">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Cohort
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Cohorts ({cohorts?.length || 0})</CardTitle>
+          <CardDescription>Members receive every course and service in their cohort's bundle</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Cohort</TableHead>
+                <TableHead>Start Date</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead>Courses</TableHead>
+                <TableHead>Services</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cohorts?.map((cohort) => (
+                <TableRow key={cohort.id} className="hover:bg-accent/50">
+                  <TableCell>
+                    <p className="font-medium">{cohort.name}</p>
+                    {cohort.description && (
+                      <p className="text-sm text-muted-foreground line-clamp-1">{cohort.description}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-sm">
+                      {cohort.start_date ? new Date(`${cohort.start_date}T00:00:00`).toLocaleDateString() : '-'}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{cohort.cohort_members?.length || 0}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {cohort.cohort_courses?.map((row: any) => (
+                        <Badge key={row.course_id} variant="secondary" className="text-xs">
+                          {row.courses?.title}
+                        </Badge>
+                      ))}
+                      {!cohort.cohort_courses?.length && (
+                        <span className="text-xs text-muted-foreground">No courses</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {cohort.cohort_services?.map((row: any) => (
+                        <Badge key={row.service_id} variant="outline" className="text-xs">
+                          {row.services?.title}
+                        </Badge>
+                      ))}
+                      {!cohort.cohort_services?.length && (
+                        <span className="text-xs text-muted-foreground">No services</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      <Link to={`/admin/cohorts/${cohort.id}`}>
+                        <Button variant="outline" size="sm">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </Link>
+                      <Button variant="outline" size="sm" onClick={() => handleEditCohort(cohort)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCohortToDelete(cohort)}
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {!cohorts?.length && (
+            <div className="text-center py-8">
+              <GraduationCap className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-lg font-semibold text-muted-foreground">No cohorts yet</p>
+              <p className="text-sm text-muted-foreground">Create a cohort to enroll a group of students at once</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CohortForm
+        isOpen={formOpen}
+        onClose={() => setFormOpen(false)}
+        cohort={selectedCohort}
+        mode={formMode}
+        courses={courses || []}
+        services={services || []}
+      />
+
+      <AlertDialog open={!!cohortToDelete} onOpenChange={(open) => !open && setCohortToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Cohort</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete <strong>{cohortToDelete?.name}</strong> and revoke the courses and
+              services it granted to its {cohortToDelete?.cohort_members?.length || 0} members. Assignments made
+              individually are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => cohortToDelete && deleteCohortMutation.mutate(cohortToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Cohort
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminCohorts;
@@ -9,15 +9,31 @@ import LessonManagement from '@/components/admin/LessonManagement';
 import CourseForm from '@/components/CourseForm';
 import LessonForm from '@/components/LessonForm';
 import DeleteLessonDialog from '@/components/DeleteLessonDialog';
+import DeleteCourseDialog from '@/components/DeleteCourseDialog';
+import QuizManagement from '@/components/admin/QuizManagement';
+import QuizSetForm from '@/components/QuizSetForm';
+import LearningPathManagement from '@/components/admin/LearningPathManagement';
+import LearningPathForm from '@/components/LearningPathForm';
+import { useOrganizationScope } from '@/hooks/useOrganizationScope';
+import { QuizSettings } from '@/lib/lessonAccess';
+import { removeUnusedLessonFiles } from '@/lib/lessonMaterials';
 
 const AdminCourses = () => {
   const queryClient = useQueryClient();
+  const { isInScope } = useOrganizationScope();
   const [courseFormOpen, setCourseFormOpen] = useState(false);
   const [lessonFormOpen, setLessonFormOpen] = useState(false);
   const [deleteLessonOpen, setDeleteLessonOpen] = useState(false);
+  const [courseToDelete, setCourseToDelete] = useState<any>(null);
   const [selectedCourse, setSelectedCourse] = useState<any>(null);
   const [selectedLesson, setSelectedLesson] = useState<any>(null);
   const [formMode, setFormMode] = useState<'add' | 'edit'>('add');
+  const [quizFormOpen, setQuizFormOpen] = useState(false);
+  const [selectedQuizSet, setSelectedQuizSet] = useState<any>(null);
+  const [quizFormMode, setQuizFormMode] = useState<'add' | 'edit'>('add');
+  const [pathFormOpen, setPathFormOpen] = useState(false);
+  const [selectedLearningPath, setSelectedLearningPath] = useState<any>(null);
+  const [pathFormMode, setPathFormMode] = useState<'add' | 'edit'>('add');
 
   // Set up real-time subscription for course assignments
   useEffect(() => {
@@ -86,7 +102,11 @@ const AdminCourses = () => {
         .from('courses')
         .select(`
           *,
-          lessons (*)
+          lessons (
+            *,
+            lesson_blocks (*)
+          ),
+          course_prerequisites!course_prerequisites_course_id_fkey (prerequisite_course_id)
         `)
         .order('created_at', { ascending: false });
 
@@ -141,6 +161,73 @@ const AdminCourses = () => {
     },
   });
 
+  const { data: quizSets } = useQuery({
+    queryKey: ['admin-quiz-sets'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('quiz_sets')
+        .select(`
+          *,
+          quiz_questions (*),
+          lessons (id, title)
+        `)
+        .order('title');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: learningPaths } = useQuery({
+    queryKey: ['admin-learning-paths'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('learning_paths')
+        .select(`
+          *,
+          learning_path_courses (
+            course_id,
+            position,
+            courses (title)
+          )
+        `)
+        .order('title');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: quizSettings } = useQuery({
+    queryKey: ['admin-quiz-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('quiz_settings')
+        .select('*')
+        .order('created_at')
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Progress records are only counted for the course pending deletion
+  const { data: courseToDeleteProgressCount } = useQuery({
+    queryKey: ['admin-course-progress-count', courseToDelete?.id],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('user_progress')
+        .select('*', { count: 'exact', head: true })
+        .eq('course_id', courseToDelete.id);
+
+      if (error) throw error;
+      return count || 0;
+    },
+    enabled: !!courseToDelete,
+  });
+
   const toggleLessonLockMutation = useMutation({
     mutationFn: async ({ lessonId, studentId, locked }: { lessonId: string; studentId: string; locked: boolean }) => {
       if (locked) {
@@ -173,6 +260,10 @@ const AdminCourses = () => {
     },
   });
 
+  // Per-student views follow the admin organization scope; course deletion still counts every assignment
+  const scopedStudents = students?.filter(student => isInScope(student.id)) || [];
+  const scopedCourseAssignments = courseAssignments?.filter(assignment => isInScope(assignment.user_id)) || [];
+
   const isLessonLocked = (lessonId: string, studentId: string) => {
     return lessonLocks?.some(lock => 
       lock.lesson_id === lessonId && 
@@ -182,12 +273,17 @@ const AdminCourses = () => {
   };
 
   const deleteLessonMutation = useMutation({
-    mutationFn: async (lessonId: string) => {
+    mutationFn: async (lesson: any) => {
       const { error } = await supabase
         .from('lessons')
         .delete()
-        .eq('id', lessonId);
+        .eq('id', lesson.id);
       if (error) throw error;
+
+      await removeUnusedLessonFiles([
+        lesson.pdf_path,
+        ...(lesson.lesson_blocks || []).map((block: any) => block.storage_path)
+      ]);
     },
     onSuccess: () => {
       toast.success('Lesson deleted successfully');
@@ -200,6 +296,137 @@ const AdminCourses = () => {
     },
   });
 
+  const reorderLessonsMutation = useMutation({
+    mutationFn: async ({ courseId, lessonIds }: { courseId: string; lessonIds: string[] }) => {
+      const { error } = await supabase.rpc('reorder_lessons', {
+        p_course_id: courseId,
+        p_lesson_ids: lessonIds
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Lesson order updated successfully');
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to reorder lessons: ${error.message}`);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-courses'] });
+    },
+  });
+
+  const deleteCourseMutation = useMutation({
+    mutationFn: async (course: any) => {
+      const { error } = await supabase.rpc('delete_course', { p_course_id: course.id });
+      if (error) throw error;
+
+      await removeUnusedLessonFiles((course.lessons || []).flatMap((lesson: any) => [
+        lesson.pdf_path,
+        ...(lesson.lesson_blocks || []).map((block: any) => block.storage_path)
+      ]));
+    },
+    onSuccess: () => {
+      toast.success('Course deleted successfully');
+      queryClient.invalidateQueries({ queryKey: ['admin-courses'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-course-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-lesson-locks'] });
+      setCourseToDelete(null);
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to delete course: ${error.message}`);
+    },
+  });
+
+  const duplicateCourseMutation = useMutation({
+    mutationFn: async (courseId: string) => {
+      const { error } = await supabase.rpc('duplicate_course', { p_course_id: courseId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Course duplicated successfully');
+      queryClient.invalidateQueries({ queryKey: ['admin-courses'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-quiz-sets'] });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to duplicate course: ${error.message}`);
+    },
+  });
+
+  const archiveCourseMutation = useMutation({
+    mutationFn: async ({ courseId, archived }: { courseId: string; archived: boolean }) => {
+      const { error } = await supabase
+        .from('courses')
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq('id', courseId);
+      if (error) throw error;
+    },
+    onSuccess: (_, { archived }) => {
+      toast.success(`Course ${archived ? 'archived' : 'restored'} successfully`);
+      queryClient.invalidateQueries({ queryKey: ['admin-courses'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-available-courses'] });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to update course: ${error.message}`);
+    },
+  });
+
+  const deleteQuizSetMutation = useMutation({
+    mutationFn: async (quizSetId: string) => {
+      // Detaches the quiz from lessons and removes its questions atomically
+      const { error } = await supabase.rpc('delete_quiz_set', { p_quiz_set_id: quizSetId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Quiz deleted successfully');
+      queryClient.invalidateQueries({ queryKey: ['admin-quiz-sets'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-courses'] });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to delete quiz: ${error.message}`);
+    },
+  });
+
+  const deleteLearningPathMutation = useMutation({
+    mutationFn: async (pathId: string) => {
+      const { error } = await supabase
+        .from('learning_paths')
+        .delete()
+        .eq('id', pathId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Learning path deleted successfully');
+      queryClient.invalidateQueries({ queryKey: ['admin-learning-paths'] });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to delete learning path: ${error.message}`);
+    },
+  });
+
+  const saveQuizSettingsMutation = useMutation({
+    mutationFn: async (settings: QuizSettings) => {
+      if (quizSettings) {
+        const { error } = await supabase
+          .from('quiz_settings')
+          .update(settings)
+          .eq('id', quizSettings.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('quiz_settings')
+          .insert(settings);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success('Quiz settings saved successfully');
+      queryClient.invalidateQueries({ queryKey: ['admin-quiz-settings'] });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to save quiz settings: ${error.message}`);
+    },
+  });
+
   const handleAddCourse = () => {
     setSelectedCourse(null);
     setFormMode('add');
@@ -232,14 +459,41 @@ const AdminCourses = () => {
 
   const confirmDeleteLesson = () => {
     if (selectedLesson) {
-      deleteLessonMutation.mutate(selectedLesson.id);
+      deleteLessonMutation.mutate(selectedLesson);
     }
   };
 
+  const handleAddQuizSet = () => {
+    setSelectedQuizSet(null);
+    setQuizFormMode('add');
+    setQuizFormOpen(true);
+  };
+
+  const handleEditQuizSet = (quizSet: any) => {
+    setSelectedQuizSet(quizSet);
+    setQuizFormMode('edit');
+    setQuizFormOpen(true);
+  };
+
+  const handleAddLearningPath = () => {
+    setSelectedLearningPath(null);
+    setPathFormMode('add');
+    setPathFormOpen(true);
+  };
+
+  const handleEditLearningPath = (learningPath: any) => {
+    setSelectedLearningPath(learningPath);
+    setPathFormMode('edit');
+    setPathFormOpen(true);
+  };
+
   const handleToggleLessonLock = (lessonId: string, studentId: string, locked: boolean) => {
     toggleLessonLockMutation.mutate({ lessonId, studentId, locked });
   };
 
+  const lessonFormCourseId = formMode === 'edit' ? selectedLesson?.course_id : selectedCourse?.id;
+  const lessonFormCourseLessons = courses?.find(course => course.id === lessonFormCourseId)?.lessons || [];
+
   if (coursesLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -254,21 +508,43 @@ const AdminCourses = () => {
 
       <CourseOverviewCards
         courses={courses || []}
-        courseAssignments={courseAssignments || []}
+        courseAssignments={scopedCourseAssignments}
         onEditCourse={handleEditCourse}
         onAddLesson={handleAddLesson}
+        onDuplicateCourse={(course) => duplicateCourseMutation.mutate(course.id)}
+        onToggleArchiveCourse={(course) => archiveCourseMutation.mutate({ courseId: course.id, archived: !course.archived_at })}
+        onDeleteCourse={setCourseToDelete}
       />
 
       <LessonManagement
         courses={courses || []}
-        students={students || []}
-        courseAssignments={courseAssignments || []}
-        lessonLocks={lessonLocks || []}
+        students={scopedStudents}
+        courseAssignments={scopedCourseAssignments}
+        lessonLocks={lessonLocks?.filter(lock => isInScope(lock.user_id)) || []}
         isLessonLocked={isLessonLocked}
         onToggleLessonLock={handleToggleLessonLock}
         onEditLesson={handleEditLesson}
         onDeleteLesson={handleDeleteLesson}
         onAddLesson={handleAddLesson}
+        onReorderLessons={(courseId, lessonIds) => reorderLessonsMutation.mutate({ courseId, lessonIds })}
+        isReordering={reorderLessonsMutation.isPending}
+      />
+
+      <QuizManagement
+        quizSets={quizSets || []}
+        quizSettings={quizSettings || null}
+        onAddQuizSet={handleAddQuizSet}
+        onEditQuizSet={handleEditQuizSet}
+        onDeleteQuizSet={(quizSet) => deleteQuizSetMutation.mutate(quizSet.id)}
+        onSaveQuizSettings={(settings) => saveQuizSettingsMutation.mutate(settings)}
+        isSavingSettings={saveQuizSettingsMutation.isPending}
+      />
+
+      <LearningPathManagement
+        learningPaths={learningPaths || []}
+        onAddLearningPath={handleAddLearningPath}
+        onEditLearningPath={handleEditLearningPath}
+        onDeleteLearningPath={(learningPath) => deleteLearningPathMutation.mutate(learningPath.id)}
       />
 
       {/* Modals */}
@@ -277,6 +553,7 @@ const AdminCourses = () => {
         onClose={() => setCourseFormOpen(false)}
         course={selectedCourse}
         mode={formMode}
+        courses={courses || []}
       />
 
       <LessonForm
@@ -285,6 +562,23 @@ const AdminCourses = () => {
         courseId={selectedCourse?.id}
         lesson={selectedLesson}
         mode={formMode}
+        quizSets={quizSets || []}
+        courseLessons={lessonFormCourseLessons}
+      />
+
+      <QuizSetForm
+        isOpen={quizFormOpen}
+        onClose={() => setQuizFormOpen(false)}
+        quizSet={selectedQuizSet}
+        mode={quizFormMode}
+      />
+
+      <LearningPathForm
+        isOpen={pathFormOpen}
+        onClose={() => setPathFormOpen(false)}
+        learningPath={selectedLearningPath}
+        mode={pathFormMode}
+        courses={courses || []}
       />
 
       <DeleteLessonDialog
@@ -294,6 +588,17 @@ const AdminCourses = () => {
         lessonTitle={selectedLesson?.title || ''}
         isDeleting={deleteLessonMutation.isPending}
       />
+
+      <DeleteCourseDialog
+        isOpen={!!courseToDelete}
+        onClose={() => setCourseToDelete(null)}
+        onConfirm={() => courseToDelete && deleteCourseMutation.mutate(courseToDelete)}
+        courseTitle={courseToDelete?.title || ''}
+        lessonCount={courseToDelete?.lessons?.length || 0}
+        assignmentCount={courseAssignments?.filter(assignment => assignment.course_id === courseToDelete?.id).length || 0}
+        progressCount={courseToDeleteProgressCount}
+        isDeleting={deleteCourseMutation.isPending}
+      />
     </div>
   );
 };
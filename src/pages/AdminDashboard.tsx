@@ -4,13 +4,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useRealtimeAdminStats } from '@/hooks/useRealtimeAdminStats';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
 import { Link } from 'react-router-dom';
 import { Users, Zap, BookOpen, FileText, TrendingUp, Award, Calendar } from 'lucide-react';
 
 const AdminDashboard = () => {
-  const { data: stats, isLoading, error, isFetching } = useRealtimeAdminStats();
+  const { can, loading: authLoading } = useAdminAuth();
+  const canViewReports = can('view_reports');
+  const { data: stats, isLoading, error, isFetching } = useRealtimeAdminStats(canViewReports);
 
-  if (isLoading) {
+  if (authLoading || isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#0D5C4B]"></div>
@@ -31,6 +34,24 @@ const AdminDashboard = () => {
     );
   }
 
+  if (!canViewReports) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-[#0D5C4B]">Welcome to Admin Portal</h1>
+          <p className="text-muted-foreground">Use the navigation above to reach the areas you have access to.</p>
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">
+              Dashboard statistics require the View reports permission. Ask a staff manager if you need it.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   console.log('Dashboard stats:', stats);
 
   return (
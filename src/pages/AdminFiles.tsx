@@ -11,11 +11,13 @@ import { Upload, Users, Search, FileText } from 'lucide-react';
 import { toast } from 'sonner';
 import AdminFilesList from '@/components/AdminFilesList';
 import UploadFileModal from '@/components/UploadFileModal';
+import { useOrganizationScope } from '@/hooks/useOrganizationScope';
 
 const AdminFiles = () => {
   const [selectedStudent, setSelectedStudent] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState('');
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
+  const { isInScope } = useOrganizationScope();
 
   // Fetch all students for selection
   const { data: students, isLoading: studentsLoading } = useQuery({
@@ -34,8 +36,10 @@ const AdminFiles = () => {
 
   // Filter students based on search term
   const filteredStudents = students?.filter(student =>
-    student.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    student.email.toLowerCase().includes(searchTerm.toLowerCase())
+    isInScope(student.id) && (
+      student.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      student.email.toLowerCase().includes(searchTerm.toLowerCase())
+    )
   ) || [];
 
   const selectedStudentData = students?.find(s => s.id === selectedStudent);
@@ -0,0 +1,306 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { downloadCsv, parseCsvRecords } from '@/lib/csv';
+import { toast } from 'sonner';
+import { ArrowLeft, Download, Upload, FileSpreadsheet } from 'lucide-react';
+
+const TEMPLATE_HEADERS = ['name', 'email', 'organization', 'organization_role', 'courses', 'services'];
+const REQUIRED_HEADERS = ['name', 'email'];
+
+interface ImportRow {
+  name: string;
+  email: string;
+  organization: string;
+  organization_role: string;
+  courses: string[];
+  services: string[];
+}
+
+interface ImportResult {
+  index: number;
+  email: string;
+  status: 'created' | 'skipped' | 'error';
+  messages: string[];
+  user_id?: string;
+  invite_url?: string;
+}
+
+// Course and service columns hold titles separated by semicolons
+const splitList = (value?: string) =>
+  (value || '').split(';').map(item => item.trim()).filter(Boolean);
+
+const STATUS_LABELS = {
+  preview: { created: 'Will create', skipped: 'Skip', error: 'Error' },
+  imported: { created: 'Created', skipped: 'Skipped', error: 'Failed' },
+};
+
+const AdminImportUsers = () => {
+  const queryClient = useQueryClient();
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+  const [imported, setImported] = useState(false);
+
+  const runImportMutation = useMutation({
+    mutationFn: async ({ users, dryRun }: { users: ImportRow[]; dryRun: boolean }) => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        throw new Error('No active session');
+      }
+
+      const response = await fetch(`https://oimqzyfmglyhljjuboek.supabase.co/functions/v1/create-user`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ users, dry_run: dryRun }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to import users');
+      }
+
+      return result.results as ImportResult[];
+    },
+    onSuccess: (data, { dryRun }) => {
+      setResults(data);
+      setImported(!dryRun);
+
+      if (!dryRun) {
+        const created = data.filter(result => result.status === 'created').length;
+        toast.success(`Imported ${created} user${created === 1 ? '' : 's'}`);
+        queryClient.invalidateQueries({ queryKey: ['admin-students'] });
+        queryClient.invalidateQueries({ queryKey: ['admin-student-invitations'] });
+        queryClient.invalidateQueries({ queryKey: ['admin-student-courses'] });
+        queryClient.invalidateQueries({ queryKey: ['admin-student-services'] });
+      }
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to import users: ${error.message}`);
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { headers, records } = parseCsvRecords(await file.text());
+    const missing = REQUIRED_HEADERS.filter(header => !headers.includes(header));
+
+    if (missing.length) {
+      toast.error(`Missing column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`);
+      return;
+    }
+
+    if (!records.length) {
+      toast.error('The file has no rows to import');
+      return;
+    }
+
+    const parsedRows = records.map(record => ({
+      name: record.name,
+      email: record.email,
+      organization: record.organization || '',
+      organization_role: record.organization_role || '',
+      courses: splitList(record.courses),
+      services: splitList(record.services),
+    }));
+
+    setFileName(file.name);
+    setRows(parsedRows);
+    setResults(null);
+    setImported(false);
+    runImportMutation.mutate({ users: parsedRows, dryRun: true });
+  };
+
+  const handleReset = () => {
+    setFileName('');
+    setRows([]);
+    setResults(null);
+    setImported(false);
+  };
+
+  const countByStatus = (status: ImportResult['status']) =>
+    results?.filter(result => result.status === status).length || 0;
+
+  // Links are only returned once, so offer them as a file straight after the import
+  const handleDownloadInvites = () => {
+    const invited = (results || []).filter(result => result.invite_url);
+    downloadCsv('student-invite-links.csv', [
+      ['name', 'email', 'invite_url'],
+      ...invited.map(result => [rows[result.index]?.name || '', result.email, result.invite_url || '']),
+    ]);
+  };
+
+  const labels = imported ? STATUS_LABELS.imported : STATUS_LABELS.preview;
+  const toCreate = countByStatus('created');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Link to="/admin/students">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold text-[#0D5C4B]">Import Students</h1>
+          <p className="text-muted-foreground">Create student accounts in bulk from a CSV file</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            <span>CSV File</span>
+          </CardTitle>
+          <CardDescription>
+            Columns: {TEMPLATE_HEADERS.join(', ')}. Name and email are required. Separate multiple course
+            or service titles with semicolons. Each imported student gets an invite link to choose their
+            own password.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center space-x-4">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            disabled={runImportMutation.isPending}
+            className="max-w-sm"
+          />
+          <Button
+            variant="outline"
+            onClick={() => downloadCsv('student-import-template.csv', [
+              TEMPLATE_HEADERS,
+              ['Jane Smith', 'jane@example.com', 'Acme Ltd', 'Team Lead', 'Leadership Basics', 'Coaching'],
+            ])}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Template
+          </Button>
+        </CardContent>
+      </Card>
+
+      {runImportMutation.isPending && (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#0D5C4B]"></div>
+        </div>
+      )}
+
+      {results && !runImportMutation.isPending && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle>{imported ? 'Import Results' : 'Dry Run'}: {fileName}</CardTitle>
+                <CardDescription className="space-x-2 pt-1">
+                  <Badge className="bg-[#0D5C4B]">{toCreate} {labels.created.toLowerCase()}</Badge>
+                  <Badge variant="secondary">{countByStatus('skipped')} {labels.skipped.toLowerCase()}</Badge>
+                  <Badge variant="destructive">{countByStatus('error')} {labels.error.toLowerCase()}</Badge>
+                </CardDescription>
+              </div>
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={handleReset}>
+                  {imported ? 'Import Another File' : 'Cancel'}
+                </Button>
+                {imported && toCreate > 0 && (
+                  <Button onClick={handleDownloadInvites} className="bg-[#0D5C4B] hover:bg-green-700">
+                    <Download className="h-4 w-4 mr-2" />
+                    Invite Links
+                  </Button>
+                )}
+                {!imported && (
+                  <Button
+                    onClick={() => runImportMutation.mutate({ users: rows, dryRun: false })}
+                    disabled={toCreate === 0}
+                    className="bg-[#0D5C4B] hover:bg-green-700"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import {toCreate} Student{toCreate === 1 ? '' : 's'}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Organization</TableHead>
+                  <TableHead>Assignments</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map(result => {
+                  const row = rows[result.index];
+                  return (
+                    <TableRow key={result.index}>
+                      {/* Row 1 is the header, so data starts at row 2 as in a spreadsheet */}
+                      <TableCell className="text-muted-foreground">{result.index + 2}</TableCell>
+                      <TableCell>
+                        {imported && result.user_id ? (
+                          <Link to={`/admin/students/${result.user_id}`} className="font-medium hover:underline">
+                            {row?.name}
+                          </Link>
+                        ) : (
+                          <p className="font-medium">{row?.name || '—'}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground">{row?.email || '—'}</p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {row?.organization || '-'}
+                        {row?.organization_role && (
+                          <p className="text-xs text-muted-foreground">{row.organization_role}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {row?.courses.map(course => (
+                            <Badge key={course} variant="secondary" className="text-xs">{course}</Badge>
+                          ))}
+                          {row?.services.map(service => (
+                            <Badge key={service} variant="outline" className="text-xs">{service}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={result.status === 'error' ? 'destructive' : result.status === 'skipped' ? 'secondary' : 'default'}
+                          className={result.status === 'created' ? 'bg-[#0D5C4B]' : undefined}
+                        >
+                          {labels[result.status]}
+                        </Badge>
+                        {result.messages.map(message => (
+                          <p key={message} className="text-xs text-muted-foreground mt-1">{message}</p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AdminImportUsers;
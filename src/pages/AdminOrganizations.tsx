@@ -0,0 +1,458 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Building2, Plus, Edit, Trash2, GitMerge, Link2 } from 'lucide-react';
+
+interface UnlinkedName {
+  key: string;
+  value: string;
+  variants: string[];
+  count: number;
+}
+
+// 23505 is the case-insensitive unique index on organization names
+const getOrganizationErrorMessage = (error: any) =>
+  error.code === '23505' ? 'An organization with this name already exists' : error.message;
+
+const AdminOrganizations = () => {
+  const queryClient = useQueryClient();
+  const [formOpen, setFormOpen] = useState(false);
+  const [organizationToEdit, setOrganizationToEdit] = useState<any>(null);
+  const [organizationName, setOrganizationName] = useState('');
+  const [organizationToMerge, setOrganizationToMerge] = useState<any>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [organizationToDelete, setOrganizationToDelete] = useState<any>(null);
+  const [linkTargets, setLinkTargets] = useState<Record<string, string>>({});
+
+  const { data: organizations, isLoading } = useQuery({
+    queryKey: ['admin-organizations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('*, profiles (count)')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  // Free-text values not yet linked to an organization, grouped the way the database matches them
+  const { data: unlinkedNames } = useQuery({
+    queryKey: ['admin-unlinked-organizations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('organization')
+        .is('organization_id', null)
+        .not('organization', 'is', null);
+
+      if (error) throw error;
+
+      const groups: Record<string, UnlinkedName> = {};
+      (data || []).forEach(profile => {
+        const value = profile.organization?.trim();
+        if (!value) return;
+        const key = value.toLowerCase();
+        if (!groups[key]) {
+          groups[key] = { key, value, variants: [], count: 0 };
+        }
+        if (!groups[key].variants.includes(value)) groups[key].variants.push(value);
+        groups[key].count += 1;
+      });
+      return Object.values(groups).sort((a, b) => b.count - a.count);
+    },
+  });
+
+  const invalidateOrganizations = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-organizations'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-organizations-list'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-unlinked-organizations'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-organization-members'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-students'] });
+  };
+
+  const saveOrganizationMutation = useMutation({
+    mutationFn: async () => {
+      const name = organizationName.trim();
+      if (organizationToEdit) {
+        const { error } = await supabase
+          .from('organizations')
+          .update({ name, updated_at: new Date().toISOString() })
+          .eq('id', organizationToEdit.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('organizations')
+          .insert({ name });
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success(`Organization ${organizationToEdit ? 'renamed' : 'created'} successfully`);
+      invalidateOrganizations();
+      setFormOpen(false);
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to save organization: ${getOrganizationErrorMessage(error)}`);
+    },
+  });
+
+  const mergeOrganizationsMutation = useMutation({
+    mutationFn: async ({ sourceId, targetId }: { sourceId: string; targetId: string }) => {
+      const { data, error } = await supabase.rpc('merge_organizations', {
+        p_source_id: sourceId,
+        p_target_id: targetId
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (movedCount) => {
+      toast.success(`Organizations merged; ${movedCount} member${movedCount === 1 ? '' : 's'} moved`);
+      invalidateOrganizations();
+      setOrganizationToMerge(null);
+      setMergeTargetId('');
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to merge organizations: ${error.message}`);
+    },
+  });
+
+  const deleteOrganizationMutation = useMutation({
+    mutationFn: async (organizationId: string) => {
+      const { error } = await supabase
+        .from('organizations')
+        .delete()
+        .eq('id', organizationId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Organization deleted successfully');
+      invalidateOrganizations();
+      setOrganizationToDelete(null);
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to delete organization: ${error.message}`);
+    },
+  });
+
+  const linkNameMutation = useMutation({
+    mutationFn: async ({ value, organizationId }: { value: string; organizationId?: string }) => {
+      let targetId = organizationId;
+
+      // No target chosen: turn the free-text value into a new organization
+      if (!targetId) {
+        const { data, error } = await supabase
+          .from('organizations')
+          .insert({ name: value })
+          .select('id')
+          .single();
+        if (error) throw error;
+        targetId = data.id;
+      }
+
+      const { data: linkedCount, error } = await supabase.rpc('link_organization_name', {
+        p_value: value,
+        p_organization_id: targetId
+      });
+      if (error) throw error;
+      return linkedCount;
+    },
+    onSuccess: (linkedCount) => {
+      toast.success(`${linkedCount} profile${linkedCount === 1 ? '' : 's'} linked`);
+      invalidateOrganizations();
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to link organization: ${getOrganizationErrorMessage(error)}`);
+    },
+  });
+
+  const openForm = (organization: any = null) => {
+    setOrganizationToEdit(organization);
+    setOrganizationName(organization?.name || '');
+    setFormOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationName.trim()) {
+      toast.error('Organization name is required');
+      return;
+    }
+    saveOrganizationMutation.mutate();
+  };
+
+  const getMemberCount = (organization: any) => organization.profiles?.[0]?.count || 0;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#0D5C4B]"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-[#0D5C4B]">Organizations</h1>
+          <p className="text-muted-foreground">Manage client organizations and clean up free-text values</p>
+        </div>
+        <Button onClick={() => openForm()} className="bg-[#0D5C4B] hover:bg-green-700">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Organization
+        </Button>
+      </div>
+
+      {/* Organizations */}
+      <Card>
+        <CardHeader>
+          <CardTitle>All Organizations ({organizations?.length || 0})</CardTitle>
+          <CardDescription>Renaming an organization updates every linked profile</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Organization</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {organizations?.map((organization) => (
+                <TableRow key={organization.id} className="hover:bg-accent/50">
+                  <TableCell className="font-medium">{organization.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{getMemberCount(organization)}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-sm">
+                      {organization.created_at ? new Date(organization.created_at).toLocaleDateString() : '-'}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => openForm(organization)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setOrganizationToMerge(organization)}
+                        disabled={(organizations?.length || 0) < 2}
+                      >
+                        <GitMerge className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setOrganizationToDelete(organization)}
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {!organizations?.length && (
+            <div className="text-center py-8">
+              <Building2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-lg font-semibold text-muted-foreground">No organizations yet</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Unlinked free-text values */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center space-x-2">
+            <Link2 className="h-5 w-5 text-[#0D5C4B]" />
+            <CardTitle>Unlinked Organization Names</CardTitle>
+          </div>
+          <CardDescription>
+            Profiles whose typed organization doesn't match an organization yet. Link them to an existing
+            organization or create a new one from the value.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!unlinkedNames?.length && (
+            <p className="text-sm text-muted-foreground">Every profile is linked to an organization.</p>
+          )}
+          {unlinkedNames?.map((name) => (
+            <div key={name.key} className="border rounded-lg p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div>
+                <p className="font-medium">{name.value}</p>
+                <p className="text-xs text-muted-foreground">
+                  {name.count} profile{name.count === 1 ? '' : 's'}
+                  {name.variants.length > 1 && ` · spelled ${name.variants.map(variant => `"${variant}"`).join(', ')}`}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Select
+                  value={linkTargets[name.key] || ''}
+                  onValueChange={(value) => setLinkTargets(prev => ({ ...prev, [name.key]: value }))}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder="Link to organization" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {organizations?.map(organization => (
+                      <SelectItem key={organization.id} value={organization.id}>
+                        {organization.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  onClick={() => linkNameMutation.mutate({ value: name.value, organizationId: linkTargets[name.key] })}
+                  disabled={linkNameMutation.isPending || !linkTargets[name.key]}
+                  className="bg-[#0D5C4B] hover:bg-green-700"
+                >
+                  Link
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => linkNameMutation.mutate({ value: name.value })}
+                  disabled={linkNameMutation.isPending}
+                >
+                  Create
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Add / rename */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{organizationToEdit ? 'Rename Organization' : 'Add Organization'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="organization-name">Name</Label>
+              <Input
+                id="organization-name"
+                value={organizationName}
+                onChange={(e) => setOrganizationName(e.target.value)}
+                placeholder="Enter organization name"
+                required
+              />
+            </div>
+            <div className="flex space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setFormOpen(false)} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveOrganizationMutation.isPending} className="flex-1">
+                {saveOrganizationMutation.isPending ? 'Saving...' : organizationToEdit ? 'Rename' : 'Create'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge */}
+      <Dialog open={!!organizationToMerge} onOpenChange={(open) => !open && setOrganizationToMerge(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge {organizationToMerge?.name}</DialogTitle>
+            <DialogDescription>
+              All {organizationToMerge ? getMemberCount(organizationToMerge) : 0} members move to the organization
+              you choose, and {organizationToMerge?.name} is deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Merge into</Label>
+              <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an organization" />
+                </SelectTrigger>
+                <SelectContent>
+                  {organizations
+                    ?.filter(organization => organization.id !== organizationToMerge?.id)
+                    .map(organization => (
+                      <SelectItem key={organization.id} value={organization.id}>
+                        {organization.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                onClick={() => organizationToMerge && mergeOrganizationsMutation.mutate({
+                  sourceId: organizationToMerge.id,
+                  targetId: mergeTargetId
+                })}
+                disabled={mergeOrganizationsMutation.isPending || !mergeTargetId}
+                className="bg-[#0D5C4B] hover:bg-green-700"
+              >
+                {mergeOrganizationsMutation.isPending ? 'Merging...' : 'Merge'}
+              </Button>
+              <Button variant="outline" onClick={() => setOrganizationToMerge(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete */}
+      <AlertDialog open={!!organizationToDelete} onOpenChange={(open) => !open && setOrganizationToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Organization</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete <strong>{organizationToDelete?.name}</strong>. Its{' '}
+              {organizationToDelete ? getMemberCount(organizationToDelete) : 0} members will no longer belong to
+              any organization. To combine duplicates, merge instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => organizationToDelete && deleteOrganizationMutation.mutate(organizationToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Organization
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminOrganizations;
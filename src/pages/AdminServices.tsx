@@ -11,9 +11,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Zap, Plus, Users, Search } from 'lucide-react';
+import { useOrganizationScope } from '@/hooks/useOrganizationScope';
 
 const AdminServices = () => {
   const queryClient = useQueryClient();
+  const { isInScope } = useOrganizationScope();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedService, setSelectedService] = useState<string>('');
   const [selectedStudent, setSelectedStudent] = useState<string>('');
@@ -148,8 +150,11 @@ const AdminServices = () => {
     },
   });
 
+  const scopedStudents = students?.filter(student => isInScope(student.id));
+  const scopedUserServices = userServices?.filter(us => isInScope(us.user_id));
+
   const getAssignedStudentCount = (serviceId: string) => {
-    return userServices?.filter(us => us.service_id === serviceId && us.status === 'active').length || 0;
+    return scopedUserServices?.filter(us => us.service_id === serviceId && us.status === 'active').length || 0;
   };
 
   const filteredServices = services?.filter(service =>
@@ -222,7 +227,7 @@ const AdminServices = () => {
                     <SelectValue placeholder="Select a student" />
                   </SelectTrigger>
                   <SelectContent>
-                    {students?.map((student) => (
+                    {scopedStudents?.map((student) => (
                       <SelectItem key={student.id} value={student.id}>
                         {student.name} - {student.email}
                       </SelectItem>
@@ -323,7 +328,7 @@ const AdminServices = () => {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {userServices?.map((assignment: any) => (
+              {scopedUserServices?.map((assignment: any) => (
                 <TableRow key={assignment.id}>
                   <TableCell>
                     <div>
@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { STAFF_PERMISSIONS, StaffPermission } from '@/lib/permissions';
+import { toast } from 'sonner';
+import { ShieldCheck, UserPlus, UserMinus } from 'lucide-react';
+
+const AdminStaff = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [showAddStaff, setShowAddStaff] = useState(false);
+  const [candidateSearch, setCandidateSearch] = useState('');
+  const [staffToRemove, setStaffToRemove] = useState<any>(null);
+
+  const { data: staff, isLoading } = useQuery({
+    queryKey: ['admin-staff'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, name, email, staff_permissions!staff_permissions_user_id_fkey (permission)')
+        .eq('role', 'admin')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: candidates } = useQuery({
+    queryKey: ['admin-staff-candidates'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, name, email, role')
+        .neq('role', 'admin')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: showAddStaff,
+  });
+
+  const { data: securitySettings } = useQuery({
+    queryKey: ['admin-security-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('security_settings')
+        .select('*')
+        .order('created_at')
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Staff who have not enrolled an authenticator are sent to set one up once this is on
+  const updateSecuritySettingsMutation = useMutation({
+    mutationFn: async (requireStaffMfa: boolean) => {
+      const { error } = await supabase
+        .from('security_settings')
+        .update({ require_staff_mfa: requireStaffMfa, updated_at: new Date().toISOString() })
+        .eq('id', securitySettings.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Security settings saved');
+      queryClient.invalidateQueries({ queryKey: ['admin-security-settings'] });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to save security settings: ${error.message}`);
+    },
+  });
+
+  const invalidateStaff = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-staff'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-staff-candidates'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-students'] });
+  };
+
+  const togglePermissionMutation = useMutation({
+    mutationFn: async ({ userId, permission, granted }: { userId: string; permission: StaffPermission; granted: boolean }) => {
+      if (granted) {
+        const { error } = await supabase
+          .from('staff_permissions')
+          .insert({ user_id: userId, permission, granted_by: user?.id });
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('staff_permissions')
+          .delete()
+          .eq('user_id', userId)
+          .eq('permission', permission);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-staff'] });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to update permission: ${error.message}`);
+    },
+  });
+
+  // New staff start without capabilities until they are granted explicitly
+  const addStaffMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ role: 'admin' })
+        .eq('id', userId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Staff member added. Grant their permissions below.');
+      invalidateStaff();
+      setShowAddStaff(false);
+      setCandidateSearch('');
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to add staff member: ${error.message}`);
+    },
+  });
+
+  const removeStaffMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const { error: permissionsError } = await supabase
+        .from('staff_permissions')
+        .delete()
+        .eq('user_id', userId);
+      if (permissionsError) throw permissionsError;
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ role: 'student' })
+        .eq('id', userId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Admin access removed');
+      invalidateStaff();
+      setStaffToRemove(null);
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to remove admin access: ${error.message}`);
+    },
+  });
+
+  const hasPermission = (member: any, permission: StaffPermission) =>
+    member.staff_permissions?.some((grant: any) => grant.permission === permission);
+
+  const filteredCandidates = (candidates || []).filter(candidate =>
+    candidate.name?.toLowerCase().includes(candidateSearch.toLowerCase()) ||
+    candidate.email?.toLowerCase().includes(candidateSearch.toLowerCase())
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#0D5C4B]"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-[#0D5C4B]">Staff</h1>
+          <p className="text-muted-foreground">Choose what each staff member can manage</p>
+        </div>
+        <Button onClick={() => setShowAddStaff(true)} className="bg-[#0D5C4B] hover:bg-green-700">
+          <UserPlus className="h-4 w-4 mr-2" />
+          Add Staff Member
+        </Button>
+      </div>
+
+      {securitySettings && (
+        <Card>
+          <CardContent className="p-6 flex items-center justify-between space-x-4">
+            <div>
+              <Label htmlFor="require-staff-mfa" className="text-base">Require two-factor authentication</Label>
+              <p className="text-sm text-muted-foreground">
+                Staff must verify an authenticator code before using the admin portal. Staff who have not set one up are asked to before continuing.
+              </p>
+            </div>
+            <Switch
+              id="require-staff-mfa"
+              checked={securitySettings.require_staff_mfa}
+              onCheckedChange={(checked) => updateSecuritySettingsMutation.mutate(checked)}
+              disabled={updateSecuritySettingsMutation.isPending}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Staff Permissions ({staff?.length || 0})</CardTitle>
+          <CardDescription>
+            {STAFF_PERMISSIONS.map(permission => `${permission.label}: ${permission.description}`).join(' · ')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Staff Member</TableHead>
+                {STAFF_PERMISSIONS.map(permission => (
+                  <TableHead key={permission.value} className="text-center">{permission.label}</TableHead>
+                ))}
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {staff?.map((member) => {
+                const isSelf = member.id === user?.id;
+                return (
+                  <TableRow key={member.id}>
+                    <TableCell>
+                      <p className="font-medium">{member.name}{isSelf && ' (you)'}</p>
+                      <p className="text-xs text-muted-foreground">{member.email}</p>
+                    </TableCell>
+                    {STAFF_PERMISSIONS.map(permission => (
+                      <TableCell key={permission.value} className="text-center">
+                        <Checkbox
+                          checked={hasPermission(member, permission.value)}
+                          onCheckedChange={(checked) => togglePermissionMutation.mutate({
+                            userId: member.id,
+                            permission: permission.value,
+                            granted: checked === true
+                          })}
+                          // Keep staff managers from locking themselves out
+                          disabled={togglePermissionMutation.isPending || (isSelf && permission.value === 'manage_staff')}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      {!isSelf && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setStaffToRemove(member)}
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          {!staff?.length && (
+            <div className="text-center py-8">
+              <ShieldCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-lg font-semibold text-muted-foreground">No staff members</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showAddStaff} onOpenChange={setShowAddStaff}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Staff Member</DialogTitle>
+            <DialogDescription>Give an existing user admin access. They start without any permissions.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              placeholder="Search by name or email..."
+              value={candidateSearch}
+              onChange={(e) => setCandidateSearch(e.target.value)}
+            />
+            <div className="max-h-72 overflow-y-auto border rounded-md divide-y">
+              {filteredCandidates.map(candidate => (
+                <div key={candidate.id} className="flex items-center justify-between p-2">
+                  <div>
+                    <p className="text-sm font-medium">{candidate.name}</p>
+                    <p className="text-xs text-muted-foreground">{candidate.email}</p>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => addStaffMutation.mutate(candidate.id)}
+                    disabled={addStaffMutation.isPending}
+                    className="bg-[#0D5C4B] hover:bg-green-700"
+                  >
+                    Add
+                  </Button>
+                </div>
+              ))}
+              {filteredCandidates.length === 0 && (
+                <p className="p-4 text-sm text-muted-foreground text-center">No matching users</p>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!staffToRemove} onOpenChange={(open) => !open && setStaffToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Admin Access</AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong>{staffToRemove?.name}</strong> will lose access to the admin portal and all of their
+              permissions. Their account becomes a regular student account.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => staffToRemove && removeStaffMutation.mutate(staffToRemove.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove Access
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminStaff;
@@ -9,25 +9,45 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { ArrowLeft, User, Zap, BookOpen, FileText, Plus, X } from 'lucide-react';
+import { ArrowLeft, User, Zap, BookOpen, FileText, Plus, X, Clock, CheckCircle, Award, Download, Route, ChevronRight, ScrollText, MonitorSmartphone, LogOut } from 'lucide-react';
+import { formatDuration } from '@/lib/utils';
+import { downloadCertificate, formatCertificateDate } from '@/lib/certificate';
 import { Link } from 'react-router-dom';
 import AssignServiceModal from '@/components/AssignServiceModal';
 import AdminFilesList from '@/components/AdminFilesList';
+import SessionList from '@/components/SessionList';
+import OrganizationSelect from '@/components/admin/OrganizationSelect';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
 
 const AdminStudentDetail = () => {
   const { id } = useParams();
+  const { can } = useAdminAuth();
   const queryClient = useQueryClient();
   const [editMode, setEditMode] = useState(false);
   const [showAssignService, setShowAssignService] = useState(false);
   const [showAssignCourse, setShowAssignCourse] = useState(false);
   const [selectedCourse, setSelectedCourse] = useState('');
+  const [showAssignPath, setShowAssignPath] = useState(false);
+  const [selectedPath, setSelectedPath] = useState('');
+  const [confirmSignOut, setConfirmSignOut] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     email: '',
-    organization: '',
-    organization_role: ''
+    organization_id: null as string | null,
+    organization_role: '',
+    role: 'student'
   });
 
   const { data: student, isLoading } = useQuery({
@@ -55,6 +75,7 @@ const AdminStudentDetail = () => {
           status,
           assigned_at,
           service_id,
+          cohorts (name),
           services (
             id,
             title,
@@ -79,6 +100,7 @@ const AdminStudentDetail = () => {
           id,
           locked,
           course_id,
+          cohorts (name),
           courses (
             id,
             title,
@@ -93,12 +115,95 @@ const AdminStudentDetail = () => {
     enabled: !!id,
   });
 
+  const { data: userProgress } = useQuery({
+    queryKey: ['admin-student-progress', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_progress')
+        .select(`
+          id,
+          course_id,
+          lesson_id,
+          completed,
+          quiz_score,
+          time_spent,
+          lessons (
+            title,
+            order
+          ),
+          courses (
+            title
+          )
+        `)
+        .eq('user_id', id);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!id,
+  });
+
+  const { data: certificates } = useQuery({
+    queryKey: ['admin-student-certificates', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('certificates')
+        .select('*')
+        .eq('user_id', id)
+        .order('completed_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!id,
+  });
+
   const { data: availableCourses } = useQuery({
     queryKey: ['admin-available-courses'],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('courses')
         .select('id, title, description')
+        .is('archived_at', null)
+        .order('title');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: userLearningPaths } = useQuery({
+    queryKey: ['admin-student-learning-paths', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_learning_paths')
+        .select(`
+          *,
+          learning_paths (
+            title,
+            description,
+            learning_path_courses (
+              course_id,
+              position,
+              courses (title)
+            )
+          )
+        `)
+        .eq('user_id', id)
+        .order('assigned_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!id,
+  });
+
+  const { data: availableLearningPaths } = useQuery({
+    queryKey: ['admin-available-learning-paths'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('learning_paths')
+        .select('id, title')
         .order('title');
 
       if (error) throw error;
@@ -106,22 +211,35 @@ const AdminStudentDetail = () => {
     },
   });
 
+  const { data: sessions } = useQuery({
+    queryKey: ['admin-student-sessions', id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_user_sessions', { p_user_id: id! });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!id && can('manage_users'),
+  });
+
   React.useEffect(() => {
     if (student) {
       setFormData({
         name: student.name || '',
         email: student.email || '',
-        organization: student.organization || '',
-        organization_role: student.organization_role || ''
+        organization_id: student.organization_id,
+        organization_role: student.organization_role || '',
+        role: student.role
       });
     }
   }, [student]);
 
   const updateStudentMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
+      // Clearing the organization also clears the legacy text, which would otherwise relink it
       const { error } = await supabase
         .from('profiles')
-        .update(data)
+        .update(data.organization_id ? data : { ...data, organization: null })
         .eq('id', id);
       if (error) throw error;
     },
@@ -129,6 +247,7 @@ const AdminStudentDetail = () => {
       toast.success('Student updated successfully');
       setEditMode(false);
       queryClient.invalidateQueries({ queryKey: ['admin-student', id] });
+      queryClient.invalidateQueries({ queryKey: ['admin-organization-members'] });
     },
     onError: (error) => {
       toast.error('Failed to update student');
@@ -196,7 +315,67 @@ const AdminStudentDetail = () => {
     },
   });
 
+  // Enrolls the student in every course on the path; path order then gates each course
+  const assignLearningPathMutation = useMutation({
+    mutationFn: async (pathId: string) => {
+      const { error } = await supabase.rpc('assign_learning_path', {
+        p_user_id: id,
+        p_path_id: pathId
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Learning path assigned successfully');
+      queryClient.invalidateQueries({ queryKey: ['admin-student-learning-paths', id] });
+      queryClient.invalidateQueries({ queryKey: ['admin-student-courses', id] });
+      setShowAssignPath(false);
+      setSelectedPath('');
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to assign learning path: ${error.message}`);
+    },
+  });
+
+  const removeLearningPathMutation = useMutation({
+    mutationFn: async (pathId: string) => {
+      const { error } = await supabase
+        .from('user_learning_paths')
+        .delete()
+        .eq('user_id', id)
+        .eq('path_id', pathId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Learning path removed successfully');
+      queryClient.invalidateQueries({ queryKey: ['admin-student-learning-paths', id] });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to remove learning path: ${error.message}`);
+    },
+  });
+
+  // Ends every session at once; each device drops out when its current access token expires
+  const revokeSessionsMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('revoke_user_sessions', { p_user_id: id! });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (revokedCount) => {
+      toast.success(`Signed out of ${revokedCount} session${revokedCount === 1 ? '' : 's'}`);
+      setConfirmSignOut(false);
+      queryClient.invalidateQueries({ queryKey: ['admin-student-sessions', id] });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to sign out sessions: ${error.message}`);
+    },
+  });
+
   const handleSave = () => {
+    if (formData.role === 'org_manager' && !formData.organization_id) {
+      toast.error('Organization managers must belong to an organization');
+      return;
+    }
     updateStudentMutation.mutate(formData);
   };
 
@@ -228,6 +407,25 @@ const AdminStudentDetail = () => {
   const assignedCourseIds = userCourses?.map(uc => uc.course_id).filter(Boolean) || [];
   const availableCoursesToAssign = availableCourses?.filter(course => !assignedCourseIds.includes(course.id)) || [];
 
+  // Group lesson time by course for the learning time breakdown
+  const timeByCourse = Object.values(
+    (userProgress || []).reduce((groups, progress) => {
+      const courseId = progress.course_id || 'unknown';
+      if (!groups[courseId]) {
+        groups[courseId] = {
+          courseId,
+          title: progress.courses?.title || 'Unknown Course',
+          totalSeconds: 0,
+          lessons: [] as typeof userProgress
+        };
+      }
+      groups[courseId].totalSeconds += progress.time_spent || 0;
+      groups[courseId].lessons.push(progress);
+      return groups;
+    }, {} as Record<string, { courseId: string; title: string; totalSeconds: number; lessons: typeof userProgress }>)
+  );
+  const totalTimeSpent = timeByCourse.reduce((total, course) => total + course.totalSeconds, 0);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -246,10 +444,21 @@ const AdminStudentDetail = () => {
             />
           )}
           <div>
-            <h1 className="text-3xl font-bold text-[#0D5C4B]">{student.name}</h1>
+            <div className="flex items-center space-x-2">
+              <h1 className="text-3xl font-bold text-[#0D5C4B]">{student.name}</h1>
+              {student.deactivated_at && <Badge variant="destructive">Deactivated</Badge>}
+            </div>
             <p className="text-muted-foreground">Manage student profile and assignments</p>
           </div>
         </div>
+        {can('view_reports') && (
+          <Link to={`/admin/audit-log?user=${student.id}`} className="ml-auto">
+            <Button variant="outline" size="sm">
+              <ScrollText className="h-4 w-4 mr-2" />
+              Activity History
+            </Button>
+          </Link>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -293,10 +502,10 @@ const AdminStudentDetail = () => {
               </div>
               <div>
                 <Label htmlFor="organization">Organization</Label>
-                <Input
+                <OrganizationSelect
                   id="organization"
-                  value={formData.organization}
-                  onChange={(e) => setFormData({...formData, organization: e.target.value})}
+                  value={formData.organization_id}
+                  onChange={(organizationId) => setFormData({...formData, organization_id: organizationId})}
                   disabled={!editMode}
                 />
               </div>
@@ -309,6 +518,27 @@ const AdminStudentDetail = () => {
                   disabled={!editMode}
                 />
               </div>
+              {formData.role !== 'admin' && (
+                <div>
+                  <Label htmlFor="role">Access</Label>
+                  <Select
+                    value={formData.role}
+                    onValueChange={(value) => setFormData({...formData, role: value})}
+                    disabled={!editMode}
+                  >
+                    <SelectTrigger id="role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="student">Student</SelectItem>
+                      <SelectItem value="org_manager">Organization Manager</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Organization managers can view progress for everyone in their organization
+                  </p>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -327,6 +557,10 @@ const AdminStudentDetail = () => {
               <p className="text-2xl font-bold text-blue-600">{userCourses?.length || 0}</p>
               <p className="text-sm text-muted-foreground">Enrolled Courses</p>
             </div>
+            <div className="text-center p-4 bg-amber-50 rounded-lg">
+              <p className="text-2xl font-bold text-amber-600">{formatDuration(totalTimeSpent)}</p>
+              <p className="text-sm text-muted-foreground">Time in Training</p>
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -366,9 +600,14 @@ const AdminStudentDetail = () => {
                 </div>
                 <p className="text-sm text-muted-foreground mb-3">{userService.services?.description}</p>
                 <div className="flex justify-between items-center">
-                  <Badge variant="outline" className="capitalize">
-                    {userService.services?.type}
-                  </Badge>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline" className="capitalize">
+                      {userService.services?.type}
+                    </Badge>
+                    {userService.cohorts?.name && (
+                      <Badge variant="secondary">Cohort: {userService.cohorts.name}</Badge>
+                    )}
+                  </div>
                   <span className="text-xs text-muted-foreground">
                     {new Date(userService.assigned_at).toLocaleDateString()}
                   </span>
@@ -450,6 +689,9 @@ const AdminStudentDetail = () => {
                     <p className="text-sm text-muted-foreground">{assignment.courses?.description}</p>
                   </div>
                   <div className="flex items-center space-x-2">
+                    {assignment.cohorts?.name && (
+                      <Badge variant="outline">Cohort: {assignment.cohorts.name}</Badge>
+                    )}
                     <Badge variant={assignment.locked ? "destructive" : "default"}>
                       {assignment.locked ? 'Locked' : 'Active'}
                     </Badge>
@@ -475,6 +717,217 @@ const AdminStudentDetail = () => {
         </CardContent>
       </Card>
 
+      {/* Learning Paths */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-2">
+              <Route className="h-5 w-5 text-[#0D5C4B]" />
+              <CardTitle>Learning Paths</CardTitle>
+            </div>
+            <Dialog open={showAssignPath} onOpenChange={setShowAssignPath}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Assign Path
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Assign Learning Path</DialogTitle>
+                  <DialogDescription>
+                    {student.name} will be enrolled in every course on the path. Each course opens once the previous one is completed.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="learning-path">Learning Path</Label>
+                    <Select value={selectedPath} onValueChange={setSelectedPath}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a learning path" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableLearningPaths
+                          ?.filter(path => !userLearningPaths?.some((assigned: any) => assigned.path_id === path.id))
+                          .map((path) => (
+                            <SelectItem key={path.id} value={path.id}>
+                              {path.title}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      onClick={() => selectedPath && assignLearningPathMutation.mutate(selectedPath)}
+                      disabled={assignLearningPathMutation.isPending || !selectedPath}
+                      className="bg-[#0D5C4B] hover:bg-green-700"
+                    >
+                      {assignLearningPathMutation.isPending ? 'Assigning...' : 'Assign Path'}
+                    </Button>
+                    <Button variant="outline" onClick={() => setShowAssignPath(false)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {userLearningPaths?.map((assignment: any) => {
+              const pathCourses = [...(assignment.learning_paths?.learning_path_courses || [])]
+                .sort((a: any, b: any) => a.position - b.position);
+
+              return (
+                <div key={assignment.id} className="p-4 border rounded-lg">
+                  <div className="flex justify-between items-start">
+                    <div className="space-y-1">
+                      <h3 className="font-semibold">{assignment.learning_paths?.title}</h3>
+                      <div className="flex flex-wrap items-center text-sm text-muted-foreground">
+                        {pathCourses.map((pathCourse: any, index: number) => (
+                          <React.Fragment key={pathCourse.course_id}>
+                            {index > 0 && <ChevronRight className="h-3 w-3 mx-1" />}
+                            <span>{pathCourse.courses?.title}</span>
+                          </React.Fragment>
+                        ))}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeLearningPathMutation.mutate(assignment.path_id)}
+                      disabled={removeLearningPathMutation.isPending}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            {!userLearningPaths?.length && (
+              <div className="text-center py-8">
+                <Route className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No learning paths assigned</p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Learning Time */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center space-x-2">
+            <Clock className="h-5 w-5 text-[#0D5C4B]" />
+            <CardTitle>Learning Time</CardTitle>
+          </div>
+          <CardDescription>Active time spent in each course and lesson</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {timeByCourse.map((course) => (
+              <div key={course.courseId} className="p-4 border rounded-lg">
+                <div className="flex justify-between items-center mb-3">
+                  <h3 className="font-semibold">{course.title}</h3>
+                  <span className="font-medium text-[#0D5C4B]">{formatDuration(course.totalSeconds)}</span>
+                </div>
+                <div className="space-y-2">
+                  {[...course.lessons]
+                    .sort((a, b) => (a.lessons?.order || 0) - (b.lessons?.order || 0))
+                    .map((progress) => (
+                      <div key={progress.id} className="flex justify-between items-center text-sm">
+                        <div className="flex items-center space-x-2">
+                          {progress.completed ? (
+                            <CheckCircle className="h-4 w-4 text-green-600" />
+                          ) : (
+                            <FileText className="h-4 w-4 text-muted-foreground" />
+                          )}
+                          <span>{progress.lessons?.title || 'Unknown Lesson'}</span>
+                          {progress.quiz_score !== null && (
+                            <Badge variant="outline" className="text-xs">Quiz {progress.quiz_score}%</Badge>
+                          )}
+                        </div>
+                        <span className="text-muted-foreground">{formatDuration(progress.time_spent || 0)}</span>
+                      </div>
+                    ))}
+                </div>
+              </div>
+            ))}
+            {!timeByCourse.length && (
+              <div className="text-center py-8">
+                <Clock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No learning activity yet</p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Certificates */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center space-x-2">
+            <Award className="h-5 w-5 text-[#0D5C4B]" />
+            <CardTitle>Certificates</CardTitle>
+          </div>
+          <CardDescription>Course completion certificates issued to this student</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {certificates?.map((certificate) => (
+              <div key={certificate.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div>
+                  <h3 className="font-semibold">{certificate.course_title}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Completed {formatCertificateDate(certificate.completed_at)} · Code{' '}
+                    <span className="font-mono">{certificate.verification_code}</span>
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => downloadCertificate(certificate)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </Button>
+              </div>
+            ))}
+            {!certificates?.length && (
+              <div className="text-center py-8">
+                <Award className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No certificates issued yet</p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Sessions */}
+      {can('manage_users') && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div className="flex items-center space-x-2">
+                <MonitorSmartphone className="h-5 w-5 text-[#0D5C4B]" />
+                <CardTitle>Active Sessions</CardTitle>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConfirmSignOut(true)}
+                disabled={!sessions?.length || revokeSessionsMutation.isPending}
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign Out Everywhere
+              </Button>
+            </div>
+            <CardDescription>Devices where this student is currently signed in</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SessionList sessions={sessions || []} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Files Section */}
       <AdminFilesList 
         studentId={id!} 
@@ -488,6 +941,27 @@ const AdminStudentDetail = () => {
         studentId={id!}
         assignedServiceIds={assignedServiceIds}
       />
+
+      <AlertDialog open={confirmSignOut} onOpenChange={setConfirmSignOut}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign Out Everywhere</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will end all {sessions?.length || 0} active sessions for <strong>{student.name}</strong>. Their
+              devices lose access within an hour and they will need to sign in again. Their account stays active.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => revokeSessionsMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Sign Out
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
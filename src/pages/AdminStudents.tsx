@@ -6,28 +6,47 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { Link } from 'react-router-dom';
-import { Search, Eye, Users, Trash2 } from 'lucide-react';
+import { Search, Eye, Users, Trash2, UserX, RotateCcw, Upload, Mail, MailX } from 'lucide-react';
 import { toast } from 'sonner';
 import DeleteUserDialog from '@/components/DeleteUserDialog';
+import InviteLinkDialog from '@/components/admin/InviteLinkDialog';
+import OrganizationScopeSelect from '@/components/admin/OrganizationScopeSelect';
+import { useOrganizationScope } from '@/hooks/useOrganizationScope';
+import { callAccountFunction, canPurgeAccount, getInviteStatus, getPurgeAvailableAt, InviteStatus, PURGE_RETENTION_DAYS } from '@/lib/accounts';
 
 const AdminStudents = () => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'active' | 'deactivated' | 'all'>('active');
+  const [userToDeactivate, setUserToDeactivate] = useState<any>(null);
+  const [issuedInvite, setIssuedInvite] = useState<{ name: string; inviteUrl: string; expiresAt: string } | null>(null);
   const [deleteDialog, setDeleteDialog] = useState<{
     isOpen: boolean;
     user: any | null;
   }>({ isOpen: false, user: null });
 
   const queryClient = useQueryClient();
+  const { organizationId } = useOrganizationScope();
 
   const { data: students, isLoading, error } = useQuery({
     queryKey: ['admin-students'],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
-        .eq('role', 'student')
+        .select('*, organizations (name)')
+        .in('role', ['student', 'org_manager'])
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -72,38 +91,57 @@ const AdminStudents = () => {
     },
   });
 
-  const deleteUserMutation = useMutation({
-    mutationFn: async (userId: string) => {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        throw new Error('No active session');
-      }
-
-      const response = await fetch(`https://oimqzyfmglyhljjuboek.supabase.co/functions/v1/delete-user`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ userId }),
-      });
+  const { data: invitations } = useQuery({
+    queryKey: ['admin-student-invitations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_invitations')
+        .select('user_id, created_at, expires_at, accepted_at, revoked_at')
+        .order('created_at', { ascending: false });
 
-      const result = await response.json();
+      if (error) throw error;
+      return data || [];
+    },
+  });
 
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to delete user');
+  const inviteMutation = useMutation({
+    mutationFn: ({ user, action }: { user: any; action: 'resend' | 'revoke' }) =>
+      callAccountFunction('invite-user', { userId: user.id, action }),
+    onSuccess: (result, { user, action }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-student-invitations'] });
+      if (action === 'resend') {
+        setIssuedInvite({ name: user.name, inviteUrl: result.invite_url, expiresAt: result.expires_at });
+      } else {
+        toast.success('Invitation revoked');
       }
+    },
+    onError: (error: any, { action }) => {
+      toast.error(`Failed to ${action} invitation: ${error.message}`);
+    },
+  });
 
-      return result;
+  const deactivateUserMutation = useMutation({
+    mutationFn: ({ userId, restore }: { userId: string; restore: boolean }) =>
+      callAccountFunction('deactivate-user', { userId, restore }),
+    onSuccess: (_, { restore }) => {
+      toast.success(restore ? 'User restored' : 'User deactivated');
+      queryClient.invalidateQueries({ queryKey: ['admin-students'] });
+      setUserToDeactivate(null);
     },
+    onError: (error: any, { restore }) => {
+      toast.error(`Failed to ${restore ? 'restore' : 'deactivate'} user: ${error.message}`);
+    },
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: (userId: string) => callAccountFunction('delete-user', { userId }),
     onSuccess: () => {
-      toast.success('User deleted successfully');
+      toast.success('User purged successfully');
       queryClient.invalidateQueries({ queryKey: ['admin-students'] });
       setDeleteDialog({ isOpen: false, user: null });
     },
     onError: (error: any) => {
-      toast.error(`Failed to delete user: ${error.message}`);
+      toast.error(`Failed to purge user: ${error.message}`);
       console.error('Delete user error:', error);
     },
   });
@@ -123,11 +161,20 @@ const AdminStudents = () => {
   };
 
   const filteredStudents = students?.filter(student =>
-    student.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    student.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    student.organization?.toLowerCase().includes(searchTerm.toLowerCase())
+    (!organizationId || student.organization_id === organizationId) &&
+    (statusFilter === 'all' || (statusFilter === 'deactivated') === !!student.deactivated_at) && (
+      student.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      student.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      student.organization?.toLowerCase().includes(searchTerm.toLowerCase())
+    )
   );
 
+  // Invitations are listed newest first, so the first match is the current one
+  const getInviteStatusFor = (studentId: string): InviteStatus | null => {
+    const invitation = invitations?.find(invite => invite.user_id === studentId);
+    return invitation ? getInviteStatus(invitation) : null;
+  };
+
   const getStudentServices = (studentId: string) => {
     return studentServices?.filter(service => service.user_id === studentId) || [];
   };
@@ -163,12 +210,20 @@ const AdminStudents = () => {
           <h1 className="text-3xl font-bold text-[#0D5C4B]">Student Management</h1>
           <p className="text-muted-foreground">Manage student accounts, services, and progress</p>
         </div>
-        <Link to="/admin/add-user">
-          <Button className="bg-[#0D5C4B] hover:bg-green-700">
-            <Users className="h-4 w-4 mr-2" />
-            Add Student
-          </Button>
-        </Link>
+        <div className="flex space-x-2">
+          <Link to="/admin/import-users">
+            <Button variant="outline">
+              <Upload className="h-4 w-4 mr-2" />
+              Import CSV
+            </Button>
+          </Link>
+          <Link to="/admin/add-user">
+            <Button className="bg-[#0D5C4B] hover:bg-green-700">
+              <Users className="h-4 w-4 mr-2" />
+              Add Student
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Search and Filters */}
@@ -189,6 +244,17 @@ const AdminStudents = () => {
                 className="w-full"
               />
             </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="deactivated">Deactivated</SelectItem>
+                <SelectItem value="all">All students</SelectItem>
+              </SelectContent>
+            </Select>
+            <OrganizationScopeSelect />
           </div>
         </CardContent>
       </Card>
@@ -219,6 +285,7 @@ const AdminStudents = () => {
               {filteredStudents?.map((student) => {
                 const studentServicesList = getStudentServices(student.id);
                 const studentCoursesList = getStudentCourses(student.id);
+                const inviteStatus = getInviteStatusFor(student.id);
                 
                 return (
                   <TableRow key={student.id} className="hover:bg-accent/50">
@@ -236,15 +303,28 @@ const AdminStudents = () => {
                         <div>
                           <p className="font-medium">{student.name}</p>
                           <p className="text-sm text-muted-foreground">{student.email}</p>
+                          {inviteStatus && inviteStatus !== 'accepted' && (
+                            <Badge variant={inviteStatus === 'pending' ? 'outline' : 'secondary'} className="text-xs mt-1">
+                              Invite {inviteStatus}
+                            </Badge>
+                          )}
+                          {student.deactivated_at && (
+                            <Badge variant="destructive" className="text-xs mt-1">
+                              Deactivated {new Date(student.deactivated_at).toLocaleDateString()}
+                            </Badge>
+                          )}
                         </div>
                       </div>
                     </TableCell>
                     <TableCell>
                       <div>
-                        <span className="text-sm font-medium">{student.organization || '-'}</span>
+                        <span className="text-sm font-medium">{student.organizations?.name || student.organization || '-'}</span>
                         {student.organization_role && (
                           <p className="text-xs text-muted-foreground">{student.organization_role}</p>
                         )}
+                        {student.role === 'org_manager' && (
+                          <Badge variant="outline" className="text-xs mt-1">Manager</Badge>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell>
@@ -293,14 +373,65 @@ const AdminStudents = () => {
                             <Eye className="h-4 w-4" />
                           </Button>
                         </Link>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleDeleteUser(student)}
-                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {inviteStatus && inviteStatus !== 'accepted' && !student.deactivated_at && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Resend invite"
+                              onClick={() => inviteMutation.mutate({ user: student, action: 'resend' })}
+                              disabled={inviteMutation.isPending}
+                            >
+                              <Mail className="h-4 w-4" />
+                            </Button>
+                            {inviteStatus === 'pending' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Revoke invite"
+                                onClick={() => inviteMutation.mutate({ user: student, action: 'revoke' })}
+                                disabled={inviteMutation.isPending}
+                              >
+                                <MailX className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </>
+                        )}
+                        {student.deactivated_at ? (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Restore"
+                              onClick={() => deactivateUserMutation.mutate({ userId: student.id, restore: true })}
+                              disabled={deactivateUserMutation.isPending}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title={canPurgeAccount(student.deactivated_at)
+                                ? 'Purge'
+                                : `Can be purged from ${getPurgeAvailableAt(student.deactivated_at).toLocaleDateString()}`}
+                              onClick={() => handleDeleteUser(student)}
+                              disabled={!canPurgeAccount(student.deactivated_at)}
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Deactivate"
+                            onClick={() => setUserToDeactivate(student)}
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          >
+                            <UserX className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -321,7 +452,31 @@ const AdminStudents = () => {
         </CardContent>
       </Card>
 
-      {/* Delete User Dialog */}
+      <AlertDialog open={!!userToDeactivate} onOpenChange={(open) => !open && setUserToDeactivate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Deactivate User</AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong>{userToDeactivate?.name}</strong> will no longer be able to sign in. Their progress,
+              assignments, files and certificates are kept and the account can be restored at any time.
+              It can be purged permanently after {PURGE_RETENTION_DAYS} days.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => userToDeactivate && deactivateUserMutation.mutate({ userId: userToDeactivate.id, restore: false })}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Deactivate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <InviteLinkDialog invite={issuedInvite} onClose={() => setIssuedInvite(null)} />
+
+      {/* Purge User Dialog */}
       <DeleteUserDialog
         isOpen={deleteDialog.isOpen}
         onClose={handleCloseDeleteDialog}
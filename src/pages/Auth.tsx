@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import MfaChallenge from '@/components/MfaChallenge';
 import { toast } from 'sonner';
 import { Loader2, Mail } from 'lucide-react';
 
@@ -15,13 +16,29 @@ const Auth = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [showForgotPassword, setShowForgotPassword] = useState(false);
   const [resetEmailSent, setResetEmailSent] = useState(false);
+  const [mfaRequired, setMfaRequired] = useState(false);
+  const [mfaAttempt, setMfaAttempt] = useState(0);
   const navigate = useNavigate();
   const { user } = useAuth();
 
   useEffect(() => {
+    // Reset emails sent before /reset-password existed still point here
+    if (new URLSearchParams(window.location.search).get('reset') === 'true') {
+      navigate(`/reset-password${window.location.hash}`, { replace: true });
+      return;
+    }
+
     const checkUserRoleAndRedirect = async () => {
       if (user) {
         try {
+          // Users with an authenticator finish signing in with a TOTP code first
+          const { data: assurance } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+          if (assurance?.nextLevel === 'aal2' && assurance.currentLevel !== 'aal2') {
+            setMfaRequired(true);
+            return;
+          }
+          setMfaRequired(false);
+
           const { data, error } = await supabase
             .from('profiles')
             .select('role')
@@ -48,7 +65,7 @@ const Auth = () => {
     };
 
     checkUserRoleAndRedirect();
-  }, [user, navigate]);
+  }, [user, navigate, mfaAttempt]);
 
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -63,6 +80,8 @@ const Auth = () => {
       if (error) {
         if (error.message.includes('Invalid login credentials')) {
           toast.error('Invalid email or password. Please check your credentials.');
+        } else if (error.message.toLowerCase().includes('banned')) {
+          toast.error('This account has been deactivated. Please contact your administrator.');
         } else {
           toast.error(error.message);
         }
@@ -84,7 +103,7 @@ const Auth = () => {
 
     try {
       const { error } = await supabase.auth.resetPasswordForEmail(email, {
-        redirectTo: `${window.location.origin}/auth?reset=true`,
+        redirectTo: `${window.location.origin}/reset-password`,
       });
 
       if (error) {
@@ -101,6 +120,12 @@ const Auth = () => {
     }
   };
 
+  const handleCancelMfa = async () => {
+    await supabase.auth.signOut();
+    setMfaRequired(false);
+    setPassword('');
+  };
+
   if (resetEmailSent) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-primary/10 via-background to-primary/5 flex items-center justify-center p-4">
@@ -143,77 +168,82 @@ const Auth = () => {
           <p className="text-muted-foreground mt-2">AI Data Management Client Portal</p>
         </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>{showForgotPassword ? 'Reset Password' : 'Welcome Back'}</CardTitle>
-            <CardDescription>
-              {showForgotPassword 
-                ? 'Enter your email to receive a password reset link'
-                : 'Sign in to access your portal'
-              }
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={showForgotPassword ? handleForgotPassword : handleSignIn} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="Enter your email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                />
-              </div>
-              
-              {!showForgotPassword && (
+        {mfaRequired ? (
+          // Re-run the redirect check once the session has its second factor
+          <MfaChallenge onVerified={() => setMfaAttempt(attempt => attempt + 1)} onCancel={handleCancelMfa} />
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>{showForgotPassword ? 'Reset Password' : 'Welcome Back'}</CardTitle>
+              <CardDescription>
+                {showForgotPassword 
+                  ? 'Enter your email to receive a password reset link'
+                  : 'Sign in to access your portal'
+                }
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={showForgotPassword ? handleForgotPassword : handleSignIn} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="password">Password</Label>
+                  <Label htmlFor="email">Email</Label>
                   <Input
-                    id="password"
-                    type="password"
-                    placeholder="Enter your password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
+                    id="email"
+                    type="email"
+                    placeholder="Enter your email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
                     required
                   />
                 </div>
-              )}
-
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                {showForgotPassword ? 'Send Reset Link' : 'Sign In'}
-              </Button>
-
-              {!showForgotPassword && (
-                <div className="text-center">
-                  <Button
-                    type="button"
-                    variant="link"
-                    onClick={() => setShowForgotPassword(true)}
-                    className="text-sm text-muted-foreground hover:text-primary"
-                  >
-                    Forgot your password?
-                  </Button>
-                </div>
-              )}
-
-              {showForgotPassword && (
-                <div className="text-center">
-                  <Button
-                    type="button"
-                    variant="link"
-                    onClick={() => setShowForgotPassword(false)}
-                    className="text-sm text-muted-foreground hover:text-primary"
-                  >
-                    Back to Sign In
-                  </Button>
-                </div>
-              )}
-            </form>
-          </CardContent>
-        </Card>
+                
+                {!showForgotPassword && (
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Password</Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder="Enter your password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                    />
+                  </div>
+                )}
+
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {showForgotPassword ? 'Send Reset Link' : 'Sign In'}
+                </Button>
+
+                {!showForgotPassword && (
+                  <div className="text-center">
+                    <Button
+                      type="button"
+                      variant="link"
+                      onClick={() => setShowForgotPassword(true)}
+                      className="text-sm text-muted-foreground hover:text-primary"
+                    >
+                      Forgot your password?
+                    </Button>
+                  </div>
+                )}
+
+                {showForgotPassword && (
+                  <div className="text-center">
+                    <Button
+                      type="button"
+                      variant="link"
+                      onClick={() => setShowForgotPassword(false)}
+                      className="text-sm text-muted-foreground hover:text-primary"
+                    >
+                      Back to Sign In
+                    </Button>
+                  </div>
+                )}
+              </form>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
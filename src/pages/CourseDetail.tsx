@@ -6,16 +6,37 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Progress } from '@/components/ui/progress';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
-import { FileText, Video, Lock, CheckCircle } from 'lucide-react';
+import {
+  fetchQuizSettings,
+  fetchCourseOutline,
+  fetchLockedLessonIds,
+  fetchEnrollmentDate,
+  getLessonLockReason,
+  getLessonReleaseDate,
+  formatReleaseCountdown,
+  CourseOutlineLesson,
+  QuizSettings
+} from '@/lib/lessonAccess';
+import { FileText, Video, Lock, CheckCircle, CalendarClock } from 'lucide-react';
 
 const CourseDetail = () => {
   const { id } = useParams();
   const { user } = useAuth();
   const [course, setCourse] = useState<any>(null);
-  const [lessons, setLessons] = useState<any[]>([]);
+  const [lessons, setLessons] = useState<CourseOutlineLesson[]>([]);
   const [userProgress, setUserProgress] = useState<any[]>([]);
+  const [quizSettings, setQuizSettings] = useState<QuizSettings | null>(null);
+  const [lockedLessonIds, setLockedLessonIds] = useState<string[]>([]);
+  const [enrolledAt, setEnrolledAt] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
   const [loading, setLoading] = useState(true);
 
+  // Keep countdowns current so scheduled lessons open without a reload
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
   useEffect(() => {
     if (id && user) {
       fetchCourseData();
@@ -32,11 +53,7 @@ const CourseDetail = () => {
         .single();
 
       // Fetch lessons for this course
-      const { data: lessonsData } = await supabase
-        .from('lessons')
-        .select('*')
-        .eq('course_id', id)
-        .order('order');
+      const lessonsData = await fetchCourseOutline(id);
 
       // Fetch user progress for this course
       const { data: progressData } = await supabase
@@ -45,9 +62,16 @@ const CourseDetail = () => {
         .eq('course_id', id)
         .eq('user_id', user?.id);
 
+      const settings = await fetchQuizSettings();
+      const lockedIds = await fetchLockedLessonIds(user.id, id);
+      const enrollmentDate = await fetchEnrollmentDate(user.id, id);
+
       setCourse(courseData);
-      setLessons(lessonsData || []);
+      setLessons(lessonsData);
       setUserProgress(progressData || []);
+      setQuizSettings(settings);
+      setLockedLessonIds(lockedIds);
+      setEnrolledAt(enrollmentDate);
     } catch (error) {
       console.error('Error fetching course data:', error);
     } finally {
@@ -97,7 +121,9 @@ const CourseDetail = () => {
             {lessons.map((lesson, index) => {
               const lessonProgress = userProgress.find(p => p.lesson_id === lesson.id);
               const isCompleted = lessonProgress?.completed || false;
-              const isLocked = index > 0 && !userProgress.find(p => p.lesson_id === lessons[index - 1].id)?.completed;
+              const lockReason = getLessonLockReason(lessons, index, userProgress, lockedLessonIds, quizSettings, enrolledAt, now);
+              const isLocked = lockReason !== null;
+              const releaseDate = getLessonReleaseDate(lesson, enrolledAt);
 
               return (
                 <div
@@ -112,6 +138,8 @@ const CourseDetail = () => {
                         <CheckCircle className="h-5 w-5 text-green-600" />
                       ) : isLocked ? (
                         <Lock className="h-5 w-5 text-gray-400" />
+                      ) : lesson.block_types.includes('video') ? (
+                        <Video className="h-5 w-5 text-primary" />
                       ) : (
                         <FileText className="h-5 w-5 text-primary" />
                       )}
@@ -119,6 +147,15 @@ const CourseDetail = () => {
                     <div>
                       <h3 className="font-medium">{lesson.title}</h3>
                       <p className="text-sm text-gray-600">{lesson.description}</p>
+                      {lockReason === 'admin' && (
+                        <p className="text-xs text-gray-500 mt-1">Locked by your instructor</p>
+                      )}
+                      {lockReason === 'scheduled' && releaseDate && (
+                        <p className="text-xs text-gray-500 mt-1 flex items-center">
+                          <CalendarClock className="h-3 w-3 mr-1" />
+                          {formatReleaseCountdown(releaseDate, now)} · {releaseDate.toLocaleString()}
+                        </p>
+                      )}
                     </div>
                   </div>
                   
@@ -131,7 +168,7 @@ const CourseDetail = () => {
                       </Link>
                     ) : (
                       <Button variant="outline" size="sm" disabled>
-                        Locked
+                        {lockReason === 'scheduled' ? 'Scheduled' : 'Locked'}
                       </Button>
                     )}
                   </div>
@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
@@ -7,7 +7,13 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Link, useNavigate } from 'react-router-dom';
-import { BookOpen, Lock, CheckCircle, Clock, ArrowLeft } from 'lucide-react';
+import { BookOpen, Lock, CheckCircle, Clock, ArrowLeft, Route } from 'lucide-react';
+
+interface PathStep {
+  pathTitle: string;
+  position: number;
+  total: number;
+}
 
 const Courses = () => {
   const { user } = useAuth();
@@ -15,20 +21,17 @@ const Courses = () => {
   const [courses, setCourses] = useState<any[]>([]);
   const [enrolledCourses, setEnrolledCourses] = useState<any[]>([]);
   const [userProgress, setUserProgress] = useState<any[]>([]);
+  const [blockingCourses, setBlockingCourses] = useState<Record<string, string[]>>({});
+  const [pathSteps, setPathSteps] = useState<Record<string, PathStep>>({});
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    if (user) {
-      fetchCoursesData();
-    }
-  }, [user]);
-
-  const fetchCoursesData = async () => {
+  const fetchCoursesData = useCallback(async () => {
     try {
-      // Fetch all courses
+      // Fetch all courses, leaving out archived ones
       const { data: allCourses } = await supabase
         .from('courses')
         .select('*')
+        .is('archived_at', null)
         .order('title');
 
       // Fetch user's enrolled courses
@@ -43,20 +46,70 @@ const Courses = () => {
         .select('*')
         .eq('user_id', user?.id);
 
-      setCourses(allCourses || []);
+      // Unfinished prerequisites and earlier learning path courses per enrolled course
+      const { data: availability } = await supabase.rpc('get_my_course_availability');
+
+      const { data: learningPaths } = await supabase
+        .from('user_learning_paths')
+        .select(`
+          learning_paths (
+            title,
+            learning_path_courses (course_id, position)
+          )
+        `)
+        .eq('user_id', user?.id);
+
+      const steps: Record<string, PathStep> = {};
+      (learningPaths || []).forEach((assignment: any) => {
+        const pathCourses = [...(assignment.learning_paths?.learning_path_courses || [])]
+          .sort((a: any, b: any) => a.position - b.position);
+        pathCourses.forEach((pathCourse: any, index: number) => {
+          if (!steps[pathCourse.course_id]) {
+            steps[pathCourse.course_id] = {
+              pathTitle: assignment.learning_paths.title,
+              position: index + 1,
+              total: pathCourses.length
+            };
+          }
+        });
+      });
+
+      // Courses on a learning path are listed first, in path order
+      const sortedCourses = [...(allCourses || [])].sort((a, b) => {
+        const stepA = steps[a.id];
+        const stepB = steps[b.id];
+        if (stepA && stepB) {
+          return stepA.pathTitle.localeCompare(stepB.pathTitle) || stepA.position - stepB.position;
+        }
+        if (stepA || stepB) return stepA ? -1 : 1;
+        return a.title.localeCompare(b.title);
+      });
+
+      setCourses(sortedCourses);
       setEnrolledCourses(assignments || []);
       setUserProgress(progress || []);
+      setBlockingCourses(Object.fromEntries(
+        (availability || []).map(row => [row.course_id, row.blocking_course_titles])
+      ));
+      setPathSteps(steps);
     } catch (error) {
       console.error('Error fetching courses data:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchCoursesData();
+    }
+  }, [user, fetchCoursesData]);
 
   const getCourseStatus = (courseId: string) => {
     const enrollment = enrolledCourses.find(e => e.course_id === courseId);
     if (!enrollment) return 'locked';
     if (enrollment.locked) return 'locked';
+    if (blockingCourses[courseId]?.length) return 'prerequisites';
     return 'enrolled';
   };
 
@@ -72,6 +125,9 @@ const Courses = () => {
     if (status === 'locked') {
       return <Badge variant="secondary" className="bg-gray-100 text-gray-600">Locked</Badge>;
     }
+    if (status === 'prerequisites') {
+      return <Badge variant="secondary" className="bg-amber-100 text-amber-800">Upcoming</Badge>;
+    }
     if (progress === 100) {
       return <Badge variant="default" className="bg-green-100 text-green-800">Completed</Badge>;
     }
@@ -90,6 +146,15 @@ const Courses = () => {
         </Button>
       );
     }
+
+    if (status === 'prerequisites') {
+      return (
+        <Button variant="outline" disabled className="h-auto whitespace-normal text-left">
+          <Lock className="h-4 w-4 mr-2 flex-shrink-0" />
+          Available after {blockingCourses[course.id].join(', ')}
+        </Button>
+      );
+    }
     
     if (progress === 100) {
       return (
@@ -150,7 +215,8 @@ const Courses = () => {
           {courses.map((course) => {
             const status = getCourseStatus(course.id);
             const progress = getCourseProgress(course.id);
-            const isLocked = status === 'locked';
+            const isLocked = status === 'locked' || status === 'prerequisites';
+            const pathStep = pathSteps[course.id];
 
             return (
               <Card 
@@ -187,6 +253,12 @@ const Courses = () => {
                       <Clock className="h-4 w-4 mr-1" />
                       <span>Self-paced</span>
                     </div>
+                    {pathStep && (
+                      <div className="flex items-center">
+                        <Route className="h-4 w-4 mr-1" />
+                        <span>{pathStep.pathTitle} · Step {pathStep.position} of {pathStep.total}</span>
+                      </div>
+                    )}
                   </div>
 
                   {getActionButton(course, status, progress)}
@@ -11,6 +11,7 @@ import { Link } from 'react-router-dom';
 import { BookOpen, FileText, MessageSquare, Zap, Heart, Copy, TrendingUp, Users, Award } from 'lucide-react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchCourseOutline } from '@/lib/lessonAccess';
 
 const Dashboard = () => {
   const { user } = useAuth();
@@ -70,16 +71,12 @@ const Dashboard = () => {
         const courseId = enrollment.course_id;
         console.log('Processing course:', courseId);
 
-        // Get all lessons for this course ordered by order
-        const { data: lessons } = await supabase
-          .from('lessons')
-          .select('id, title, order, course_id')
-          .eq('course_id', courseId)
-          .order('order');
+        // Get all lessons for this course ordered by order, including locked ones
+        const lessons = await fetchCourseOutline(courseId);
 
         console.log('Lessons for course:', lessons);
 
-        if (!lessons || lessons.length === 0) continue;
+        if (lessons.length === 0) continue;
 
         // Get user progress for this course
         const { data: progress } = await supabase
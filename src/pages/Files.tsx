@@ -145,26 +145,9 @@ const Files = () => {
         .from('student-files')
         .createSignedUrl(storagePath, 300); // 5 minutes for download
 
+      // The bucket is private, so there is no public URL to fall back to
       if (error) {
         console.error('Error creating download URL:', error);
-        // Try with public URL as fallback
-        const { data: publicData } = supabase.storage
-          .from('student-files')
-          .getPublicUrl(storagePath);
-        
-        if (publicData.publicUrl) {
-          // Use a more Chrome-friendly download approach
-          const a = document.createElement('a');
-          a.href = publicData.publicUrl;
-          a.download = file.name;
-          a.style.display = 'none';
-          a.target = '_blank';
-          a.rel = 'noopener noreferrer';
-          document.body.appendChild(a);
-          a.click();
-          setTimeout(() => document.body.removeChild(a), 100);
-          return;
-        }
         return;
       }
 
@@ -1,21 +1,55 @@
 
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
-import { ArrowLeft, ArrowRight, CheckCircle } from 'lucide-react';
+import { useLessonTimeTracker } from '@/hooks/useLessonTimeTracker';
+import QuizPlayer, { QuizResult } from '@/components/QuizPlayer';
+import LessonBlockRenderer from '@/components/LessonBlockRenderer';
+import LessonNotesPanel from '@/components/LessonNotesPanel';
+import { LessonBlock, getMissingRequiredBlocks } from '@/lib/lessonBlocks';
+import { Certificate, downloadCertificate } from '@/lib/certificate';
+import { getLessonPdfUrl } from '@/lib/lessonMaterials';
+import {
+  fetchQuizSettings,
+  fetchCourseOutline,
+  fetchLockedLessonIds,
+  fetchEnrollmentDate,
+  getLessonLockReason,
+  getLessonReleaseDate,
+  formatReleaseCountdown,
+  isLessonPassed,
+  meetsPassMark,
+  LessonLockReason,
+  QuizSettings
+} from '@/lib/lessonAccess';
+import { toast } from 'sonner';
+import { ArrowLeft, ArrowRight, CheckCircle, Lock, Award, Download, CalendarClock } from 'lucide-react';
 
 const LessonViewer = () => {
   const { courseId, lessonId } = useParams();
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const pdfCardRef = useRef<HTMLDivElement>(null);
   const [lesson, setLesson] = useState<any>(null);
   const [nextLesson, setNextLesson] = useState<any>(null);
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  // Bookmarked PDF pages open via ?page=N
+  const [pdfPage, setPdfPage] = useState<number | null>(parseInt(searchParams.get('page') || '') || null);
+  const [blocks, setBlocks] = useState<LessonBlock[]>([]);
+  const [viewedBlockIds, setViewedBlockIds] = useState<string[]>([]);
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
   const [userProgress, setUserProgress] = useState<any>(null);
+  const [quizSettings, setQuizSettings] = useState<QuizSettings | null>(null);
+  const [lockReason, setLockReason] = useState<LessonLockReason>(null);
+  const [releaseDate, setReleaseDate] = useState<Date | null>(null);
   const [loading, setLoading] = useState(true);
 
+  useLessonTimeTracker(courseId, lessonId, !!lesson && !lockReason);
+
   useEffect(() => {
     if (courseId && lessonId && user) {
       fetchLessonData();
@@ -24,21 +58,17 @@ const LessonViewer = () => {
 
   const fetchLessonData = async () => {
     try {
+      // The outline lists locked lessons too; their full row and blocks are only readable once unlocked
+      const courseLessons = await fetchCourseOutline(courseId);
+      const lessonIndex = courseLessons.findIndex(l => l.id === lessonId);
+      const outlineLesson = lessonIndex >= 0 ? courseLessons[lessonIndex] : null;
+      const nextLessonData = lessonIndex >= 0 ? courseLessons[lessonIndex + 1] || null : null;
+
       // Fetch lesson details
       const { data: lessonData } = await supabase
         .from('lessons')
         .select('*')
         .eq('id', lessonId)
-        .single();
-
-      // Fetch next lesson
-      const { data: nextLessonData } = await supabase
-        .from('lessons')
-        .select('*')
-        .eq('course_id', courseId)
-        .gt('order', lessonData?.order || 0)
-        .order('order')
-        .limit(1)
         .maybeSingle();
 
       // Fetch user progress for this lesson
@@ -49,9 +79,59 @@ const LessonViewer = () => {
         .eq('user_id', user?.id)
         .maybeSingle();
 
-      setLesson(lessonData);
+      const settings = await fetchQuizSettings();
+
+      const { data: blocksData } = await supabase
+        .from('lesson_blocks')
+        .select('*')
+        .eq('lesson_id', lessonId)
+        .order('order');
+
+      const { data: blockViews } = await supabase
+        .from('lesson_block_views')
+        .select('block_id')
+        .eq('lesson_id', lessonId)
+        .eq('user_id', user?.id);
+
+      // Apply the same admin, schedule and sequence locks as the course page
+      const { data: courseProgress } = await supabase
+        .from('user_progress')
+        .select('lesson_id, completed, quiz_score')
+        .eq('course_id', courseId)
+        .eq('user_id', user?.id);
+
+      const lockedIds = await fetchLockedLessonIds(user.id, courseId);
+      const enrolledAt = await fetchEnrollmentDate(user.id, courseId);
+
+      const reason = getLessonLockReason(courseLessons, lessonIndex, courseProgress || [], lockedIds, settings, enrolledAt);
+      const lessonInCourse = outlineLesson && lessonData?.course_id === courseId ? lessonData : null;
+
+      // Locked lessons never get a link to their PDF
+      setPdfUrl(lessonInCourse && !reason ? await getLessonPdfUrl(lessonInCourse) : null);
+      // The database hides a lesson it considers locked even if the client-side check disagrees
+      setLockReason(reason || (outlineLesson && !lessonInCourse ? 'sequence' : null));
+      setReleaseDate(outlineLesson ? getLessonReleaseDate(outlineLesson, enrolledAt) : null);
+      setLesson(lessonInCourse || outlineLesson);
+      // Passing every lesson earns a certificate; issuing is idempotent
+      const courseComplete = courseLessons.length > 0 && courseLessons.every(courseLesson =>
+        isLessonPassed(courseLesson, courseProgress?.find(p => p.lesson_id === courseLesson.id), settings)
+      );
+      if (courseComplete) {
+        const { data: certificateData, error: certificateError } = await supabase
+          .rpc('issue_certificate', { p_course_id: courseId });
+        if (certificateError) {
+          console.error('Error issuing certificate:', certificateError);
+        }
+        setCertificate(certificateData || null);
+      } else {
+        setCertificate(null);
+      }
+
+      setBlocks(blocksData || []);
+      setViewedBlockIds((blockViews || []).map(view => view.block_id));
       setNextLesson(nextLessonData);
       setUserProgress(progressData);
+      setQuizSettings(settings);
     } catch (error) {
       console.error('Error fetching lesson data:', error);
     } finally {
@@ -59,34 +139,58 @@ const LessonViewer = () => {
     }
   };
 
+  const recordBlockView = useCallback(async (blockId: string) => {
+    setViewedBlockIds(prev => (prev.includes(blockId) ? prev : [...prev, blockId]));
+
+    const { error } = await supabase
+      .from('lesson_block_views')
+      .upsert(
+        { user_id: user?.id, block_id: blockId, lesson_id: lessonId },
+        { onConflict: 'user_id,block_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Error recording block view:', error);
+    }
+  }, [user?.id, lessonId]);
+
   const markComplete = async () => {
+    if (!meetsPassMark(lesson, userProgress, quizSettings)) {
+      toast.error(`Score at least ${quizSettings?.pass_mark_percentage}% on the quiz to complete this lesson`);
+      return;
+    }
+
+    if (getMissingRequiredBlocks(blocks, viewedBlockIds).length > 0) {
+      toast.error('View all required content before completing this lesson');
+      return;
+    }
+
     try {
-      if (userProgress) {
-        // Update existing progress
-        await supabase
-          .from('user_progress')
-          .update({ completed: true, pdf_viewed: true })
-          .eq('id', userProgress.id);
-      } else {
-        // Create new progress record
-        await supabase
-          .from('user_progress')
-          .insert({
-            user_id: user?.id,
-            course_id: courseId,
-            lesson_id: lessonId,
-            completed: true,
-            pdf_viewed: true
-          });
-      }
-      
+      const { error } = await supabase.rpc('complete_lesson', { p_lesson_id: lessonId });
+      if (error) throw error;
+
       // Refresh data
       fetchLessonData();
     } catch (error) {
+      toast.error('Failed to mark lesson complete');
       console.error('Error marking lesson complete:', error);
     }
   };
 
+  // Graded and recorded by the database; quiz_score keeps the student's best attempt
+  const handleQuizSubmit = async (answers: Record<string, number>): Promise<QuizResult> => {
+    const { data, error } = await supabase.rpc('submit_quiz', { p_lesson_id: lessonId, p_answers: answers });
+    if (error) throw error;
+
+    fetchLessonData();
+    return { score: data[0].score, correctQuestionIds: data[0].correct_question_ids };
+  };
+
+  const openPdfPage = (page: number) => {
+    setPdfPage(page);
+    pdfCardRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
+
   const goToNextLesson = () => {
     if (nextLesson) {
       navigate(`/courses/${courseId}/lessons/${nextLesson.id}`);
@@ -117,6 +221,42 @@ const LessonViewer = () => {
     return <div className="p-6 text-foreground">Lesson not found</div>;
   }
 
+  if (lockReason) {
+    return (
+      <div className="p-6">
+        <Card className="max-w-xl mx-auto">
+          <CardContent className="text-center py-12">
+            {lockReason === 'scheduled' ? (
+              <CalendarClock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            ) : (
+              <Lock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            )}
+            <h3 className="text-lg font-medium text-foreground mb-2">
+              {lockReason === 'scheduled' && releaseDate
+                ? formatReleaseCountdown(releaseDate)
+                : 'This lesson is locked'}
+            </h3>
+            <p className="text-muted-foreground mb-6">
+              {lockReason === 'admin'
+                ? 'Your instructor has locked this lesson. Please check back later.'
+                : lockReason === 'scheduled' && releaseDate
+                  ? `This lesson will be released on ${releaseDate.toLocaleString()}.`
+                  : 'Complete the previous lesson to unlock this one.'}
+            </p>
+            <Button variant="outline" onClick={() => navigate(`/courses/${courseId}`)}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Course
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const passMarkMet = meetsPassMark(lesson, userProgress, quizSettings);
+  const missingBlocks = getMissingRequiredBlocks(blocks, viewedBlockIds);
+  const canComplete = passMarkMet && missingBlocks.length === 0;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -149,26 +289,39 @@ const LessonViewer = () => {
       <div className="flex-1 p-6">
         <div className="max-w-5xl mx-auto space-y-6">
           {/* PDF Viewer */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-card-foreground">Lesson Content</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="w-full h-[600px] border rounded-lg">
-                {lesson.pdf_url ? (
-                  <iframe
-                    src={lesson.pdf_url}
-                    className="w-full h-full rounded-lg"
-                    title="Lesson PDF"
-                  />
-                ) : (
-                  <div className="flex items-center justify-center h-full bg-muted rounded-lg">
-                    <p className="text-muted-foreground">No PDF content available</p>
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
+          {(pdfUrl || blocks.length === 0) && (
+            <Card ref={pdfCardRef}>
+              <CardHeader>
+                <CardTitle className="text-card-foreground">Lesson Content</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="w-full h-[600px] border rounded-lg">
+                  {pdfUrl ? (
+                    <iframe
+                      key={pdfPage || 'pdf'}
+                      src={pdfPage ? `${pdfUrl}#page=${pdfPage}` : pdfUrl}
+                      className="w-full h-full rounded-lg"
+                      title="Lesson PDF"
+                    />
+                  ) : (
+                    <div className="flex items-center justify-center h-full bg-muted rounded-lg">
+                      <p className="text-muted-foreground">No PDF content available</p>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Content Blocks */}
+          {blocks.map((block) => (
+            <LessonBlockRenderer
+              key={block.id}
+              block={block}
+              viewed={viewedBlockIds.includes(block.id)}
+              onViewed={recordBlockView}
+            />
+          ))}
 
           {/* Instructor Notes */}
           {lesson.instructor_notes && (
@@ -187,6 +340,24 @@ const LessonViewer = () => {
             </Card>
           )}
 
+          {/* Personal Notes & Bookmarks */}
+          <LessonNotesPanel
+            courseId={courseId as string}
+            lessonId={lessonId as string}
+            hasPdf={!!pdfUrl}
+            onOpenPdfPage={openPdfPage}
+          />
+
+          {/* Lesson Quiz */}
+          {lesson.quiz_set_id && (
+            <QuizPlayer
+              quizSetId={lesson.quiz_set_id}
+              bestScore={userProgress?.quiz_score ?? null}
+              attempts={userProgress?.quiz_attempts || 0}
+              onSubmit={handleQuizSubmit}
+            />
+          )}
+
           {/* Next Lesson Card - Shows after completion */}
           {userProgress?.completed && nextLesson && (
             <Card className="border-green-200 bg-green-50 dark:bg-green-900/20 dark:border-green-800">
@@ -214,17 +385,56 @@ const LessonViewer = () => {
               </CardContent>
             </Card>
           )}
+
+          {/* Certificate Card - Shows once every lesson in the course is complete */}
+          {certificate && (
+            <Card className="border-green-200 bg-green-50 dark:bg-green-900/20 dark:border-green-800">
+              <CardHeader>
+                <CardTitle className="text-green-800 dark:text-green-200 flex items-center">
+                  <Award className="h-5 w-5 mr-2" />
+                  Course Complete!
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-green-700 dark:text-green-300 mb-2">
+                      Congratulations! You've completed <strong>{certificate.course_title}</strong>.
+                    </p>
+                    <p className="text-sm text-green-600 dark:text-green-400">
+                      Verification code: <span className="font-mono">{certificate.verification_code}</span>
+                    </p>
+                  </div>
+                  <Button onClick={() => downloadCertificate(certificate)} className="bg-green-600 hover:bg-green-700">
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Certificate
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
 
       {/* Footer Actions */}
       <div className="bg-card border-t px-6 py-4">
         <div className="max-w-5xl mx-auto flex items-center justify-between">
-          <div />
+          <div>
+            {!userProgress?.completed && !passMarkMet && (
+              <p className="text-sm text-muted-foreground">
+                Score at least {quizSettings?.pass_mark_percentage}% on the quiz to complete this lesson.
+              </p>
+            )}
+            {!userProgress?.completed && missingBlocks.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                View the required content ({missingBlocks.map(block => block.title || 'untitled block').join(', ')}) to complete this lesson.
+              </p>
+            )}
+          </div>
           
           <div className="flex items-center space-x-3">
             {!userProgress?.completed && (
-              <Button onClick={markComplete}>
+              <Button onClick={markComplete} disabled={!canComplete}>
                 Mark Complete
               </Button>
             )}
@@ -232,7 +442,7 @@ const LessonViewer = () => {
             {!nextLesson && userProgress?.completed && (
               <div className="text-sm text-green-600 flex items-center">
                 <CheckCircle className="h-4 w-4 mr-1" />
-                Course Complete! New lessons coming soon.
+                {certificate ? 'Course Complete! Your certificate is ready.' : 'Course Complete! New lessons coming soon.'}
               </div>
             )}
           </div>
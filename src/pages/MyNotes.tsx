@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  NotesCourseGroup,
+  buildNotesMarkdown,
+  downloadMarkdown,
+  getLessonLink
+} from '@/lib/notesMarkdown';
+import { format } from 'date-fns';
+import { BookmarkCheck, BookOpen, Download, NotebookPen, Search } from 'lucide-react';
+
+const MyNotes = () => {
+  const { user } = useAuth();
+  const [groups, setGroups] = useState<NotesCourseGroup[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const fetchNotes = useCallback(async () => {
+    try {
+      const { data: notes, error: notesError } = await supabase
+        .from('lesson_notes')
+        .select('content, updated_at, lesson_id, course_id, lessons (title, order), courses (title)')
+        .eq('user_id', user?.id);
+
+      if (notesError) throw notesError;
+
+      const { data: bookmarks, error: bookmarksError } = await supabase
+        .from('lesson_bookmarks')
+        .select('pdf_page, label, lesson_id, course_id, lessons (title, order), courses (title)')
+        .eq('user_id', user?.id);
+
+      if (bookmarksError) throw bookmarksError;
+
+      // Merge notes and bookmarks into course -> lesson groups
+      const courseMap = new Map<string, NotesCourseGroup>();
+      const getLessonEntry = (row: (typeof notes)[number] | (typeof bookmarks)[number]) => {
+        if (!courseMap.has(row.course_id)) {
+          courseMap.set(row.course_id, {
+            courseId: row.course_id,
+            courseTitle: row.courses?.title || 'Unknown Course',
+            lessons: []
+          });
+        }
+        const group = courseMap.get(row.course_id)!;
+        let entry = group.lessons.find(lesson => lesson.lessonId === row.lesson_id);
+        if (!entry) {
+          entry = {
+            lessonId: row.lesson_id,
+            lessonTitle: row.lessons?.title || 'Unknown Lesson',
+            lessonOrder: row.lessons?.order || 0,
+            content: '',
+            updatedAt: null,
+            bookmarkedLesson: false,
+            pageBookmarks: []
+          };
+          group.lessons.push(entry);
+        }
+        return entry;
+      };
+
+      (notes || []).filter(note => note.content.trim()).forEach(note => {
+        const entry = getLessonEntry(note);
+        entry.content = note.content;
+        entry.updatedAt = note.updated_at;
+      });
+
+      (bookmarks || []).forEach(bookmark => {
+        const entry = getLessonEntry(bookmark);
+        if (bookmark.pdf_page === null) {
+          entry.bookmarkedLesson = true;
+        } else {
+          entry.pageBookmarks.push({ page: bookmark.pdf_page, label: bookmark.label });
+        }
+      });
+
+      const sortedGroups = [...courseMap.values()]
+        .sort((a, b) => a.courseTitle.localeCompare(b.courseTitle))
+        .map(group => ({
+          ...group,
+          lessons: group.lessons
+            .sort((a, b) => a.lessonOrder - b.lessonOrder)
+            .map(lesson => ({ ...lesson, pageBookmarks: lesson.pageBookmarks.sort((a, b) => a.page - b.page) }))
+        }));
+
+      setGroups(sortedGroups);
+    } catch (error) {
+      console.error('Error fetching notes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchNotes();
+    }
+  }, [user, fetchNotes]);
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredGroups = term
+    ? groups
+        .map(group => ({
+          ...group,
+          lessons: group.lessons.filter(lesson =>
+            group.courseTitle.toLowerCase().includes(term) ||
+            lesson.lessonTitle.toLowerCase().includes(term) ||
+            lesson.content.toLowerCase().includes(term) ||
+            lesson.pageBookmarks.some(bookmark => bookmark.label.toLowerCase().includes(term))
+          )
+        }))
+        .filter(group => group.lessons.length > 0)
+    : groups;
+
+  const handleExport = () => {
+    downloadMarkdown(`my-notes-${format(new Date(), 'yyyy-MM-dd')}.md`, buildNotesMarkdown(filteredGroups));
+  };
+
+  if (loading) {
+    return <div className="p-6">Loading notes...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">My Notes</h1>
+          <p className="text-muted-foreground">Your private lesson notes and bookmarks across all courses</p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={filteredGroups.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export Markdown
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search notes..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      {filteredGroups.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <NotebookPen className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">
+              {groups.length === 0
+                ? 'No notes yet. Open a lesson and use the My Notes panel to start writing.'
+                : 'No notes match your search.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        filteredGroups.map((group) => (
+          <Card key={group.courseId}>
+            <CardHeader>
+              <CardTitle>{group.courseTitle}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {group.lessons.map((lesson) => (
+                <div key={lesson.lessonId} className="border rounded-lg p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Link
+                      to={getLessonLink(group.courseId, lesson.lessonId)}
+                      className="font-medium hover:underline flex items-center"
+                    >
+                      {lesson.bookmarkedLesson && <BookmarkCheck className="h-4 w-4 mr-2 text-primary" />}
+                      {lesson.lessonOrder}. {lesson.lessonTitle}
+                    </Link>
+                    {lesson.updatedAt && (
+                      <span className="text-xs text-muted-foreground">
+                        Edited {format(new Date(lesson.updatedAt), 'MMM d, yyyy')}
+                      </span>
+                    )}
+                  </div>
+                  {lesson.pageBookmarks.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {lesson.pageBookmarks.map((bookmark) => (
+                        <Link
+                          key={bookmark.page}
+                          to={getLessonLink(group.courseId, lesson.lessonId, bookmark.page)}
+                          className="text-xs border rounded px-2 py-1 flex items-center hover:bg-accent"
+                        >
+                          <BookOpen className="h-3 w-3 mr-1" />
+                          Page {bookmark.page}{bookmark.label ? ` - ${bookmark.label}` : ''}
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+                  {lesson.content && (
+                    <p className="text-sm whitespace-pre-wrap text-foreground">{lesson.content}</p>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default MyNotes;
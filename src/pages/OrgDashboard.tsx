@@ -0,0 +1,278 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useOrgManagerAuth } from '@/hooks/useOrgManagerAuth';
+import { formatDuration } from '@/lib/utils';
+import { formatCertificateDate } from '@/lib/certificate';
+import { Users, TrendingUp, Clock, Award } from 'lucide-react';
+
+// Read-only view for organization managers. Row-level security limits every query
+// below to members of the manager's own organization.
+const OrgDashboard = () => {
+  const { organizationId, user } = useOrgManagerAuth();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['org-dashboard', organizationId],
+    queryFn: async () => {
+      const { data: organization, error: organizationError } = await supabase
+        .from('organizations')
+        .select('name')
+        .eq('id', organizationId)
+        .single();
+      if (organizationError) throw organizationError;
+
+      const { data: members, error: membersError } = await supabase
+        .from('profiles')
+        .select('id, name, email, organization_role')
+        .eq('organization_id', organizationId)
+        .eq('role', 'student')
+        .order('name');
+      if (membersError) throw membersError;
+
+      const memberIds = (members || []).map(member => member.id);
+
+      const { data: assignments, error: assignmentsError } = await supabase
+        .from('user_course_assignments')
+        .select('user_id, course_id, courses!user_course_assignments_course_id_fkey(title)')
+        .in('user_id', memberIds);
+      if (assignmentsError) throw assignmentsError;
+
+      const courseIds = [...new Set((assignments || []).map(assignment => assignment.course_id))];
+
+      const { data: lessons, error: lessonsError } = await supabase
+        .from('lessons')
+        .select('id, course_id')
+        .in('course_id', courseIds);
+      if (lessonsError) throw lessonsError;
+
+      const { data: progress, error: progressError } = await supabase
+        .from('user_progress')
+        .select('user_id, course_id, completed, time_spent')
+        .in('user_id', memberIds);
+      if (progressError) throw progressError;
+
+      const { data: services, error: servicesError } = await supabase
+        .from('user_services')
+        .select('id, user_id, status, services!user_services_service_id_fkey(title)')
+        .in('user_id', memberIds);
+      if (servicesError) throw servicesError;
+
+      const { data: certificates, error: certificatesError } = await supabase
+        .from('certificates')
+        .select('id, user_id, course_title, completed_at')
+        .in('user_id', memberIds)
+        .order('completed_at', { ascending: false });
+      if (certificatesError) throw certificatesError;
+
+      return {
+        organizationName: organization?.name,
+        members: members || [],
+        assignments: assignments || [],
+        lessons: lessons || [],
+        progress: progress || [],
+        services: services || [],
+        certificates: certificates || []
+      };
+    },
+    enabled: !!organizationId && !!user,
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const getCoursePercentage = (userId: string, courseId: string) => {
+    const lessonCount = data.lessons.filter(lesson => lesson.course_id === courseId).length;
+    if (lessonCount === 0) return 0;
+    const completed = data.progress.filter(p =>
+      p.user_id === userId && p.course_id === courseId && p.completed
+    ).length;
+    return Math.round((completed / lessonCount) * 100);
+  };
+
+  const memberRows = data.members.map(member => {
+    const courses = data.assignments
+      .filter(assignment => assignment.user_id === member.id)
+      .map(assignment => ({
+        courseId: assignment.course_id,
+        title: assignment.courses?.title || 'Unknown Course',
+        percentage: getCoursePercentage(member.id, assignment.course_id)
+      }));
+    const overall = courses.length
+      ? Math.round(courses.reduce((total, course) => total + course.percentage, 0) / courses.length)
+      : 0;
+    const timeSpent = data.progress
+      .filter(p => p.user_id === member.id)
+      .reduce((total, p) => total + (p.time_spent || 0), 0);
+
+    return {
+      member,
+      courses,
+      overall,
+      timeSpent,
+      services: data.services.filter(service => service.user_id === member.id),
+      certificates: data.certificates.filter(certificate => certificate.user_id === member.id)
+    };
+  });
+
+  const enrolledRows = memberRows.filter(row => row.courses.length > 0);
+  const averageProgress = enrolledRows.length
+    ? Math.round(enrolledRows.reduce((total, row) => total + row.overall, 0) / enrolledRows.length)
+    : 0;
+  const totalTimeSpent = memberRows.reduce((total, row) => total + row.timeSpent, 0);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">{data.organizationName}</h1>
+        <p className="text-muted-foreground">Learning progress for your organization's members</p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <Card>
+          <CardContent className="p-6 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Members</p>
+              <p className="text-3xl font-bold text-primary">{data.members.length}</p>
+            </div>
+            <Users className="h-10 w-10 text-primary opacity-80" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Average Progress</p>
+              <p className="text-3xl font-bold text-primary">{averageProgress}%</p>
+            </div>
+            <TrendingUp className="h-10 w-10 text-primary opacity-80" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Time Spent</p>
+              <p className="text-3xl font-bold text-primary">{formatDuration(totalTimeSpent)}</p>
+            </div>
+            <Clock className="h-10 w-10 text-primary opacity-80" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Certificates</p>
+              <p className="text-3xl font-bold text-primary">{data.certificates.length}</p>
+            </div>
+            <Award className="h-10 w-10 text-primary opacity-80" />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Members */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Members ({data.members.length})</CardTitle>
+          <CardDescription>Course progress, learning time, services and certificates per member</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {memberRows.length === 0 ? (
+            <div className="text-center py-8">
+              <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No members in your organization yet</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Courses</TableHead>
+                  <TableHead>Time Spent</TableHead>
+                  <TableHead>Services</TableHead>
+                  <TableHead>Certificates</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {memberRows.map(({ member, courses, overall, timeSpent, services, certificates }) => (
+                  <TableRow key={member.id}>
+                    <TableCell>
+                      <p className="font-medium">{member.name}</p>
+                      <p className="text-xs text-muted-foreground">{member.email}</p>
+                      {member.organization_role && (
+                        <p className="text-xs text-muted-foreground">{member.organization_role}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {courses.length === 0 ? (
+                        <span className="text-xs text-muted-foreground">No courses</span>
+                      ) : (
+                        <div className="space-y-2 w-56">
+                          {courses.map(course => (
+                            <div key={course.courseId} className="space-y-1">
+                              <div className="flex justify-between text-xs">
+                                <span className="truncate mr-2">{course.title}</span>
+                                <span className="text-muted-foreground">{course.percentage}%</span>
+                              </div>
+                              <Progress value={course.percentage} className="h-2" />
+                            </div>
+                          ))}
+                          {courses.length > 1 && (
+                            <p className="text-xs text-muted-foreground">Overall {overall}%</p>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm">{formatDuration(timeSpent)}</span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {services.map(service => (
+                          <Badge
+                            key={service.id}
+                            variant={service.status === 'active' ? 'default' : 'secondary'}
+                            className="text-xs"
+                          >
+                            {service.services?.title} · {service.status}
+                          </Badge>
+                        ))}
+                        {services.length === 0 && (
+                          <span className="text-xs text-muted-foreground">No services</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        {certificates.map(certificate => (
+                          <div key={certificate.id} className="flex items-center space-x-1 text-xs">
+                            <Award className="h-3 w-3 text-primary" />
+                            <span>{certificate.course_title}</span>
+                            <span className="text-muted-foreground">
+                              · {formatCertificateDate(certificate.completed_at)}
+                            </span>
+                          </div>
+                        ))}
+                        {certificates.length === 0 && (
+                          <span className="text-xs text-muted-foreground">None yet</span>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default OrgDashboard;
@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,12 +7,18 @@ import { Label } from '@/components/ui/label';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { Certificate, downloadCertificate, formatCertificateDate } from '@/lib/certificate';
+import { validateNewPassword } from '@/lib/passwords';
+import NewPasswordFields from '@/components/NewPasswordFields';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import ActiveSessions from '@/components/ActiveSessions';
 import { toast } from 'sonner';
-import { User, Mail, Building, Edit, Camera, Save, X } from 'lucide-react';
+import { User, Mail, Building, Edit, Camera, Save, X, Award, Download, KeyRound } from 'lucide-react';
 
 const Profile = () => {
   const { user } = useAuth();
   const [profile, setProfile] = useState<any>(null);
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
@@ -23,14 +29,12 @@ const Profile = () => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [passwordForm, setPasswordForm] = useState({ nonce: '', password: '', confirmPassword: '' });
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [sendingCode, setSendingCode] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
 
-  useEffect(() => {
-    if (user) {
-      fetchProfile();
-    }
-  }, [user]);
-
-  const fetchProfile = async () => {
+  const fetchProfile = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('profiles')
@@ -52,7 +56,29 @@ const Profile = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [user]);
+
+  const fetchCertificates = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('certificates')
+      .select('*')
+      .eq('user_id', user?.id)
+      .order('completed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching certificates:', error);
+      return;
+    }
+
+    setCertificates(data || []);
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchProfile();
+      fetchCertificates();
+    }
+  }, [user, fetchProfile, fetchCertificates]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -80,6 +106,55 @@ const Profile = () => {
     }
   };
 
+  // Emails a one-time code; Auth only accepts the new password together with it, so an
+  // unattended session can't be used to take over the account
+  const handleSendCode = async () => {
+    setSendingCode(true);
+
+    try {
+      const { error } = await supabase.auth.reauthenticate();
+      if (error) throw error;
+
+      setCodeSent(true);
+      toast.success(`Verification code sent to ${user?.email}`);
+    } catch (error: any) {
+      console.error('Error sending verification code:', error);
+      toast.error(`Failed to send verification code: ${error.message}`);
+    } finally {
+      setSendingCode(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.email) return;
+
+    const validationError = validateNewPassword(passwordForm.password, passwordForm.confirmPassword);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setChangingPassword(true);
+
+    try {
+      const { error } = await supabase.auth.updateUser({
+        password: passwordForm.password,
+        nonce: passwordForm.nonce.trim(),
+      });
+      if (error) throw error;
+
+      setPasswordForm({ nonce: '', password: '', confirmPassword: '' });
+      setCodeSent(false);
+      toast.success('Password changed successfully!');
+    } catch (error: any) {
+      console.error('Error changing password:', error);
+      toast.error(`Failed to change password: ${error.message}`);
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
@@ -256,9 +331,16 @@ const Profile = () => {
                 value={formData.organization}
                 onChange={(e) => handleInputChange('organization', e.target.value)}
                 placeholder="Enter your organization"
-                disabled={!isEditing}
-                className={!isEditing ? "bg-muted" : ""}
+                disabled={!isEditing || !!profile?.organization_id}
+                className={!isEditing || profile?.organization_id ? "bg-muted" : ""}
               />
+              {profile?.organization_id && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {profile.role === 'org_manager'
+                    ? 'Contact an admin to change the organization you manage.'
+                    : 'Contact an admin to change your organization.'}
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -317,6 +399,91 @@ const Profile = () => {
           </div>
         </CardContent>
       </Card>
+
+      {/* Security */}
+      <h2 className="text-xl font-semibold text-foreground pt-2">Security</h2>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <KeyRound className="h-5 w-5" />
+            <span>Change Password</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangePassword} className="space-y-4 max-w-md">
+            <div className="space-y-2">
+              <Label htmlFor="password-nonce">Verification Code</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="password-nonce"
+                  value={passwordForm.nonce}
+                  onChange={(e) => setPasswordForm(prev => ({ ...prev, nonce: e.target.value }))}
+                  autoComplete="one-time-code"
+                  inputMode="numeric"
+                  disabled={changingPassword || !codeSent}
+                  required
+                />
+                <Button type="button" variant="outline" onClick={handleSendCode} disabled={sendingCode || changingPassword}>
+                  {sendingCode ? 'Sending...' : codeSent ? 'Resend Code' : 'Send Code'}
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                We'll email a code to {user?.email} to confirm it's you.
+              </p>
+            </div>
+            <NewPasswordFields
+              password={passwordForm.password}
+              confirmPassword={passwordForm.confirmPassword}
+              onPasswordChange={(value) => setPasswordForm(prev => ({ ...prev, password: value }))}
+              onConfirmPasswordChange={(value) => setPasswordForm(prev => ({ ...prev, confirmPassword: value }))}
+              disabled={changingPassword}
+            />
+            <Button type="submit" disabled={changingPassword || !codeSent}>
+              {changingPassword ? 'Changing...' : 'Change Password'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <TwoFactorSettings />
+
+      <ActiveSessions />
+
+      {/* Certificates */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Certificates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {certificates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Complete every lesson in a course to earn its certificate.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {certificates.map((certificate) => (
+                <div key={certificate.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div className="flex items-center space-x-3">
+                    <Award className="h-5 w-5 text-primary" />
+                    <div>
+                      <p className="font-medium">{certificate.course_title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Completed {formatCertificateDate(certificate.completed_at)} · Code{' '}
+                        <span className="font-mono">{certificate.verification_code}</span>
+                      </p>
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => downloadCertificate(certificate)}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import NewPasswordFields from '@/components/NewPasswordFields';
+import { validateNewPassword } from '@/lib/passwords';
+import { toast } from 'sonner';
+import { Loader2, KeyRound } from 'lucide-react';
+
+const EXPIRED_LINK_MESSAGE = 'This password reset link is invalid or has expired. Request a new one from the sign-in page.';
+
+// Landing page for reset emails. The Supabase client exchanges the link for a recovery
+// session on load; failed links come back with an error in the URL instead.
+const ResetPassword = () => {
+  const [checking, setChecking] = useState(true);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.hash.slice(1) || window.location.search);
+    if (params.get('error') || params.get('error_code')) {
+      console.error('Password reset link error:', params.get('error_description'));
+      setLinkError(EXPIRED_LINK_MESSAGE);
+      setChecking(false);
+      return;
+    }
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        setLinkError(null);
+        setChecking(false);
+      }
+    });
+
+    // getSession waits for the client to finish reading the link from the URL
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        setLinkError(EXPIRED_LINK_MESSAGE);
+      }
+      setChecking(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validateNewPassword(password, confirmPassword);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) {
+        if (error.message.toLowerCase().includes('session')) {
+          setLinkError(EXPIRED_LINK_MESSAGE);
+        } else {
+          toast.error(error.message);
+        }
+        return;
+      }
+
+      toast.success('Your password has been updated');
+      navigate('/dashboard');
+    } catch (error: any) {
+      toast.error('An unexpected error occurred. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/10 via-background to-primary/5 flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-8">
+        {/* Logo */}
+        <div className="text-center">
+          <div className="w-20 h-20 bg-primary rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <span className="text-white font-bold text-2xl">AI</span>
+          </div>
+          <h1 className="text-3xl font-bold text-foreground">AIDM</h1>
+          <p className="text-muted-foreground mt-2">AI Data Management Client Portal</p>
+        </div>
+
+        {checking ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : linkError ? (
+          <Card>
+            <CardHeader className="text-center">
+              <div className="w-16 h-16 bg-destructive/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                <KeyRound className="h-8 w-8 text-destructive" />
+              </div>
+              <CardTitle>Link Expired</CardTitle>
+              <CardDescription>{linkError}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link to="/auth">
+                <Button variant="outline" className="w-full">Back to Sign In</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Set a New Password</CardTitle>
+              <CardDescription>Enter your new password twice to finish resetting it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <NewPasswordFields
+                  password={password}
+                  confirmPassword={confirmPassword}
+                  onPasswordChange={setPassword}
+                  onConfirmPasswordChange={setConfirmPassword}
+                  disabled={isLoading}
+                />
+
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Update Password
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { formatCertificateDate } from '@/lib/certificate';
+import { Award, XCircle } from 'lucide-react';
+
+type VerifiedCertificate = {
+  student_name: string;
+  course_title: string;
+  completed_at: string;
+};
+
+const VerifyCertificate = () => {
+  const { code } = useParams();
+  const [certificate, setCertificate] = useState<VerifiedCertificate | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const verify = async () => {
+      const { data, error } = await supabase.rpc('verify_certificate', { p_code: code || '' });
+
+      if (error) {
+        console.error('Error verifying certificate:', error);
+      }
+
+      setCertificate(data?.[0] || null);
+      setLoading(false);
+    };
+
+    verify();
+  }, [code]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-6">
+      <Card className="max-w-lg w-full">
+        <CardHeader>
+          <CardTitle className="text-center">Certificate Verification</CardTitle>
+        </CardHeader>
+        <CardContent className="text-center space-y-4">
+          {loading ? (
+            <p className="text-muted-foreground">Checking certificate...</p>
+          ) : certificate ? (
+            <>
+              <Award className="h-12 w-12 text-[#0D5C4B] mx-auto" />
+              <p className="text-lg font-medium">This certificate is valid</p>
+              <div className="bg-muted p-4 rounded-md text-left space-y-1 text-sm">
+                <p><span className="text-muted-foreground">Awarded to:</span> {certificate.student_name}</p>
+                <p><span className="text-muted-foreground">Course:</span> {certificate.course_title}</p>
+                <p><span className="text-muted-foreground">Completed:</span> {formatCertificateDate(certificate.completed_at)}</p>
+                <p><span className="text-muted-foreground">Code:</span> <span className="font-mono">{code}</span></p>
+              </div>
+            </>
+          ) : (
+            <>
+              <XCircle className="h-12 w-12 text-destructive mx-auto" />
+              <p className="text-lg font-medium">Certificate not found</p>
+              <p className="text-sm text-muted-foreground">
+                No certificate matches the code <span className="font-mono">{code}</span>.
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyCertificate;
@@ -0,0 +1,30 @@
+// Assurance level of a caller's access token: 'aal2' once they have passed their second
+// factor in this session. Only call this after auth.getUser has accepted the token.
+export const getTokenAal = (token: string) => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    return JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, '='))).aal ?? 'aal1'
+  } catch {
+    return 'aal1'
+  }
+}
+
+// Mirrors staff_mfa_satisfied(): an aal2 session, or no second factor owed because staff
+// MFA is not required and the user has not enrolled one
+// deno-lint-ignore no-explicit-any
+export const staffMfaSatisfied = async (supabaseAdmin: any, token: string, userId: string) => {
+  if (getTokenAal(token) === 'aal2') {
+    return true
+  }
+
+  const [{ data: settings, error: settingsError }, { data: factorList, error: factorsError }] = await Promise.all([
+    supabaseAdmin.from('security_settings').select('require_staff_mfa').order('created_at').limit(1).maybeSingle(),
+    supabaseAdmin.auth.admin.mfa.listFactors({ userId })
+  ])
+
+  if (settingsError) throw settingsError
+  if (factorsError) throw factorsError
+
+  // deno-lint-ignore no-explicit-any
+  return !settings?.require_staff_mfa && !factorList.factors.some((factor: any) => factor.status === 'verified')
+}
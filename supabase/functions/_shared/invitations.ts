@@ -0,0 +1,55 @@
+// Invite links are valid for a week and work once; only the token hash is stored
+export const INVITE_EXPIRY_DAYS = 7
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('')
+
+export const hashInviteToken = async (token: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)))
+
+// Links point back at the portal the admin is using, falling back to SITE_URL
+export const getSiteUrl = (req: Request) =>
+  req.headers.get('origin') ?? Deno.env.get('SITE_URL') ?? ''
+
+// Revokes any open invitation for the user and issues a fresh one
+// deno-lint-ignore no-explicit-any
+export const issueInvitation = async (supabaseAdmin: any, options: {
+  userId: string
+  email: string
+  createdBy: string
+  siteUrl: string
+}) => {
+  const token = toHex(crypto.getRandomValues(new Uint8Array(32)).buffer)
+  const expiresAt = new Date()
+  expiresAt.setDate(expiresAt.getDate() + INVITE_EXPIRY_DAYS)
+
+  const { error: revokeError } = await supabaseAdmin
+    .from('user_invitations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', options.userId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+
+  if (revokeError) {
+    throw revokeError
+  }
+
+  const { error: insertError } = await supabaseAdmin
+    .from('user_invitations')
+    .insert({
+      user_id: options.userId,
+      email: options.email,
+      token_hash: await hashInviteToken(token),
+      created_by: options.createdBy,
+      expires_at: expiresAt.toISOString()
+    })
+
+  if (insertError) {
+    throw insertError
+  }
+
+  return {
+    invite_url: `${options.siteUrl}/accept-invite?token=${token}`,
+    expires_at: expiresAt.toISOString()
+  }
+}
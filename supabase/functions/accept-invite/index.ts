@@ -0,0 +1,124 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { hashInviteToken } from '../_shared/invitations.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MIN_PASSWORD_LENGTH = 6
+
+// Public endpoint: the invite token is the credential. Without a password it only
+// checks the token; with one it sets the password and uses up the invitation.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { token, password } = await req.json()
+
+    if (!token) {
+      throw new Error('Invite token is required')
+    }
+
+    const { data: invitation, error: invitationError } = await supabaseAdmin
+      .from('user_invitations')
+      .select('id, user_id, email, expires_at, accepted_at, revoked_at')
+      .eq('token_hash', await hashInviteToken(token))
+      .maybeSingle()
+
+    if (invitationError) {
+      throw invitationError
+    }
+
+    if (!invitation || invitation.revoked_at) {
+      throw new Error('This invite link is no longer valid. Ask your administrator for a new one.')
+    }
+
+    if (invitation.accepted_at) {
+      throw new Error('This invite link has already been used. Sign in with your password instead.')
+    }
+
+    if (new Date(invitation.expires_at) < new Date()) {
+      throw new Error('This invite link has expired. Ask your administrator for a new one.')
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('name, deactivated_at')
+      .eq('id', invitation.user_id)
+      .single()
+
+    if (profile?.deactivated_at) {
+      throw new Error('This account has been deactivated. Please contact your administrator.')
+    }
+
+    if (!password) {
+      return new Response(
+        JSON.stringify({ email: invitation.email, name: profile?.name }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        },
+      )
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long`)
+    }
+
+    // Claim the invitation first so the same link cannot be used twice concurrently
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('user_invitations')
+      .update({ accepted_at: new Date().toISOString() })
+      .eq('id', invitation.id)
+      .is('accepted_at', null)
+      .select('id')
+
+    if (claimError) {
+      throw claimError
+    }
+
+    if (!claimed?.length) {
+      throw new Error('This invite link has already been used. Sign in with your password instead.')
+    }
+
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(invitation.user_id, {
+      password,
+      email_confirm: true
+    })
+
+    if (updateError) {
+      // Give the link back so the student can retry with a different password
+      await supabaseAdmin
+        .from('user_invitations')
+        .update({ accepted_at: null })
+        .eq('id', invitation.id)
+      throw updateError
+    }
+
+    return new Response(
+      JSON.stringify({ email: invitation.email }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+  } catch (error) {
+    console.error('Accept invite error:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
@@ -1,12 +1,227 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { staffMfaSatisfied } from '../_shared/auth.ts'
+import { getSiteUrl, issueInvitation } from '../_shared/invitations.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const MAX_BATCH_SIZE = 500
+// Keeps each `in` filter well inside PostgREST's URL length limit
+const EMAIL_LOOKUP_CHUNK_SIZE = 100
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+interface BatchUser {
+  name?: string
+  email?: string
+  organization?: string
+  organization_role?: string
+  courses?: string[]
+  services?: string[]
+}
+
+interface BatchResult {
+  index: number
+  email: string
+  status: 'created' | 'skipped' | 'error'
+  messages: string[]
+  user_id?: string
+  invite_url?: string
+}
+
+const normalize = (value?: string) => (value ?? '').trim().toLowerCase()
+
+// Database triggers see no auth.uid() for service-role writes, so record who created the account
+const recordUserCreated = async (
+  // deno-lint-ignore no-explicit-any
+  supabaseAdmin: any,
+  actor: { id: string; email?: string },
+  userId: string,
+  newData: Record<string, unknown>
+) => {
+  const { error: auditError } = await supabaseAdmin
+    .from('audit_log')
+    .insert({
+      actor_id: actor.id,
+      actor_email: actor.email,
+      action: 'create_user',
+      table_name: 'auth.users',
+      record_id: userId,
+      subject_user_id: userId,
+      new_data: newData
+    })
+
+  if (auditError) {
+    console.error('Error writing audit log entry:', auditError)
+  }
+}
+
+// Validates every row before anything is written. In a dry run nothing else happens;
+// otherwise valid rows are created and invited one by one and failures are reported per row.
+// A row that fails part-way has its auth user deleted again, so re-running the import retries it.
+const createUsersInBatch = async (
+  // deno-lint-ignore no-explicit-any
+  supabaseAdmin: any,
+  users: BatchUser[],
+  dryRun: boolean,
+  invitation: { createdBy: string; siteUrl: string },
+  permissions: string[],
+  actor: { id: string; email?: string }
+) => {
+  // Auth stores emails in lower case, and profiles copy them from auth
+  const emails = users.map((row) => normalize(row.email)).filter(Boolean)
+
+  const emailChunks: string[][] = []
+  for (let start = 0; start < emails.length; start += EMAIL_LOOKUP_CHUNK_SIZE) {
+    emailChunks.push(emails.slice(start, start + EMAIL_LOOKUP_CHUNK_SIZE))
+  }
+
+  const [organizationsResult, coursesResult, servicesResult, ...profilesResults] = await Promise.all([
+    supabaseAdmin.from('organizations').select('id, name'),
+    supabaseAdmin.from('courses').select('id, title'),
+    supabaseAdmin.from('services').select('id, title'),
+    ...emailChunks.map((chunk) => supabaseAdmin.from('profiles').select('email').in('email', chunk))
+  ])
+
+  for (const result of [organizationsResult, coursesResult, servicesResult, ...profilesResults]) {
+    if (result.error) throw result.error
+  }
+
+  const byName = (rows: { id: string; name?: string; title?: string }[]) =>
+    new Map(rows.map((row) => [normalize(row.name ?? row.title), row.id]))
+  const organizationIds = byName(organizationsResult.data)
+  const courseIds = byName(coursesResult.data)
+  const serviceIds = byName(servicesResult.data)
+  const existingEmails = new Set(
+    profilesResults.flatMap((result) => result.data.map((row: { email: string }) => normalize(row.email)))
+  )
+  const seenEmails = new Set<string>()
+
+  const results: BatchResult[] = []
+
+  for (const [index, row] of users.entries()) {
+    const email = normalize(row.email)
+    const name = (row.name ?? '').trim()
+    const messages: string[] = []
+
+    if (!name) messages.push('Name is required')
+    if (!email) messages.push('Email is required')
+    else if (!EMAIL_PATTERN.test(email)) messages.push('Email is not valid')
+
+    if (email && existingEmails.has(email)) {
+      results.push({ index, email, status: 'skipped', messages: ['An account with this email already exists'] })
+      continue
+    }
+
+    if (email && seenEmails.has(email)) {
+      results.push({ index, email, status: 'skipped', messages: ['Duplicate of an earlier row'] })
+      continue
+    }
+    seenEmails.add(email)
+
+    const courses = (row.courses ?? []).filter((title) => title.trim())
+    const services = (row.services ?? []).filter((title) => title.trim())
+    const unknownCourses = courses.filter((title) => !courseIds.has(normalize(title)))
+    const unknownServices = services.filter((title) => !serviceIds.has(normalize(title)))
+    if (unknownCourses.length) messages.push(`Unknown course: ${unknownCourses.join(', ')}`)
+    if (unknownServices.length) messages.push(`Unknown service: ${unknownServices.join(', ')}`)
+    if (services.length && !permissions.includes('manage_services')) {
+      messages.push('Manage services permission required to assign services')
+    }
+
+    if (messages.length) {
+      results.push({ index, email, status: 'error', messages })
+      continue
+    }
+
+    const organization = (row.organization ?? '').trim()
+    const organizationId = organizationIds.get(normalize(organization)) ?? null
+    if (organization && !organizationId) {
+      messages.push(`Organization "${organization}" is not linked to an existing organization`)
+    }
+
+    if (dryRun) {
+      results.push({ index, email, status: 'created', messages })
+      continue
+    }
+
+    let userId: string | null = null
+
+    try {
+      // Imported users have no password; they choose one when accepting their invitation
+      const { data: newUser, error: createError } = await supabaseAdmin.auth.admin.createUser({
+        email,
+        user_metadata: {
+          name,
+          organization,
+          organization_role: row.organization_role,
+          role: 'student'
+        }
+      })
+      if (createError) throw createError
+
+      userId = newUser.user.id
+
+      const { error: updateError } = await supabaseAdmin
+        .from('profiles')
+        .update({
+          name,
+          organization: organization || null,
+          organization_id: organizationId,
+          organization_role: row.organization_role?.trim() || null,
+          role: 'student'
+        })
+        .eq('id', userId)
+      if (updateError) throw updateError
+
+      if (courses.length) {
+        const { error: coursesError } = await supabaseAdmin
+          .from('user_course_assignments')
+          .insert(courses.map((title) => ({ user_id: userId, course_id: courseIds.get(normalize(title)), locked: false })))
+        if (coursesError) throw coursesError
+      }
+
+      if (services.length) {
+        const { error: servicesError } = await supabaseAdmin
+          .from('user_services')
+          .insert(services.map((title) => ({ user_id: userId, service_id: serviceIds.get(normalize(title)), status: 'active' })))
+        if (servicesError) throw servicesError
+      }
+
+      const { invite_url } = await issueInvitation(supabaseAdmin, { userId, email, ...invitation })
+
+      await recordUserCreated(supabaseAdmin, actor, userId, {
+        email,
+        name,
+        role: 'student',
+        organization_id: organizationId,
+        courses,
+        services,
+        source: 'import'
+      })
+
+      results.push({ index, email, status: 'created', messages, user_id: userId, invite_url })
+    } catch (error) {
+      console.error(`Error importing row ${index + 1}:`, error)
+
+      if (userId) {
+        const { error: deleteError } = await supabaseAdmin.auth.admin.deleteUser(userId)
+        if (deleteError) {
+          console.error(`Error removing partly imported user for row ${index + 1}:`, deleteError)
+          messages.push('The account was created but could not be removed; finish setting it up by hand')
+        }
+      }
+
+      results.push({ index, email, status: 'error', messages: [...messages, error.message] })
+    }
+  }
+
+  return results
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -44,14 +259,60 @@ serve(async (req) => {
       throw new Error('Admin access required')
     }
 
+    // Staff with a second factor, or all staff once it is required, must have used it
+    if (!(await staffMfaSatisfied(supabaseAdmin, token, user.id))) {
+      throw new Error('Two-factor verification required')
+    }
+
+    // Staff need the matching capabilities from staff_permissions
+    const { data: grants, error: grantsError } = await supabaseAdmin
+      .from('staff_permissions')
+      .select('permission')
+      .eq('user_id', user.id)
+
+    if (grantsError) {
+      throw grantsError
+    }
+
+    const permissions = (grants ?? []).map((grant) => grant.permission)
+
+    if (!permissions.includes('manage_users')) {
+      throw new Error('Manage users permission required')
+    }
+
     // Get the request body
-    const { name, email, password, organization, organization_role, role } = await req.json()
+    const body = await req.json()
+
+    // Batch mode: { users: [...], dry_run } always creates students and reports per-row results
+    if (Array.isArray(body.users)) {
+      if (body.users.length > MAX_BATCH_SIZE) {
+        throw new Error(`Import at most ${MAX_BATCH_SIZE} users at a time`)
+      }
+
+      const results = await createUsersInBatch(supabaseAdmin, body.users, body.dry_run !== false, {
+        createdBy: user.id,
+        siteUrl: getSiteUrl(req)
+      }, permissions, user)
+
+      return new Response(
+        JSON.stringify({ dry_run: body.dry_run !== false, results }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        },
+      )
+    }
+
+    const { name, email, organization, organization_id, organization_role, role } = body
 
-    // Create the user
+    if (role === 'admin' && !permissions.includes('manage_staff')) {
+      throw new Error('Manage staff permission required to create admin accounts')
+    }
+
+    // Create the user without a password; they set their own when accepting the invitation,
+    // which also confirms their email
     const { data: newUser, error: createError } = await supabaseAdmin.auth.admin.createUser({
       email,
-      password,
-      email_confirm: true,
       user_metadata: {
         name,
         organization,
@@ -64,23 +325,50 @@ serve(async (req) => {
       throw createError
     }
 
-    // Update the profile
-    const { error: updateError } = await supabaseAdmin
-      .from('profiles')
-      .update({
-        name,
-        organization,
-        organization_role,
-        role
-      })
-      .eq('id', newUser.user.id)
+    let invitation
+
+    try {
+      // Update the profile
+      const { error: updateError } = await supabaseAdmin
+        .from('profiles')
+        .update({
+          name,
+          organization,
+          organization_id: organization_id || null,
+          organization_role,
+          role
+        })
+        .eq('id', newUser.user.id)
+
+      if (updateError) {
+        throw updateError
+      }
 
-    if (updateError) {
-      throw updateError
+      invitation = await issueInvitation(supabaseAdmin, {
+        userId: newUser.user.id,
+        email,
+        createdBy: user.id,
+        siteUrl: getSiteUrl(req)
+      })
+    } catch (error) {
+      // Without an invitation the account could never be signed into, and the email would
+      // stay taken, so remove it and let the admin try again
+      const { error: deleteError } = await supabaseAdmin.auth.admin.deleteUser(newUser.user.id)
+      if (deleteError) {
+        console.error('Error removing partly created user:', deleteError)
+      }
+      throw error
     }
 
+    await recordUserCreated(supabaseAdmin, user, newUser.user.id, {
+      email,
+      name,
+      role,
+      organization_id: organization_id || null
+    })
+
     return new Response(
-      JSON.stringify({ user: newUser.user }),
+      JSON.stringify({ user: newUser.user, ...invitation }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200,
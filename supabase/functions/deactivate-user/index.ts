@@ -0,0 +1,170 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { staffMfaSatisfied } from '../_shared/auth.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Long enough to never lapse on its own; restoring lifts the ban explicitly
+const DEACTIVATED_BAN_DURATION = '876000h'
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Create a Supabase client with service role key
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Get the authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('No authorization header')
+    }
+
+    // Verify the user is authenticated and is an admin
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token)
+
+    if (authError || !user) {
+      throw new Error('Unauthorized')
+    }
+
+    // Check if user is admin
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (profileError || profile?.role !== 'admin') {
+      throw new Error('Admin access required')
+    }
+
+    // Staff with a second factor, or all staff once it is required, must have used it
+    if (!(await staffMfaSatisfied(supabaseAdmin, token, user.id))) {
+      throw new Error('Two-factor verification required')
+    }
+
+    // Staff need the matching capabilities from staff_permissions
+    const { data: grants, error: grantsError } = await supabaseAdmin
+      .from('staff_permissions')
+      .select('permission')
+      .eq('user_id', user.id)
+
+    if (grantsError) {
+      throw grantsError
+    }
+
+    const permissions = (grants ?? []).map((grant) => grant.permission)
+
+    if (!permissions.includes('manage_users')) {
+      throw new Error('Manage users permission required')
+    }
+
+    const { userId, restore } = await req.json()
+
+    if (!userId) {
+      throw new Error('User ID is required')
+    }
+
+    if (userId === user.id) {
+      throw new Error('Cannot deactivate your own account')
+    }
+
+    const { data: target, error: targetError } = await supabaseAdmin
+      .from('profiles')
+      .select('id, role, deactivated_at')
+      .eq('id', userId)
+      .single()
+
+    if (targetError || !target) {
+      throw new Error('User not found')
+    }
+
+    if (target.role === 'admin' && !permissions.includes('manage_staff')) {
+      throw new Error('Manage staff permission required to deactivate admin accounts')
+    }
+
+    if (restore ? !target.deactivated_at : target.deactivated_at) {
+      throw new Error(restore ? 'User is not deactivated' : 'User is already deactivated')
+    }
+
+    console.log(`Admin ${user.id} ${restore ? 'restoring' : 'deactivating'} user ${userId}`)
+
+    // A banned user cannot sign in or refresh an existing session
+    const { error: banError } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+      ban_duration: restore ? 'none' : DEACTIVATED_BAN_DURATION
+    })
+
+    if (banError) {
+      console.error('Error updating user ban:', banError)
+      throw banError
+    }
+
+    // The ban does not end sessions that are already signed in
+    if (!restore) {
+      const { error: sessionsError } = await supabaseAdmin.rpc('end_user_sessions', { p_user_id: userId })
+
+      if (sessionsError) {
+        console.error('Error ending user sessions:', sessionsError)
+        throw sessionsError
+      }
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('profiles')
+      .update({
+        deactivated_at: restore ? null : new Date().toISOString(),
+        deactivated_by: restore ? null : user.id
+      })
+      .eq('id', userId)
+
+    if (updateError) {
+      console.error('Error updating profile:', updateError)
+      throw updateError
+    }
+
+    // The profile trigger logs the change without an actor, so record who made it
+    const { error: auditError } = await supabaseAdmin
+      .from('audit_log')
+      .insert({
+        actor_id: user.id,
+        actor_email: user.email,
+        action: restore ? 'restore_user' : 'deactivate_user',
+        table_name: 'auth.users',
+        record_id: userId,
+        subject_user_id: userId
+      })
+
+    if (auditError) {
+      console.error('Error writing audit log entry:', auditError)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: restore ? 'User restored successfully' : 'User deactivated successfully'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+  } catch (error) {
+    console.error('Deactivate user error:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
@@ -1,12 +1,17 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { staffMfaSatisfied } from '../_shared/auth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Purging is permanent, so accounts must sit deactivated for this long first.
+// Keep in sync with PURGE_RETENTION_DAYS in src/lib/accounts.ts.
+const PURGE_RETENTION_DAYS = 30
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -44,6 +49,27 @@ serve(async (req) => {
       throw new Error('Admin access required')
     }
 
+    // Staff with a second factor, or all staff once it is required, must have used it
+    if (!(await staffMfaSatisfied(supabaseAdmin, token, user.id))) {
+      throw new Error('Two-factor verification required')
+    }
+
+    // Staff need the matching capabilities from staff_permissions
+    const { data: grants, error: grantsError } = await supabaseAdmin
+      .from('staff_permissions')
+      .select('permission')
+      .eq('user_id', user.id)
+
+    if (grantsError) {
+      throw grantsError
+    }
+
+    const permissions = (grants ?? []).map((grant) => grant.permission)
+
+    if (!permissions.includes('manage_users')) {
+      throw new Error('Manage users permission required')
+    }
+
     // Get the user ID to delete from the request body
     const { userId } = await req.json()
 
@@ -58,6 +84,28 @@ serve(async (req) => {
       throw new Error('Cannot delete your own account')
     }
 
+    // Deleting another staff account needs the same permission as granting admin access
+    const { data: target } = await supabaseAdmin
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .single()
+
+    if (target?.role === 'admin' && !permissions.includes('manage_staff')) {
+      throw new Error('Manage staff permission required to delete admin accounts')
+    }
+
+    if (!target?.deactivated_at) {
+      throw new Error('Deactivate the user before purging their account')
+    }
+
+    const purgeAvailableAt = new Date(target.deactivated_at)
+    purgeAvailableAt.setDate(purgeAvailableAt.getDate() + PURGE_RETENTION_DAYS)
+
+    if (purgeAvailableAt > new Date()) {
+      throw new Error(`Deactivated accounts can be purged from ${purgeAvailableAt.toISOString().slice(0, 10)}`)
+    }
+
     // Delete the user using admin API
     const { error: deleteError } = await supabaseAdmin.auth.admin.deleteUser(userId)
 
@@ -68,6 +116,23 @@ serve(async (req) => {
 
     console.log(`User ${userId} successfully deleted by admin ${user.id}`)
 
+    // Record who deleted the account; cascaded row deletions are logged by database triggers
+    const { error: auditError } = await supabaseAdmin
+      .from('audit_log')
+      .insert({
+        actor_id: user.id,
+        actor_email: user.email,
+        action: 'delete_user',
+        table_name: 'auth.users',
+        record_id: userId,
+        subject_user_id: userId,
+        old_data: target
+      })
+
+    if (auditError) {
+      console.error('Error writing audit log entry:', auditError)
+    }
+
     return new Response(
       JSON.stringify({ success: true, message: 'User deleted successfully' }),
       {
@@ -0,0 +1,181 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { staffMfaSatisfied } from '../_shared/auth.ts'
+import { getSiteUrl, issueInvitation } from '../_shared/invitations.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Create a Supabase client with service role key
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Get the authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('No authorization header')
+    }
+
+    // Verify the user is authenticated and is an admin
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token)
+
+    if (authError || !user) {
+      throw new Error('Unauthorized')
+    }
+
+    // Check if user is admin
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (profileError || profile?.role !== 'admin') {
+      throw new Error('Admin access required')
+    }
+
+    // Staff with a second factor, or all staff once it is required, must have used it
+    if (!(await staffMfaSatisfied(supabaseAdmin, token, user.id))) {
+      throw new Error('Two-factor verification required')
+    }
+
+    // Staff need the matching capabilities from staff_permissions
+    const { data: grants, error: grantsError } = await supabaseAdmin
+      .from('staff_permissions')
+      .select('permission')
+      .eq('user_id', user.id)
+
+    if (grantsError) {
+      throw grantsError
+    }
+
+    const permissions = (grants ?? []).map((grant) => grant.permission)
+
+    if (!permissions.includes('manage_users')) {
+      throw new Error('Manage users permission required')
+    }
+
+    const { userId, action } = await req.json()
+
+    if (!userId) {
+      throw new Error('User ID is required')
+    }
+
+    if (action === 'revoke') {
+      const { error: revokeError } = await supabaseAdmin
+        .from('user_invitations')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+
+      if (revokeError) {
+        throw revokeError
+      }
+
+      // Service-role writes reach the audit trigger without an actor, so record who did it
+      const { error: auditError } = await supabaseAdmin
+        .from('audit_log')
+        .insert({
+          actor_id: user.id,
+          actor_email: user.email,
+          action: 'revoke_invitation',
+          table_name: 'user_invitations',
+          record_id: userId,
+          subject_user_id: userId
+        })
+
+      if (auditError) {
+        console.error('Error writing audit log entry:', auditError)
+      }
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        },
+      )
+    }
+
+    if (action !== 'resend') {
+      throw new Error('Unknown action')
+    }
+
+    const { data: target, error: targetError } = await supabaseAdmin
+      .from('profiles')
+      .select('email, role')
+      .eq('id', userId)
+      .single()
+
+    if (targetError || !target) {
+      throw new Error('User not found')
+    }
+
+    if (target.role === 'admin' && !permissions.includes('manage_staff')) {
+      throw new Error('Manage staff permission required to invite admin accounts')
+    }
+
+    // Users who already chose a password sign in normally or reset it themselves
+    const { data: { user: authUser }, error: authUserError } = await supabaseAdmin.auth.admin.getUserById(userId)
+
+    if (authUserError) {
+      throw authUserError
+    }
+
+    if (authUser?.email_confirmed_at) {
+      throw new Error('This user has already accepted an invitation')
+    }
+
+    const invitation = await issueInvitation(supabaseAdmin, {
+      userId,
+      email: target.email,
+      createdBy: user.id,
+      siteUrl: getSiteUrl(req)
+    })
+
+    const { error: auditError } = await supabaseAdmin
+      .from('audit_log')
+      .insert({
+        actor_id: user.id,
+        actor_email: user.email,
+        action: 'invite_user',
+        table_name: 'user_invitations',
+        record_id: userId,
+        subject_user_id: userId,
+        new_data: { email: target.email, expires_at: invitation.expires_at }
+      })
+
+    if (auditError) {
+      console.error('Error writing audit log entry:', auditError)
+    }
+
+    return new Response(
+      JSON.stringify(invitation),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+  } catch (error) {
+    console.error('Invite user error:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
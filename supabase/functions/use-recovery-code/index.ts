@@ -0,0 +1,115 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Must match normalizeRecoveryCode in src/lib/mfa.ts
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+
+const hashRecoveryCode = async (code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Called after a password sign-in by a user who has lost their authenticator. A valid code
+// removes their TOTP factors so they can finish signing in and enroll again.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('No authorization header')
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token)
+
+    if (authError || !user) {
+      throw new Error('Unauthorized')
+    }
+
+    const { code } = await req.json()
+
+    if (!code) {
+      throw new Error('Recovery code is required')
+    }
+
+    const { data: used, error: useError } = await supabaseAdmin
+      .from('mfa_recovery_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .eq('code_hash', await hashRecoveryCode(code))
+      .is('used_at', null)
+      .select('id')
+
+    if (useError) {
+      throw useError
+    }
+
+    if (!used?.length) {
+      throw new Error('That recovery code is not valid or has already been used')
+    }
+
+    const { data: factorList, error: factorsError } = await supabaseAdmin.auth.admin.mfa.listFactors({ userId: user.id })
+
+    if (factorsError) {
+      throw factorsError
+    }
+
+    for (const factor of factorList.factors) {
+      const { error: deleteError } = await supabaseAdmin.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id })
+      if (deleteError) {
+        throw deleteError
+      }
+    }
+
+    // The remaining codes belonged to the removed authenticator
+    await supabaseAdmin
+      .from('mfa_recovery_codes')
+      .delete()
+      .eq('user_id', user.id)
+
+    const { error: auditError } = await supabaseAdmin
+      .from('audit_log')
+      .insert({
+        actor_id: user.id,
+        actor_email: user.email,
+        action: 'mfa_recovery',
+        table_name: 'auth.mfa_factors',
+        record_id: user.id,
+        subject_user_id: user.id
+      })
+
+    if (auditError) {
+      console.error('Error writing audit log entry:', auditError)
+    }
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+  } catch (error) {
+    console.error('Use recovery code error:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
@@ -0,0 +1,45 @@
+-- Refuse lesson completion until the student's best quiz score meets the pass mark
+CREATE OR REPLACE FUNCTION public.enforce_quiz_pass_mark()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings RECORD;
+  lesson_quiz_set_id uuid;
+BEGIN
+  -- Only check transitions into the completed state
+  IF NEW.completed IS NOT TRUE OR (TG_OP = 'UPDATE' AND OLD.completed IS TRUE) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT enforce_pass_mark, pass_mark_percentage
+  INTO settings
+  FROM public.quiz_settings
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NOT FOUND OR NOT settings.enforce_pass_mark THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT quiz_set_id INTO lesson_quiz_set_id
+  FROM public.lessons
+  WHERE id = NEW.lesson_id;
+
+  IF lesson_quiz_set_id IS NOT NULL
+     AND COALESCE(NEW.quiz_score, -1) < settings.pass_mark_percentage THEN
+    RAISE EXCEPTION 'A quiz score of at least % percent is required to complete this lesson', settings.pass_mark_percentage;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_quiz_pass_mark ON public.user_progress;
+
+CREATE TRIGGER enforce_quiz_pass_mark
+BEFORE INSERT OR UPDATE ON public.user_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_quiz_pass_mark();
@@ -0,0 +1,47 @@
+-- Let admins control the sequence of questions within a quiz set
+ALTER TABLE public.quiz_questions
+ADD COLUMN IF NOT EXISTS "order" integer NOT NULL DEFAULT 0;
+
+-- Number existing questions by creation time
+UPDATE public.quiz_questions q
+SET "order" = numbered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY quiz_set_id ORDER BY created_at) AS position
+  FROM public.quiz_questions
+) numbered
+WHERE q.id = numbered.id;
+
+-- Admins author quiz sets, questions and the portal-wide quiz settings
+ALTER TABLE public.quiz_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view quiz sets"
+ON public.quiz_sets
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage quiz sets"
+ON public.quiz_sets
+FOR ALL
+USING (public.is_admin_user());
+
+CREATE POLICY "Authenticated users can view quiz questions"
+ON public.quiz_questions
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage quiz questions"
+ON public.quiz_questions
+FOR ALL
+USING (public.is_admin_user());
+
+CREATE POLICY "Authenticated users can view quiz settings"
+ON public.quiz_settings
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage quiz settings"
+ON public.quiz_settings
+FOR ALL
+USING (public.is_admin_user());
@@ -0,0 +1,14 @@
+-- Students need to read their own lesson locks so the course views can honor them
+ALTER TABLE public.user_lesson_locks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own lesson locks" ON public.user_lesson_locks;
+CREATE POLICY "Users can view their own lesson locks"
+ON public.user_lesson_locks
+FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can manage lesson locks" ON public.user_lesson_locks;
+CREATE POLICY "Admins can manage lesson locks"
+ON public.user_lesson_locks
+FOR ALL
+USING (public.is_admin_user());
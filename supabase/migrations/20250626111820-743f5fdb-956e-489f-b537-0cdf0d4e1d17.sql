@@ -0,0 +1,66 @@
+-- Course content is only readable by admins and students with an unlocked enrollment
+CREATE OR REPLACE FUNCTION public.has_course_access(p_course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.is_admin_user() OR EXISTS (
+    SELECT 1 FROM public.user_course_assignments
+    WHERE user_id = auth.uid()
+      AND course_id = p_course_id
+      AND locked = false
+  );
+$$;
+
+-- Students may see the catalog entry of any course they are assigned to, even while it is locked
+CREATE OR REPLACE FUNCTION public.is_assigned_to_course(p_course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.is_admin_user() OR EXISTS (
+    SELECT 1 FROM public.user_course_assignments
+    WHERE user_id = auth.uid()
+      AND course_id = p_course_id
+  );
+$$;
+
+-- Replace any earlier open-read policies so they cannot widen access
+DO $$
+DECLARE
+  policy_record RECORD;
+BEGIN
+  FOR policy_record IN
+    SELECT tablename, policyname FROM pg_policies
+    WHERE schemaname = 'public' AND tablename IN ('courses', 'lessons')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', policy_record.policyname, policy_record.tablename);
+  END LOOP;
+END $$;
+
+ALTER TABLE public.courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lessons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Assigned users can view courses"
+ON public.courses
+FOR SELECT
+USING (public.is_assigned_to_course(id));
+
+CREATE POLICY "Admins can manage courses"
+ON public.courses
+FOR ALL
+USING (public.is_admin_user());
+
+CREATE POLICY "Enrolled users can view lessons"
+ON public.lessons
+FOR SELECT
+USING (public.has_course_access(course_id));
+
+CREATE POLICY "Admins can manage lessons"
+ON public.lessons
+FOR ALL
+USING (public.is_admin_user());
@@ -0,0 +1,26 @@
+-- Accumulate active lesson viewing time reported by the lesson viewer
+CREATE OR REPLACE FUNCTION public.record_lesson_time(p_course_id uuid, p_lesson_id uuid, p_seconds integer)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  -- A single report covers at most one flush interval plus slack
+  capped_seconds integer := LEAST(GREATEST(p_seconds, 0), 900);
+BEGIN
+  IF auth.uid() IS NULL OR capped_seconds = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.user_progress
+  SET time_spent = time_spent + capped_seconds,
+      updated_at = now()
+  WHERE user_id = auth.uid()
+    AND lesson_id = p_lesson_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.user_progress (user_id, course_id, lesson_id, time_spent)
+    VALUES (auth.uid(), p_course_id, p_lesson_id, capped_seconds);
+  END IF;
+END;
+$$;
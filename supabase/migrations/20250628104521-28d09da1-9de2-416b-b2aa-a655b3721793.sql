@@ -0,0 +1,55 @@
+-- Archived courses are hidden from the student catalogue but keep their history
+ALTER TABLE public.courses ADD COLUMN IF NOT EXISTS archived_at timestamp with time zone;
+
+-- Delete a course and everything that belongs to it in a single transaction
+CREATE OR REPLACE FUNCTION public.delete_course(p_course_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can delete courses';
+  END IF;
+
+  DELETE FROM public.user_lesson_locks WHERE course_id = p_course_id;
+  DELETE FROM public.user_progress WHERE course_id = p_course_id;
+  DELETE FROM public.user_course_assignments WHERE course_id = p_course_id;
+  DELETE FROM public.lessons WHERE course_id = p_course_id;
+  DELETE FROM public.courses WHERE id = p_course_id;
+END;
+$$;
+
+-- Copy a course and its lessons (including quiz links); returns the new course id
+CREATE OR REPLACE FUNCTION public.duplicate_course(p_course_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_course_id uuid;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can duplicate courses';
+  END IF;
+
+  INSERT INTO public.courses (title, description)
+  SELECT title || ' (Copy)', description
+  FROM public.courses
+  WHERE id = p_course_id
+  RETURNING id INTO new_course_id;
+
+  IF new_course_id IS NULL THEN
+    RAISE EXCEPTION 'Course not found';
+  END IF;
+
+  INSERT INTO public.lessons (course_id, title, description, instructor_notes, pdf_url, "order", quiz_set_id)
+  SELECT new_course_id, title, description, instructor_notes, pdf_url, "order", quiz_set_id
+  FROM public.lessons
+  WHERE course_id = p_course_id;
+
+  RETURN new_course_id;
+END;
+$$;
@@ -0,0 +1,67 @@
+-- Renumber existing lessons so every course runs 1..n without duplicates or gaps
+WITH numbered AS (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY course_id ORDER BY "order", created_at) AS new_order
+  FROM public.lessons
+)
+UPDATE public.lessons l
+SET "order" = numbered.new_order
+FROM numbered
+WHERE l.id = numbered.id
+  AND l."order" IS DISTINCT FROM numbered.new_order;
+
+-- Deferred so a whole course can be renumbered within one statement
+ALTER TABLE public.lessons
+  ADD CONSTRAINT lessons_course_id_order_key UNIQUE (course_id, "order") DEFERRABLE INITIALLY DEFERRED;
+
+-- Atomically renumber all lessons of a course in the given order
+CREATE OR REPLACE FUNCTION public.reorder_lessons(p_course_id uuid, p_lesson_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can reorder lessons';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.lessons WHERE course_id = p_course_id) <> COALESCE(array_length(p_lesson_ids, 1), 0)
+    OR (SELECT COUNT(DISTINCT lesson_id) FROM unnest(p_lesson_ids) AS ids(lesson_id)) <> COALESCE(array_length(p_lesson_ids, 1), 0)
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_lesson_ids) AS ids(lesson_id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.lessons WHERE id = ids.lesson_id AND course_id = p_course_id
+      )
+    ) THEN
+    RAISE EXCEPTION 'The new order must include every lesson of the course exactly once';
+  END IF;
+
+  UPDATE public.lessons l
+  SET "order" = ids.position,
+      updated_at = now()
+  FROM unnest(p_lesson_ids) WITH ORDINALITY AS ids(lesson_id, position)
+  WHERE l.id = ids.lesson_id
+    AND l."order" IS DISTINCT FROM ids.position;
+END;
+$$;
+
+-- Close the gap left behind when a lesson is deleted
+CREATE OR REPLACE FUNCTION public.compact_lesson_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.lessons
+  SET "order" = "order" - 1
+  WHERE course_id = OLD.course_id
+    AND "order" > OLD."order";
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS compact_lesson_order ON public.lessons;
+CREATE TRIGGER compact_lesson_order
+  AFTER DELETE ON public.lessons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.compact_lesson_order();
@@ -0,0 +1,57 @@
+-- Lesson PDFs can now live in the private lesson-materials bucket instead of an external URL
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS pdf_path text;
+ALTER TABLE public.lessons ALTER COLUMN pdf_url DROP NOT NULL;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('lesson-materials', 'lesson-materials', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Students can read a lesson PDF only while they have access to a course using it
+DROP POLICY IF EXISTS "Enrolled users can read lesson materials" ON storage.objects;
+CREATE POLICY "Enrolled users can read lesson materials" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'lesson-materials'
+    AND EXISTS (
+      SELECT 1 FROM public.lessons
+      WHERE lessons.pdf_path = storage.objects.name
+        AND public.has_course_access(lessons.course_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage lesson materials" ON storage.objects;
+CREATE POLICY "Admins can manage lesson materials" ON storage.objects
+  FOR ALL USING (bucket_id = 'lesson-materials' AND public.is_admin_user())
+  WITH CHECK (bucket_id = 'lesson-materials' AND public.is_admin_user());
+
+-- Duplicated lessons share the uploaded PDF of the original
+CREATE OR REPLACE FUNCTION public.duplicate_course(p_course_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_course_id uuid;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can duplicate courses';
+  END IF;
+
+  INSERT INTO public.courses (title, description)
+  SELECT title || ' (Copy)', description
+  FROM public.courses
+  WHERE id = p_course_id
+  RETURNING id INTO new_course_id;
+
+  IF new_course_id IS NULL THEN
+    RAISE EXCEPTION 'Course not found';
+  END IF;
+
+  INSERT INTO public.lessons (course_id, title, description, instructor_notes, pdf_url, pdf_path, "order", quiz_set_id)
+  SELECT new_course_id, title, description, instructor_notes, pdf_url, pdf_path, "order", quiz_set_id
+  FROM public.lessons
+  WHERE course_id = p_course_id;
+
+  RETURN new_course_id;
+END;
+$$;
@@ -0,0 +1,149 @@
+-- Ordered content blocks that make up a lesson alongside its PDF and instructor notes
+CREATE TABLE IF NOT EXISTS public.lesson_blocks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id uuid NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('pdf', 'video', 'rich_text', 'embed', 'download')),
+  title text NOT NULL DEFAULT '',
+  url text,
+  storage_path text,
+  file_name text,
+  body text,
+  "order" integer NOT NULL DEFAULT 0,
+  required boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS lesson_blocks_lesson_id_idx ON public.lesson_blocks (lesson_id, "order");
+
+ALTER TABLE public.lesson_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enrolled users can view lesson blocks" ON public.lesson_blocks
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.lessons
+      WHERE lessons.id = lesson_blocks.lesson_id
+        AND public.has_course_access(lessons.course_id)
+    )
+  );
+
+CREATE POLICY "Admins can manage lesson blocks" ON public.lesson_blocks
+  FOR ALL USING (public.is_admin_user());
+
+-- One row per student per block they have viewed
+CREATE TABLE IF NOT EXISTS public.lesson_block_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  block_id uuid NOT NULL REFERENCES public.lesson_blocks(id) ON DELETE CASCADE,
+  lesson_id uuid NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  viewed_at timestamp with time zone DEFAULT now(),
+  UNIQUE (user_id, block_id)
+);
+
+ALTER TABLE public.lesson_block_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own block views" ON public.lesson_block_views
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own block views" ON public.lesson_block_views
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND public.has_course_access(
+    (SELECT course_id FROM public.lessons WHERE id = lesson_id)
+  ));
+
+CREATE POLICY "Admins can manage block views" ON public.lesson_block_views
+  FOR ALL USING (public.is_admin_user());
+
+-- Uploaded block files live in lesson-materials next to lesson PDFs
+DROP POLICY IF EXISTS "Enrolled users can read lesson block files" ON storage.objects;
+CREATE POLICY "Enrolled users can read lesson block files" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'lesson-materials'
+    AND EXISTS (
+      SELECT 1 FROM public.lesson_blocks
+      JOIN public.lessons ON lessons.id = lesson_blocks.lesson_id
+      WHERE lesson_blocks.storage_path = storage.objects.name
+        AND public.has_course_access(lessons.course_id)
+    )
+  );
+
+-- Refuse lesson completion until every required block has been viewed
+CREATE OR REPLACE FUNCTION public.enforce_required_lesson_blocks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Only check transitions into the completed state
+  IF NEW.completed IS NOT TRUE OR (TG_OP = 'UPDATE' AND OLD.completed IS TRUE) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.lesson_blocks b
+    WHERE b.lesson_id = NEW.lesson_id
+      AND b.required
+      AND NOT EXISTS (
+        SELECT 1 FROM public.lesson_block_views v
+        WHERE v.block_id = b.id AND v.user_id = NEW.user_id
+      )
+  ) THEN
+    RAISE EXCEPTION 'All required lesson content must be viewed before completing this lesson';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_required_lesson_blocks ON public.user_progress;
+
+CREATE TRIGGER enforce_required_lesson_blocks
+BEFORE INSERT OR UPDATE ON public.user_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_required_lesson_blocks();
+
+-- Duplicated lessons keep their content blocks
+CREATE OR REPLACE FUNCTION public.duplicate_course(p_course_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_course_id uuid;
+  new_lesson_id uuid;
+  source_lesson RECORD;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can duplicate courses';
+  END IF;
+
+  INSERT INTO public.courses (title, description)
+  SELECT title || ' (Copy)', description
+  FROM public.courses
+  WHERE id = p_course_id
+  RETURNING id INTO new_course_id;
+
+  IF new_course_id IS NULL THEN
+    RAISE EXCEPTION 'Course not found';
+  END IF;
+
+  FOR source_lesson IN
+    SELECT * FROM public.lessons WHERE course_id = p_course_id
+  LOOP
+    INSERT INTO public.lessons (course_id, title, description, instructor_notes, pdf_url, pdf_path, "order", quiz_set_id)
+    VALUES (
+      new_course_id, source_lesson.title, source_lesson.description, source_lesson.instructor_notes,
+      source_lesson.pdf_url, source_lesson.pdf_path, source_lesson."order", source_lesson.quiz_set_id
+    )
+    RETURNING id INTO new_lesson_id;
+
+    INSERT INTO public.lesson_blocks (lesson_id, type, title, url, storage_path, file_name, body, "order", required)
+    SELECT new_lesson_id, type, title, url, storage_path, file_name, body, "order", required
+    FROM public.lesson_blocks
+    WHERE lesson_id = source_lesson.id;
+  END LOOP;
+
+  RETURN new_course_id;
+END;
+$$;
@@ -0,0 +1,93 @@
+-- Course completion certificates; name and title are snapshotted so they survive later edits
+CREATE TABLE IF NOT EXISTS public.certificates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_id uuid REFERENCES public.courses(id) ON DELETE SET NULL,
+  student_name text NOT NULL,
+  course_title text NOT NULL,
+  verification_code text NOT NULL UNIQUE,
+  completed_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone DEFAULT now(),
+  UNIQUE (user_id, course_id)
+);
+
+ALTER TABLE public.certificates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own certificates" ON public.certificates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage certificates" ON public.certificates
+  FOR ALL USING (public.is_admin_user());
+
+-- Issue (or return the existing) certificate once every lesson of the course is complete
+CREATE OR REPLACE FUNCTION public.issue_certificate(p_course_id uuid)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  certificate public.certificates;
+  lesson_count integer;
+  completed_count integer;
+  last_completed_at timestamp with time zone;
+  code text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO certificate
+  FROM public.certificates
+  WHERE user_id = auth.uid() AND course_id = p_course_id;
+
+  IF FOUND THEN
+    RETURN certificate;
+  END IF;
+
+  SELECT COUNT(*) INTO lesson_count
+  FROM public.lessons
+  WHERE course_id = p_course_id;
+
+  SELECT COUNT(DISTINCT p.lesson_id), MAX(p.updated_at)
+  INTO completed_count, last_completed_at
+  FROM public.user_progress p
+  JOIN public.lessons l ON l.id = p.lesson_id AND l.course_id = p_course_id
+  WHERE p.user_id = auth.uid()
+    AND p.completed;
+
+  IF lesson_count = 0 OR completed_count < lesson_count THEN
+    RAISE EXCEPTION 'Complete every lesson in the course to receive a certificate';
+  END IF;
+
+  -- Codes look like 4F9A-C21B-7D03
+  LOOP
+    code := upper(regexp_replace(substr(replace(gen_random_uuid()::text, '-', ''), 1, 12), '(.{4})(.{4})(.{4})', '\1-\2-\3'));
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.certificates WHERE verification_code = code);
+  END LOOP;
+
+  INSERT INTO public.certificates (user_id, course_id, student_name, course_title, verification_code, completed_at)
+  SELECT auth.uid(), c.id, COALESCE(NULLIF(pr.name, ''), pr.email), c.title, code, COALESCE(last_completed_at, now())
+  FROM public.courses c
+  JOIN public.profiles pr ON pr.id = auth.uid()
+  WHERE c.id = p_course_id
+  RETURNING * INTO certificate;
+
+  RETURN certificate;
+END;
+$$;
+
+-- Public lookup used by employers to confirm a certificate is genuine
+CREATE OR REPLACE FUNCTION public.verify_certificate(p_code text)
+RETURNS TABLE (student_name text, course_title text, completed_at timestamp with time zone)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT student_name, course_title, completed_at
+  FROM public.certificates
+  WHERE verification_code = upper(trim(p_code));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_certificate(text) TO anon, authenticated;
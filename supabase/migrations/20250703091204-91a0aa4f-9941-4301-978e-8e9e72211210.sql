@@ -0,0 +1,35 @@
+-- Private per-lesson notes; only the author can read or write them
+CREATE TABLE IF NOT EXISTS public.lesson_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lesson_id uuid NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  course_id uuid NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  content text NOT NULL DEFAULT '',
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  UNIQUE (user_id, lesson_id)
+);
+
+ALTER TABLE public.lesson_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own lesson notes" ON public.lesson_notes
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Bookmarks on a whole lesson (pdf_page is null) or on a page of its PDF
+CREATE TABLE IF NOT EXISTS public.lesson_bookmarks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lesson_id uuid NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+  course_id uuid NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  pdf_page integer CHECK (pdf_page IS NULL OR pdf_page > 0),
+  label text NOT NULL DEFAULT '',
+  created_at timestamp with time zone DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id, lesson_id, pdf_page)
+);
+
+ALTER TABLE public.lesson_bookmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own lesson bookmarks" ON public.lesson_bookmarks
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,212 @@
+-- Courses that must be completed before another course opens
+CREATE TABLE IF NOT EXISTS public.course_prerequisites (
+  course_id uuid NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  prerequisite_course_id uuid NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  created_at timestamp with time zone DEFAULT now(),
+  PRIMARY KEY (course_id, prerequisite_course_id),
+  CHECK (course_id <> prerequisite_course_id)
+);
+
+-- Reject prerequisites that would make a course depend on itself
+CREATE OR REPLACE FUNCTION public.prevent_prerequisite_cycles()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE chain AS (
+      SELECT prerequisite_course_id AS course_id
+      FROM public.course_prerequisites
+      WHERE course_id = NEW.prerequisite_course_id
+      UNION
+      SELECT cp.prerequisite_course_id
+      FROM public.course_prerequisites cp
+      JOIN chain ON cp.course_id = chain.course_id
+    )
+    SELECT 1 FROM chain WHERE course_id = NEW.course_id
+  ) THEN
+    RAISE EXCEPTION 'This prerequisite would create a circular dependency between courses';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_prerequisite_cycles ON public.course_prerequisites;
+CREATE TRIGGER prevent_prerequisite_cycles
+  BEFORE INSERT OR UPDATE ON public.course_prerequisites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_prerequisite_cycles();
+
+-- Ordered sequences of courses; each course requires the one before it
+CREATE TABLE IF NOT EXISTS public.learning_paths (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.learning_path_courses (
+  path_id uuid NOT NULL REFERENCES public.learning_paths(id) ON DELETE CASCADE,
+  course_id uuid NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  PRIMARY KEY (path_id, course_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.user_learning_paths (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  path_id uuid NOT NULL REFERENCES public.learning_paths(id) ON DELETE CASCADE,
+  assigned_at timestamp with time zone DEFAULT now(),
+  UNIQUE (user_id, path_id)
+);
+
+ALTER TABLE public.course_prerequisites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.learning_paths ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.learning_path_courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_learning_paths ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view course prerequisites" ON public.course_prerequisites
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage course prerequisites" ON public.course_prerequisites
+  FOR ALL USING (public.is_admin_user());
+
+CREATE POLICY "Authenticated users can view learning paths" ON public.learning_paths
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage learning paths" ON public.learning_paths
+  FOR ALL USING (public.is_admin_user());
+
+CREATE POLICY "Authenticated users can view learning path courses" ON public.learning_path_courses
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage learning path courses" ON public.learning_path_courses
+  FOR ALL USING (public.is_admin_user());
+
+CREATE POLICY "Users can view their own learning paths" ON public.user_learning_paths
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage user learning paths" ON public.user_learning_paths
+  FOR ALL USING (public.is_admin_user());
+
+-- A course counts as completed once every one of its lessons is
+CREATE OR REPLACE FUNCTION public.is_course_completed(p_user_id uuid, p_course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.lessons WHERE course_id = p_course_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.lessons l
+      WHERE l.course_id = p_course_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.user_progress p
+          WHERE p.lesson_id = l.id
+            AND p.user_id = p_user_id
+            AND p.completed
+        )
+    );
+$$;
+
+-- Unfinished courses standing between a user and a course: explicit prerequisites
+-- plus the previous course of every learning path the user is on
+CREATE OR REPLACE FUNCTION public.get_blocking_courses(p_user_id uuid, p_course_id uuid)
+RETURNS TABLE (course_id uuid, title text)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  WITH required AS (
+    SELECT prerequisite_course_id AS course_id
+    FROM public.course_prerequisites
+    WHERE course_prerequisites.course_id = p_course_id
+    UNION
+    SELECT previous.course_id
+    FROM public.user_learning_paths ulp
+    JOIN public.learning_path_courses current_course
+      ON current_course.path_id = ulp.path_id AND current_course.course_id = p_course_id
+    JOIN public.learning_path_courses previous
+      ON previous.path_id = ulp.path_id
+     AND previous.position = (
+       SELECT MAX(position) FROM public.learning_path_courses
+       WHERE path_id = ulp.path_id AND position < current_course.position
+     )
+    WHERE ulp.user_id = p_user_id
+  )
+  SELECT c.id, c.title
+  FROM required r
+  JOIN public.courses c ON c.id = r.course_id
+  WHERE NOT public.is_course_completed(p_user_id, r.course_id);
+$$;
+
+-- Only used from other definer functions; students must not probe other users
+REVOKE EXECUTE ON FUNCTION public.get_blocking_courses(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.is_course_completed(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Course content also waits for prerequisites, so completing one unlocks the next automatically
+CREATE OR REPLACE FUNCTION public.has_course_access(p_course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.is_admin_user() OR (
+    EXISTS (
+      SELECT 1 FROM public.user_course_assignments
+      WHERE user_id = auth.uid()
+        AND course_id = p_course_id
+        AND locked = false
+    )
+    AND NOT EXISTS (SELECT 1 FROM public.get_blocking_courses(auth.uid(), p_course_id))
+  );
+$$;
+
+-- Prerequisite status for every course the current user is assigned to
+CREATE OR REPLACE FUNCTION public.get_my_course_availability()
+RETURNS TABLE (course_id uuid, blocking_course_titles text[])
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT a.course_id,
+    ARRAY(
+      SELECT b.title FROM public.get_blocking_courses(auth.uid(), a.course_id) b ORDER BY b.title
+    )
+  FROM public.user_course_assignments a
+  WHERE a.user_id = auth.uid();
+$$;
+
+-- Put a student on a learning path and enroll them in all of its courses
+CREATE OR REPLACE FUNCTION public.assign_learning_path(p_user_id uuid, p_path_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can assign learning paths';
+  END IF;
+
+  INSERT INTO public.user_learning_paths (user_id, path_id)
+  VALUES (p_user_id, p_path_id)
+  ON CONFLICT (user_id, path_id) DO NOTHING;
+
+  INSERT INTO public.user_course_assignments (user_id, course_id, locked)
+  SELECT p_user_id, lpc.course_id, false
+  FROM public.learning_path_courses lpc
+  WHERE lpc.path_id = p_path_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_course_assignments a
+      WHERE a.user_id = p_user_id AND a.course_id = lpc.course_id
+    );
+END;
+$$;
@@ -0,0 +1,107 @@
+-- Optional drip schedule per lesson: relative to enrollment and/or a fixed date
+ALTER TABLE public.lessons
+  ADD COLUMN IF NOT EXISTS release_days_after_enrollment integer CHECK (release_days_after_enrollment >= 0),
+  ADD COLUMN IF NOT EXISTS release_at timestamp with time zone;
+
+-- When a lesson opens for a user; the later of both schedules wins, NULL means no schedule
+CREATE OR REPLACE FUNCTION public.get_lesson_release_at(p_user_id uuid, p_lesson_id uuid)
+RETURNS timestamp with time zone
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN l.release_days_after_enrollment IS NULL THEN l.release_at
+    ELSE GREATEST(
+      l.release_at,
+      (
+        SELECT MIN(a.created_at)
+        FROM public.user_course_assignments a
+        WHERE a.user_id = p_user_id AND a.course_id = l.course_id
+      ) + make_interval(days => l.release_days_after_enrollment)
+    )
+  END
+  FROM public.lessons l
+  WHERE l.id = p_lesson_id;
+$$;
+
+-- Students cannot record progress on lessons that have not been released yet
+CREATE OR REPLACE FUNCTION public.enforce_lesson_release()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  available_at timestamp with time zone;
+BEGIN
+  IF public.is_admin_user() THEN
+    RETURN NEW;
+  END IF;
+
+  available_at := public.get_lesson_release_at(NEW.user_id, NEW.lesson_id);
+
+  IF available_at IS NOT NULL AND available_at > now() THEN
+    RAISE EXCEPTION 'This lesson is not available until %', to_char(available_at, 'YYYY-MM-DD HH24:MI TZ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_lesson_release ON public.user_progress;
+CREATE TRIGGER enforce_lesson_release
+  BEFORE INSERT OR UPDATE ON public.user_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_lesson_release();
+
+-- Carry the release schedule over when a course is duplicated
+CREATE OR REPLACE FUNCTION public.duplicate_course(p_course_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_course_id uuid;
+  new_lesson_id uuid;
+  source_lesson RECORD;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can duplicate courses';
+  END IF;
+
+  INSERT INTO public.courses (title, description)
+  SELECT title || ' (Copy)', description
+  FROM public.courses
+  WHERE id = p_course_id
+  RETURNING id INTO new_course_id;
+
+  IF new_course_id IS NULL THEN
+    RAISE EXCEPTION 'Course not found';
+  END IF;
+
+  FOR source_lesson IN
+    SELECT * FROM public.lessons WHERE course_id = p_course_id
+  LOOP
+    INSERT INTO public.lessons (
+      course_id, title, description, instructor_notes, pdf_url, pdf_path, "order", quiz_set_id,
+      release_days_after_enrollment, release_at
+    )
+    VALUES (
+      new_course_id, source_lesson.title, source_lesson.description, source_lesson.instructor_notes,
+      source_lesson.pdf_url, source_lesson.pdf_path, source_lesson."order", source_lesson.quiz_set_id,
+      source_lesson.release_days_after_enrollment, source_lesson.release_at
+    )
+    RETURNING id INTO new_lesson_id;
+
+    INSERT INTO public.lesson_blocks (lesson_id, type, title, url, storage_path, file_name, body, "order", required)
+    SELECT new_lesson_id, type, title, url, storage_path, file_name, body, "order", required
+    FROM public.lesson_blocks
+    WHERE lesson_id = source_lesson.id;
+  END LOOP;
+
+  RETURN new_course_id;
+END;
+$$;
@@ -0,0 +1,231 @@
+-- Cohorts: groups of students sharing a course and service bundle and a start date
+CREATE TABLE IF NOT EXISTS public.cohorts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  start_date date,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.cohort_courses (
+  cohort_id uuid NOT NULL REFERENCES public.cohorts(id) ON DELETE CASCADE,
+  course_id uuid NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  PRIMARY KEY (cohort_id, course_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.cohort_services (
+  cohort_id uuid NOT NULL REFERENCES public.cohorts(id) ON DELETE CASCADE,
+  service_id uuid NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  PRIMARY KEY (cohort_id, service_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.cohort_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cohort_id uuid NOT NULL REFERENCES public.cohorts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  joined_at timestamp with time zone DEFAULT now(),
+  UNIQUE (cohort_id, user_id)
+);
+
+-- Remember which cohort granted an assignment so only those rows are revoked
+ALTER TABLE public.user_course_assignments
+  ADD COLUMN IF NOT EXISTS cohort_id uuid REFERENCES public.cohorts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.user_services
+  ADD COLUMN IF NOT EXISTS cohort_id uuid REFERENCES public.cohorts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.cohorts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cohort_courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cohort_services ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cohort_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage cohorts" ON public.cohorts
+  FOR ALL USING (public.is_admin_user());
+
+CREATE POLICY "Admins can manage cohort courses" ON public.cohort_courses
+  FOR ALL USING (public.is_admin_user());
+
+CREATE POLICY "Admins can manage cohort services" ON public.cohort_services
+  FOR ALL USING (public.is_admin_user());
+
+CREATE POLICY "Admins can manage cohort members" ON public.cohort_members
+  FOR ALL USING (public.is_admin_user());
+
+-- Give one member everything in a cohort's bundle that they don't already have.
+-- Course assignments start on the cohort start date so drip schedules line up.
+CREATE OR REPLACE FUNCTION public.grant_cohort_access(p_cohort_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cohort_start timestamp with time zone;
+BEGIN
+  SELECT start_date::timestamp with time zone INTO cohort_start
+  FROM public.cohorts
+  WHERE id = p_cohort_id;
+
+  INSERT INTO public.user_course_assignments (user_id, course_id, locked, cohort_id, created_at)
+  SELECT p_user_id, cc.course_id, false, p_cohort_id, COALESCE(cohort_start, now())
+  FROM public.cohort_courses cc
+  WHERE cc.cohort_id = p_cohort_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_course_assignments a
+      WHERE a.user_id = p_user_id AND a.course_id = cc.course_id
+    );
+
+  INSERT INTO public.user_services (user_id, service_id, status, cohort_id)
+  SELECT p_user_id, cs.service_id, 'active', p_cohort_id
+  FROM public.cohort_services cs
+  WHERE cs.cohort_id = p_cohort_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_services us
+      WHERE us.user_id = p_user_id AND us.service_id = cs.service_id
+    );
+END;
+$$;
+
+-- Other cohorts may bundle the same course or service; hand those back after a revoke
+CREATE OR REPLACE FUNCTION public.regrant_remaining_cohort_access(p_user_id uuid, p_excluded_cohort_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  membership RECORD;
+BEGIN
+  FOR membership IN
+    SELECT cohort_id FROM public.cohort_members
+    WHERE user_id = p_user_id AND cohort_id <> p_excluded_cohort_id
+  LOOP
+    PERFORM public.grant_cohort_access(membership.cohort_id, p_user_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grant_cohort_access(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.regrant_remaining_cohort_access(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_cohort_member_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.grant_cohort_access(NEW.cohort_id, NEW.user_id);
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.user_course_assignments
+  WHERE user_id = OLD.user_id AND cohort_id = OLD.cohort_id;
+
+  DELETE FROM public.user_services
+  WHERE user_id = OLD.user_id AND cohort_id = OLD.cohort_id;
+
+  PERFORM public.regrant_remaining_cohort_access(OLD.user_id, OLD.cohort_id);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_cohort_member_change ON public.cohort_members;
+CREATE TRIGGER handle_cohort_member_change
+  AFTER INSERT OR DELETE ON public.cohort_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_cohort_member_change();
+
+-- Changing the bundle updates every member
+CREATE OR REPLACE FUNCTION public.handle_cohort_bundle_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member RECORD;
+  changed_cohort_id uuid;
+BEGIN
+  changed_cohort_id := CASE WHEN TG_OP = 'INSERT' THEN NEW.cohort_id ELSE OLD.cohort_id END;
+
+  IF TG_OP = 'DELETE' THEN
+    IF TG_TABLE_NAME = 'cohort_courses' THEN
+      DELETE FROM public.user_course_assignments
+      WHERE cohort_id = OLD.cohort_id AND course_id = OLD.course_id;
+    ELSE
+      DELETE FROM public.user_services
+      WHERE cohort_id = OLD.cohort_id AND service_id = OLD.service_id;
+    END IF;
+  END IF;
+
+  FOR member IN
+    SELECT user_id FROM public.cohort_members WHERE cohort_id = changed_cohort_id
+  LOOP
+    IF TG_OP = 'INSERT' THEN
+      PERFORM public.grant_cohort_access(changed_cohort_id, member.user_id);
+    ELSE
+      PERFORM public.regrant_remaining_cohort_access(member.user_id, changed_cohort_id);
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_cohort_course_change ON public.cohort_courses;
+CREATE TRIGGER handle_cohort_course_change
+  AFTER INSERT OR DELETE ON public.cohort_courses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_cohort_bundle_change();
+
+DROP TRIGGER IF EXISTS handle_cohort_service_change ON public.cohort_services;
+CREATE TRIGGER handle_cohort_service_change
+  AFTER INSERT OR DELETE ON public.cohort_services
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_cohort_bundle_change();
+
+-- Moving the start date moves the enrollment date drip schedules count from
+CREATE OR REPLACE FUNCTION public.handle_cohort_start_date_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.start_date IS NOT NULL AND NEW.start_date IS DISTINCT FROM OLD.start_date THEN
+    UPDATE public.user_course_assignments
+    SET created_at = NEW.start_date::timestamp with time zone
+    WHERE cohort_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_cohort_start_date_change ON public.cohorts;
+CREATE TRIGGER handle_cohort_start_date_change
+  AFTER UPDATE ON public.cohorts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_cohort_start_date_change();
+
+-- Deleting a cohort removes its members first so their cohort access is revoked
+CREATE OR REPLACE FUNCTION public.handle_cohort_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.cohort_members WHERE cohort_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_cohort_delete ON public.cohorts;
+CREATE TRIGGER handle_cohort_delete
+  BEFORE DELETE ON public.cohorts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_cohort_delete();
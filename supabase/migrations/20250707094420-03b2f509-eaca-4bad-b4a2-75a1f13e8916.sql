@@ -0,0 +1,180 @@
+-- Client organizations (tenants) that student profiles belong to
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+-- "Acme" and "acme " are the same client
+CREATE UNIQUE INDEX IF NOT EXISTS organizations_name_key
+  ON public.organizations (lower(btrim(name)));
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS profiles_organization_id_idx ON public.profiles (organization_id);
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view organizations" ON public.organizations
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage organizations" ON public.organizations
+  FOR ALL USING (public.is_admin_user());
+
+-- Create one organization per distinct free-text value and link existing profiles.
+-- Values differing only by case or surrounding spaces collapse into one organization.
+INSERT INTO public.organizations (name)
+SELECT MIN(btrim(organization))
+FROM public.profiles
+WHERE organization IS NOT NULL AND btrim(organization) <> ''
+GROUP BY lower(btrim(organization))
+ON CONFLICT DO NOTHING;
+
+UPDATE public.profiles p
+SET organization_id = o.id
+FROM public.organizations o
+WHERE p.organization_id IS NULL
+  AND p.organization IS NOT NULL
+  AND lower(btrim(p.organization)) = lower(btrim(o.name));
+
+-- Keep the legacy text column in sync: a linked organization's name wins,
+-- and typed names link automatically when they match an organization exactly
+CREATE OR REPLACE FUNCTION public.sync_profile_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.organization_id IS NOT DISTINCT FROM OLD.organization_id
+    AND NEW.organization IS DISTINCT FROM OLD.organization THEN
+    NEW.organization_id := NULL;
+  END IF;
+
+  IF NEW.organization_id IS NULL AND NEW.organization IS NOT NULL AND btrim(NEW.organization) <> '' THEN
+    SELECT id INTO NEW.organization_id
+    FROM public.organizations
+    WHERE lower(btrim(name)) = lower(btrim(NEW.organization));
+  END IF;
+
+  IF NEW.organization_id IS NOT NULL THEN
+    SELECT name INTO NEW.organization
+    FROM public.organizations
+    WHERE id = NEW.organization_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_profile_organization ON public.profiles;
+CREATE TRIGGER sync_profile_organization
+  BEFORE INSERT OR UPDATE OF organization, organization_id ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_profile_organization();
+
+-- Renaming an organization renames it on every linked profile
+CREATE OR REPLACE FUNCTION public.handle_organization_rename()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE public.profiles
+    SET organization = NEW.name
+    WHERE organization_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_organization_rename ON public.organizations;
+CREATE TRIGGER handle_organization_rename
+  AFTER UPDATE ON public.organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_organization_rename();
+
+-- Fold one organization into another and delete it
+CREATE OR REPLACE FUNCTION public.merge_organizations(p_source_id uuid, p_target_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  moved_count integer;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can merge organizations';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Choose two different organizations to merge';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.organizations WHERE id = p_target_id) THEN
+    RAISE EXCEPTION 'Target organization not found';
+  END IF;
+
+  UPDATE public.profiles
+  SET organization_id = p_target_id
+  WHERE organization_id = p_source_id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+
+  DELETE FROM public.organizations WHERE id = p_source_id;
+
+  RETURN moved_count;
+END;
+$$;
+
+-- Link every unlinked profile whose free-text organization matches a value
+CREATE OR REPLACE FUNCTION public.link_organization_name(p_value text, p_organization_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  linked_count integer;
+BEGIN
+  IF NOT public.is_admin_user() THEN
+    RAISE EXCEPTION 'Only admins can link organizations';
+  END IF;
+
+  UPDATE public.profiles
+  SET organization_id = p_organization_id
+  WHERE organization_id IS NULL
+    AND lower(btrim(organization)) = lower(btrim(p_value));
+  GET DIAGNOSTICS linked_count = ROW_COUNT;
+
+  RETURN linked_count;
+END;
+$$;
+
+-- Deleting an organization leaves its members unassigned rather than re-linking by name
+CREATE OR REPLACE FUNCTION public.handle_organization_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET organization_id = NULL, organization = NULL
+  WHERE organization_id = OLD.id;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_organization_delete ON public.organizations;
+CREATE TRIGGER handle_organization_delete
+  BEFORE DELETE ON public.organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_organization_delete();
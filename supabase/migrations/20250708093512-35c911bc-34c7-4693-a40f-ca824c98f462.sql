@@ -0,0 +1,88 @@
+-- Organization managers (role 'org_manager') get read-only access to their own organization's members
+CREATE OR REPLACE FUNCTION public.is_org_manager_of(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles manager
+    JOIN public.profiles member ON member.organization_id = manager.organization_id
+    WHERE manager.id = auth.uid()
+      AND manager.role = 'org_manager'
+      AND member.id = p_user_id
+  );
+$$;
+
+-- Courses and lessons are readable when at least one managed member is assigned to the course
+CREATE OR REPLACE FUNCTION public.is_org_manager_course(p_course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_course_assignments uca
+    WHERE uca.course_id = p_course_id
+      AND public.is_org_manager_of(uca.user_id)
+  );
+$$;
+
+CREATE POLICY "Organization managers can view their members" ON public.profiles
+  FOR SELECT USING (public.is_org_manager_of(id));
+
+CREATE POLICY "Organization managers can view their members' progress" ON public.user_progress
+  FOR SELECT USING (public.is_org_manager_of(user_id));
+
+CREATE POLICY "Organization managers can view their members' course assignments" ON public.user_course_assignments
+  FOR SELECT USING (public.is_org_manager_of(user_id));
+
+CREATE POLICY "Organization managers can view their members' services" ON public.user_services
+  FOR SELECT USING (public.is_org_manager_of(user_id));
+
+CREATE POLICY "Organization managers can view their members' certificates" ON public.certificates
+  FOR SELECT USING (public.is_org_manager_of(user_id));
+
+CREATE POLICY "Organization managers can view their members' courses" ON public.courses
+  FOR SELECT USING (public.is_org_manager_course(id));
+
+CREATE POLICY "Organization managers can view their members' lessons" ON public.lessons
+  FOR SELECT USING (public.is_org_manager_course(course_id));
+
+-- Only admins change roles, and a manager can't move themselves into another organization.
+-- Runs before sync_profile_organization, so it sees the values the user actually sent.
+CREATE OR REPLACE FUNCTION public.protect_profile_access_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service-role calls (edge functions) have no auth.uid()
+  IF auth.uid() IS NULL OR public.is_admin_user() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  IF OLD.role = 'org_manager'
+    AND (NEW.organization_id IS DISTINCT FROM OLD.organization_id
+      OR NEW.organization IS DISTINCT FROM OLD.organization) THEN
+    RAISE EXCEPTION 'Only admins can change an organization manager''s organization';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_access_fields ON public.profiles;
+CREATE TRIGGER protect_profile_access_fields
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_access_fields();
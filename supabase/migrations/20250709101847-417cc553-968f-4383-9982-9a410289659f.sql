@@ -0,0 +1,326 @@
+-- Named capabilities granted per staff member (profiles with role 'admin')
+CREATE TABLE IF NOT EXISTS public.staff_permissions (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  permission text NOT NULL CHECK (permission IN (
+    'manage_users', 'manage_content', 'manage_files', 'manage_services', 'view_reports', 'manage_staff'
+  )),
+  granted_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  PRIMARY KEY (user_id, permission)
+);
+
+-- Existing admins keep full access
+INSERT INTO public.staff_permissions (user_id, permission)
+SELECT p.id, permission
+FROM public.profiles p
+CROSS JOIN unnest(ARRAY[
+  'manage_users', 'manage_content', 'manage_files', 'manage_services', 'view_reports', 'manage_staff'
+]) AS permission
+WHERE p.role = 'admin'
+ON CONFLICT (user_id, permission) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.staff_permissions sp
+    JOIN public.profiles p ON p.id = sp.user_id
+    WHERE sp.user_id = auth.uid()
+      AND p.role = 'admin'
+      AND sp.permission = p_permission
+  );
+$$;
+
+ALTER TABLE public.staff_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view their own permissions" ON public.staff_permissions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff managers can manage permissions" ON public.staff_permissions
+  FOR ALL USING (public.has_permission('manage_staff'))
+  WITH CHECK (public.has_permission('manage_staff'));
+
+-- The existing "Admins can manage ..." policies let any staff member write. These restrictive
+-- policies additionally require the matching capability for staff writes; reads and
+-- non-staff users are unaffected.
+DO $$
+DECLARE
+  scoped RECORD;
+BEGIN
+  FOR scoped IN
+    SELECT * FROM (VALUES
+      ('courses', 'manage_content'),
+      ('lessons', 'manage_content'),
+      ('lesson_blocks', 'manage_content'),
+      ('lesson_locks', 'manage_content'),
+      ('quiz_sets', 'manage_content'),
+      ('quiz_questions', 'manage_content'),
+      ('quiz_settings', 'manage_content'),
+      ('course_prerequisites', 'manage_content'),
+      ('learning_paths', 'manage_content'),
+      ('learning_path_courses', 'manage_content'),
+      ('prompts', 'manage_content'),
+      ('user_course_assignments', 'manage_users'),
+      ('user_lesson_locks', 'manage_users'),
+      ('user_learning_paths', 'manage_users'),
+      ('cohorts', 'manage_users'),
+      ('cohort_members', 'manage_users'),
+      ('cohort_courses', 'manage_users'),
+      ('cohort_services', 'manage_users'),
+      ('organizations', 'manage_users'),
+      ('certificates', 'manage_users'),
+      ('services', 'manage_services'),
+      ('user_services', 'manage_services'),
+      ('files', 'manage_files')
+    ) AS t(table_name, permission)
+  LOOP
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR INSERT WITH CHECK (NOT public.is_admin_user() OR public.has_permission(%L))',
+      'Staff need ' || scoped.permission || ' to insert', scoped.table_name, scoped.permission
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR UPDATE USING (NOT public.is_admin_user() OR public.has_permission(%L))',
+      'Staff need ' || scoped.permission || ' to update', scoped.table_name, scoped.permission
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR DELETE USING (NOT public.is_admin_user() OR public.has_permission(%L))',
+      'Staff need ' || scoped.permission || ' to delete', scoped.table_name, scoped.permission
+    );
+  END LOOP;
+END;
+$$;
+
+-- Staff may always edit their own profile; other profiles need manage_users
+-- (or manage_staff, which grants and removes admin access)
+CREATE POLICY "Staff need manage_users to update profiles" ON public.profiles
+  AS RESTRICTIVE FOR UPDATE
+  USING (
+    id = auth.uid()
+    OR NOT public.is_admin_user()
+    OR public.has_permission('manage_users')
+    OR public.has_permission('manage_staff')
+  );
+
+CREATE POLICY "Staff need manage_users to delete profiles" ON public.profiles
+  AS RESTRICTIVE FOR DELETE
+  USING (NOT public.is_admin_user() OR public.has_permission('manage_users'));
+
+-- Role changes need manage_users, except granting or removing admin access, which needs manage_staff
+CREATE OR REPLACE FUNCTION public.protect_profile_access_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service-role calls (edge functions) have no auth.uid()
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    IF 'admin' IN (NEW.role, OLD.role) THEN
+      IF NOT public.has_permission('manage_staff') THEN
+        RAISE EXCEPTION 'Only staff managers can grant or remove admin access';
+      END IF;
+    ELSIF NOT public.has_permission('manage_users') THEN
+      RAISE EXCEPTION 'Only admins can change roles';
+    END IF;
+  END IF;
+
+  IF OLD.role = 'org_manager'
+    AND NOT public.has_permission('manage_users')
+    AND (NEW.organization_id IS DISTINCT FROM OLD.organization_id
+      OR NEW.organization IS DISTINCT FROM OLD.organization) THEN
+    RAISE EXCEPTION 'Only admins can change an organization manager''s organization';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Admin RPCs run as SECURITY DEFINER and bypass RLS, so they check capabilities themselves
+CREATE OR REPLACE FUNCTION public.delete_course(p_course_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('manage_content') THEN
+    RAISE EXCEPTION 'Only staff with content access can delete courses';
+  END IF;
+
+  DELETE FROM public.user_lesson_locks WHERE course_id = p_course_id;
+  DELETE FROM public.user_progress WHERE course_id = p_course_id;
+  DELETE FROM public.user_course_assignments WHERE course_id = p_course_id;
+  DELETE FROM public.lessons WHERE course_id = p_course_id;
+  DELETE FROM public.courses WHERE id = p_course_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.duplicate_course(p_course_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_course_id uuid;
+  new_lesson_id uuid;
+  source_lesson RECORD;
+BEGIN
+  IF NOT public.has_permission('manage_content') THEN
+    RAISE EXCEPTION 'Only staff with content access can duplicate courses';
+  END IF;
+
+  INSERT INTO public.courses (title, description)
+  SELECT title || ' (Copy)', description
+  FROM public.courses
+  WHERE id = p_course_id
+  RETURNING id INTO new_course_id;
+
+  IF new_course_id IS NULL THEN
+    RAISE EXCEPTION 'Course not found';
+  END IF;
+
+  FOR source_lesson IN
+    SELECT * FROM public.lessons WHERE course_id = p_course_id
+  LOOP
+    INSERT INTO public.lessons (
+      course_id, title, description, instructor_notes, pdf_url, pdf_path, "order", quiz_set_id,
+      release_days_after_enrollment, release_at
+    )
+    VALUES (
+      new_course_id, source_lesson.title, source_lesson.description, source_lesson.instructor_notes,
+      source_lesson.pdf_url, source_lesson.pdf_path, source_lesson."order", source_lesson.quiz_set_id,
+      source_lesson.release_days_after_enrollment, source_lesson.release_at
+    )
+    RETURNING id INTO new_lesson_id;
+
+    INSERT INTO public.lesson_blocks (lesson_id, type, title, url, storage_path, file_name, body, "order", required)
+    SELECT new_lesson_id, type, title, url, storage_path, file_name, body, "order", required
+    FROM public.lesson_blocks
+    WHERE lesson_id = source_lesson.id;
+  END LOOP;
+
+  RETURN new_course_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reorder_lessons(p_course_id uuid, p_lesson_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('manage_content') THEN
+    RAISE EXCEPTION 'Only staff with content access can reorder lessons';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.lessons WHERE course_id = p_course_id) <> COALESCE(array_length(p_lesson_ids, 1), 0)
+    OR (SELECT COUNT(DISTINCT lesson_id) FROM unnest(p_lesson_ids) AS ids(lesson_id)) <> COALESCE(array_length(p_lesson_ids, 1), 0)
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_lesson_ids) AS ids(lesson_id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.lessons WHERE id = ids.lesson_id AND course_id = p_course_id
+      )
+    ) THEN
+    RAISE EXCEPTION 'The new order must include every lesson of the course exactly once';
+  END IF;
+
+  UPDATE public.lessons l
+  SET "order" = ids.position,
+      updated_at = now()
+  FROM unnest(p_lesson_ids) WITH ORDINALITY AS ids(lesson_id, position)
+  WHERE l.id = ids.lesson_id
+    AND l."order" IS DISTINCT FROM ids.position;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_learning_path(p_user_id uuid, p_path_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Only staff with user access can assign learning paths';
+  END IF;
+
+  INSERT INTO public.user_learning_paths (user_id, path_id)
+  VALUES (p_user_id, p_path_id)
+  ON CONFLICT (user_id, path_id) DO NOTHING;
+
+  INSERT INTO public.user_course_assignments (user_id, course_id, locked)
+  SELECT p_user_id, lpc.course_id, false
+  FROM public.learning_path_courses lpc
+  WHERE lpc.path_id = p_path_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_course_assignments a
+      WHERE a.user_id = p_user_id AND a.course_id = lpc.course_id
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.merge_organizations(p_source_id uuid, p_target_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  moved_count integer;
+BEGIN
+  IF NOT public.has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Only staff with user access can merge organizations';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Choose two different organizations to merge';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.organizations WHERE id = p_target_id) THEN
+    RAISE EXCEPTION 'Target organization not found';
+  END IF;
+
+  UPDATE public.profiles
+  SET organization_id = p_target_id
+  WHERE organization_id = p_source_id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+
+  DELETE FROM public.organizations WHERE id = p_source_id;
+
+  RETURN moved_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.link_organization_name(p_value text, p_organization_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  linked_count integer;
+BEGIN
+  IF NOT public.has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Only staff with user access can link organizations';
+  END IF;
+
+  UPDATE public.profiles
+  SET organization_id = p_organization_id
+  WHERE organization_id IS NULL
+    AND lower(btrim(organization)) = lower(btrim(p_value));
+  GET DIAGNOSTICS linked_count = ROW_COUNT;
+
+  RETURN linked_count;
+END;
+$$;
@@ -0,0 +1,132 @@
+-- Append-only record of staff and system changes. Rows are written by triggers and
+-- service-role edge functions only; actor details are copied so entries outlive deleted accounts.
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurred_at timestamp with time zone NOT NULL DEFAULT now(),
+  actor_id uuid,
+  actor_email text,
+  action text NOT NULL,
+  table_name text NOT NULL,
+  record_id text,
+  subject_user_id uuid,
+  old_data jsonb,
+  new_data jsonb
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_occurred_at_idx ON public.audit_log (occurred_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_table_name_idx ON public.audit_log (table_name);
+CREATE INDEX IF NOT EXISTS audit_log_actor_id_idx ON public.audit_log (actor_id);
+CREATE INDEX IF NOT EXISTS audit_log_subject_user_id_idx ON public.audit_log (subject_user_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff with reports access can view the audit log" ON public.audit_log
+  FOR SELECT USING (public.has_permission('view_reports'));
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM PUBLIC, anon, authenticated;
+
+-- Entries can never be edited or removed, not even by the service role
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_audit_log_changes ON public.audit_log;
+CREATE TRIGGER prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS prevent_audit_log_truncate ON public.audit_log;
+CREATE TRIGGER prevent_audit_log_truncate
+  BEFORE TRUNCATE ON public.audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- Log a row change made by staff or by the system (edge functions, cascades).
+-- Trigger arguments name the key columns for tables without an id column.
+CREATE OR REPLACE FUNCTION public.record_audit_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  audited_row jsonb := COALESCE(new_row, old_row);
+  key_columns text[] := CASE WHEN TG_NARGS > 0 THEN TG_ARGV ELSE ARRAY['id'] END;
+  audited_record_id text;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_admin_user() THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND old_row = new_row THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT string_agg(audited_row ->> key_column, ':')
+  INTO audited_record_id
+  FROM unnest(key_columns) AS key_column;
+
+  INSERT INTO public.audit_log (
+    actor_id, actor_email, action, table_name, record_id, subject_user_id, old_data, new_data
+  )
+  VALUES (
+    auth.uid(),
+    (SELECT email FROM public.profiles WHERE id = auth.uid()),
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    audited_record_id,
+    CASE
+      WHEN TG_TABLE_NAME = 'profiles' THEN (audited_row ->> 'id')::uuid
+      ELSE COALESCE(audited_row ->> 'user_id', audited_row ->> 'student_id')::uuid
+    END,
+    old_row,
+    new_row
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_audit_entry() FROM PUBLIC, anon, authenticated;
+
+DO $$
+DECLARE
+  audited RECORD;
+BEGIN
+  FOR audited IN
+    SELECT * FROM (VALUES
+      ('profiles', ''),
+      ('staff_permissions', '''user_id'', ''permission'''),
+      ('organizations', ''),
+      ('cohorts', ''),
+      ('cohort_members', ''),
+      ('courses', ''),
+      ('lessons', ''),
+      ('quiz_sets', ''),
+      ('learning_paths', ''),
+      ('user_course_assignments', ''),
+      ('user_lesson_locks', ''),
+      ('user_learning_paths', ''),
+      ('services', ''),
+      ('user_services', ''),
+      ('files', ''),
+      ('certificates', '')
+    ) AS t(table_name, key_columns)
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS record_audit_entry ON public.%I', audited.table_name);
+    EXECUTE format(
+      'CREATE TRIGGER record_audit_entry AFTER INSERT OR UPDATE OR DELETE ON public.%I FOR EACH ROW EXECUTE FUNCTION public.record_audit_entry(%s)',
+      audited.table_name, audited.key_columns
+    );
+  END LOOP;
+END;
+$$;
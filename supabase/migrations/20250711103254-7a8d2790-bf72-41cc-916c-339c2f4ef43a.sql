@@ -0,0 +1,47 @@
+-- Deactivated accounts keep all of their data; sign-in is blocked by banning the auth user
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS deactivated_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS deactivated_by uuid;
+
+CREATE INDEX IF NOT EXISTS profiles_deactivated_at_idx ON public.profiles (deactivated_at)
+  WHERE deactivated_at IS NOT NULL;
+
+-- Deactivation is only changed by the deactivate-user edge function, which also bans the
+-- auth user, so a direct update can never leave the two out of step
+CREATE OR REPLACE FUNCTION public.protect_profile_access_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service-role calls (edge functions) have no auth.uid()
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    IF 'admin' IN (NEW.role, OLD.role) THEN
+      IF NOT public.has_permission('manage_staff') THEN
+        RAISE EXCEPTION 'Only staff managers can grant or remove admin access';
+      END IF;
+    ELSIF NOT public.has_permission('manage_users') THEN
+      RAISE EXCEPTION 'Only admins can change roles';
+    END IF;
+  END IF;
+
+  IF OLD.role = 'org_manager'
+    AND NOT public.has_permission('manage_users')
+    AND (NEW.organization_id IS DISTINCT FROM OLD.organization_id
+      OR NEW.organization IS DISTINCT FROM OLD.organization) THEN
+    RAISE EXCEPTION 'Only admins can change an organization manager''s organization';
+  END IF;
+
+  IF NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at
+    OR NEW.deactivated_by IS DISTINCT FROM OLD.deactivated_by THEN
+    RAISE EXCEPTION 'Accounts can only be deactivated or restored through the admin portal';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
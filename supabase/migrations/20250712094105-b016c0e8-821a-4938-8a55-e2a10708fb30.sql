@@ -0,0 +1,22 @@
+-- Single-use, expiring invite links. Only a SHA-256 hash of the token is stored, so the
+-- link itself is shown once to the admin who issued it. Rows are written by edge functions.
+CREATE TABLE IF NOT EXISTS public.user_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  token_hash text NOT NULL UNIQUE,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  expires_at timestamp with time zone NOT NULL,
+  accepted_at timestamp with time zone,
+  revoked_at timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS user_invitations_user_id_idx ON public.user_invitations (user_id, created_at DESC);
+
+ALTER TABLE public.user_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff with user access can view invitations" ON public.user_invitations
+  FOR SELECT USING (public.has_permission('manage_users'));
+
+REVOKE INSERT, UPDATE, DELETE ON public.user_invitations FROM PUBLIC, anon, authenticated;
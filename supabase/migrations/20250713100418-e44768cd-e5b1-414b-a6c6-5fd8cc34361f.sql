@@ -0,0 +1,62 @@
+-- One-time recovery codes for users who lose their authenticator. Only SHA-256 hashes are
+-- stored; the use-recovery-code edge function checks a code and removes the user's factors.
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  used_at timestamp with time zone,
+  UNIQUE (user_id, code_hash)
+);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recovery codes" ON public.mfa_recovery_codes
+  FOR SELECT USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON public.mfa_recovery_codes FROM PUBLIC, anon, authenticated;
+
+-- True when the session has passed its second factor, or the user has none to pass
+CREATE OR REPLACE FUNCTION public.mfa_satisfied()
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+      WHERE user_id = auth.uid() AND status = 'verified'
+    );
+$$;
+
+-- Replaces the caller's recovery codes. Needs a verified second factor in this session,
+-- so a stolen password alone cannot mint new codes.
+CREATE OR REPLACE FUNCTION public.replace_mfa_recovery_codes(p_code_hashes text[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR COALESCE(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator code before changing recovery codes';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = auth.uid();
+
+  INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+  SELECT auth.uid(), code_hash
+  FROM unnest(p_code_hashes) AS code_hash;
+END;
+$$;
+
+-- Client documents stay out of reach of sessions that skipped their second factor
+DROP POLICY IF EXISTS "Files require a completed second factor" ON public.files;
+CREATE POLICY "Files require a completed second factor" ON public.files
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (public.mfa_satisfied())
+  WITH CHECK (public.mfa_satisfied());
@@ -0,0 +1,128 @@
+-- Active sessions live in auth.sessions, which clients cannot read. These functions expose
+-- them to their owner and to staff. Removing a session also removes its refresh tokens, so
+-- the device is signed out once its current access token expires (at most an hour).
+
+-- Sessions for a user that have not expired, most recently active first
+CREATE OR REPLACE FUNCTION public.list_auth_sessions(p_user_id uuid)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamp with time zone,
+  last_active_at timestamp with time zone,
+  user_agent text,
+  ip text,
+  aal text,
+  is_current boolean
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.refreshed_at AT TIME ZONE 'UTC', s.updated_at, s.created_at) AS last_active_at,
+    s.user_agent,
+    host(s.ip) AS ip,
+    s.aal::text,
+    s.id::text = auth.jwt() ->> 'session_id' AS is_current
+  FROM auth.sessions s
+  WHERE s.user_id = p_user_id
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY last_active_at DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_auth_sessions(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_my_sessions()
+RETURNS TABLE (
+  id uuid,
+  created_at timestamp with time zone,
+  last_active_at timestamp with time zone,
+  user_agent text,
+  ip text,
+  aal text,
+  is_current boolean
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT * FROM public.list_auth_sessions(auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_my_session(p_session_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM auth.sessions
+  WHERE id = p_session_id AND user_id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_user_sessions(p_user_id uuid)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamp with time zone,
+  last_active_at timestamp with time zone,
+  user_agent text,
+  ip text,
+  aal text,
+  is_current boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Only staff with user access can view sessions';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.list_auth_sessions(p_user_id);
+END;
+$$;
+
+-- Force sign-out, e.g. when someone leaves a client company. Returns the number of sessions ended.
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  revoked_count integer;
+BEGIN
+  IF NOT public.has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Only staff with user access can sign users out';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id AND role = 'admin')
+    AND NOT public.has_permission('manage_staff') THEN
+    RAISE EXCEPTION 'Only staff managers can sign out admin accounts';
+  END IF;
+
+  DELETE FROM auth.sessions WHERE user_id = p_user_id;
+  GET DIAGNOSTICS revoked_count = ROW_COUNT;
+
+  INSERT INTO public.audit_log (
+    actor_id, actor_email, action, table_name, record_id, subject_user_id, new_data
+  )
+  VALUES (
+    auth.uid(),
+    (SELECT email FROM public.profiles WHERE id = auth.uid()),
+    'revoke_sessions',
+    'auth.sessions',
+    p_user_id::text,
+    p_user_id,
+    jsonb_build_object('sessions_revoked', revoked_count)
+  );
+
+  RETURN revoked_count;
+END;
+$$;
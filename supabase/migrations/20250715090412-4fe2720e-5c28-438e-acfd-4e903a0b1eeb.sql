@@ -0,0 +1,70 @@
+-- One progress row per student per lesson. Earlier read-then-write code could race and
+-- create duplicates, so fold them into the oldest row before adding the constraint.
+ALTER TABLE public.user_progress DISABLE TRIGGER USER;
+
+WITH ranked AS (
+  SELECT
+    id,
+    FIRST_VALUE(id) OVER (PARTITION BY user_id, lesson_id ORDER BY created_at, id) AS keep_id
+  FROM public.user_progress
+  WHERE user_id IS NOT NULL AND lesson_id IS NOT NULL
+),
+merged AS (
+  SELECT
+    ranked.keep_id,
+    bool_or(p.completed) AS completed,
+    bool_or(p.pdf_viewed) AS pdf_viewed,
+    MAX(p.quiz_score) AS quiz_score,
+    SUM(p.quiz_attempts) AS quiz_attempts,
+    SUM(p.time_spent) AS time_spent,
+    MAX(p.updated_at) AS updated_at
+  FROM ranked
+  JOIN public.user_progress p ON p.id = ranked.id
+  GROUP BY ranked.keep_id
+  HAVING COUNT(*) > 1
+)
+UPDATE public.user_progress p
+SET completed = merged.completed,
+    pdf_viewed = merged.pdf_viewed,
+    quiz_score = merged.quiz_score,
+    quiz_attempts = merged.quiz_attempts,
+    time_spent = merged.time_spent,
+    updated_at = merged.updated_at
+FROM merged
+WHERE p.id = merged.keep_id;
+
+DELETE FROM public.user_progress p
+USING (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id, lesson_id ORDER BY created_at, id) AS position
+  FROM public.user_progress
+  WHERE user_id IS NOT NULL AND lesson_id IS NOT NULL
+) ranked
+WHERE p.id = ranked.id
+  AND ranked.position > 1;
+
+ALTER TABLE public.user_progress ENABLE TRIGGER USER;
+
+ALTER TABLE public.user_progress
+  ADD CONSTRAINT user_progress_user_id_lesson_id_key UNIQUE (user_id, lesson_id);
+
+-- Accumulate active lesson viewing time reported by the lesson viewer
+CREATE OR REPLACE FUNCTION public.record_lesson_time(p_course_id uuid, p_lesson_id uuid, p_seconds integer)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  -- A single report covers at most one flush interval plus slack
+  capped_seconds integer := LEAST(GREATEST(p_seconds, 0), 900);
+BEGIN
+  IF auth.uid() IS NULL OR capped_seconds = 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.user_progress (user_id, course_id, lesson_id, time_spent)
+  VALUES (auth.uid(), p_course_id, p_lesson_id, capped_seconds)
+  ON CONFLICT (user_id, lesson_id) DO UPDATE
+  SET time_spent = user_progress.time_spent + EXCLUDED.time_spent,
+      updated_at = now();
+END;
+$$;
@@ -0,0 +1,177 @@
+-- Lesson locks, drip release and course order were only enforced by the React views. These
+-- helpers mirror getLessonLockReason so the lesson, block and storage policies enforce them too.
+
+-- Completed, and at the pass mark when the lesson has a quiz (mirrors isLessonPassed)
+CREATE OR REPLACE FUNCTION public.is_lesson_passed(p_user_id uuid, p_lesson_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_progress p
+    JOIN public.lessons l ON l.id = p.lesson_id
+    LEFT JOIN LATERAL (
+      SELECT enforce_pass_mark, pass_mark_percentage
+      FROM public.quiz_settings
+      ORDER BY created_at
+      LIMIT 1
+    ) settings ON true
+    WHERE p.user_id = p_user_id
+      AND p.lesson_id = p_lesson_id
+      AND p.completed
+      AND (
+        l.quiz_set_id IS NULL
+        OR settings.enforce_pass_mark IS NOT TRUE
+        OR COALESCE(p.quiz_score, -1) >= settings.pass_mark_percentage
+      )
+  );
+$$;
+
+-- 'admin', 'scheduled' or 'sequence', or NULL when the lesson is open to the user
+CREATE OR REPLACE FUNCTION public.get_lesson_lock_reason(p_user_id uuid, p_lesson_id uuid)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.user_lesson_locks
+      WHERE user_id = p_user_id AND lesson_id = p_lesson_id AND locked
+    ) THEN 'admin'
+    WHEN public.get_lesson_release_at(p_user_id, p_lesson_id) > now() THEN 'scheduled'
+    WHEN EXISTS (
+      SELECT 1
+      FROM (
+        SELECT previous.id
+        FROM public.lessons l
+        JOIN public.lessons previous ON previous.course_id = l.course_id AND previous."order" < l."order"
+        WHERE l.id = p_lesson_id
+        ORDER BY previous."order" DESC
+        LIMIT 1
+      ) previous_lesson
+      WHERE NOT public.is_lesson_passed(p_user_id, previous_lesson.id)
+    ) THEN 'sequence'
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_lesson_passed(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_lesson_lock_reason(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Lesson content is readable once the course is open and the lesson itself is unlocked
+CREATE OR REPLACE FUNCTION public.can_open_lesson(p_lesson_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.is_admin_user() OR EXISTS (
+    SELECT 1 FROM public.lessons
+    WHERE id = p_lesson_id
+      AND public.has_course_access(course_id)
+      AND public.get_lesson_lock_reason(auth.uid(), id) IS NULL
+  );
+$$;
+
+-- Titles and schedules of every lesson in an open course, locked or not, for the course page.
+-- Content columns (PDF, notes, blocks) stay behind can_open_lesson.
+CREATE OR REPLACE FUNCTION public.get_course_outline(p_course_id uuid)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  "order" integer,
+  quiz_set_id uuid,
+  release_at timestamp with time zone,
+  release_days_after_enrollment integer,
+  block_types text[]
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.id,
+    l.title,
+    l.description,
+    l."order",
+    l.quiz_set_id,
+    l.release_at,
+    l.release_days_after_enrollment,
+    ARRAY(SELECT DISTINCT b.type FROM public.lesson_blocks b WHERE b.lesson_id = l.id)
+  FROM public.lessons l
+  WHERE l.course_id = p_course_id
+    AND public.has_course_access(p_course_id)
+  ORDER BY l."order";
+$$;
+
+DROP POLICY IF EXISTS "Enrolled users can view lessons" ON public.lessons;
+CREATE POLICY "Enrolled users can view unlocked lessons" ON public.lessons
+  FOR SELECT USING (public.can_open_lesson(id));
+
+DROP POLICY IF EXISTS "Enrolled users can view lesson blocks" ON public.lesson_blocks;
+CREATE POLICY "Enrolled users can view unlocked lesson blocks" ON public.lesson_blocks
+  FOR SELECT USING (public.can_open_lesson(lesson_id));
+
+DROP POLICY IF EXISTS "Users can record their own block views" ON public.lesson_block_views;
+CREATE POLICY "Users can record their own block views" ON public.lesson_block_views
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND public.can_open_lesson(lesson_id));
+
+DROP POLICY IF EXISTS "Enrolled users can read lesson materials" ON storage.objects;
+CREATE POLICY "Enrolled users can read lesson materials" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'lesson-materials'
+    AND EXISTS (
+      SELECT 1 FROM public.lessons
+      WHERE lessons.pdf_path = storage.objects.name
+        AND public.can_open_lesson(lessons.id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Enrolled users can read lesson block files" ON storage.objects;
+CREATE POLICY "Enrolled users can read lesson block files" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'lesson-materials'
+    AND EXISTS (
+      SELECT 1 FROM public.lesson_blocks
+      WHERE lesson_blocks.storage_path = storage.objects.name
+        AND public.can_open_lesson(lesson_blocks.lesson_id)
+    )
+  );
+
+-- Progress can only be recorded on lessons the student can open (replaces the release-only check)
+CREATE OR REPLACE FUNCTION public.enforce_lesson_release()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  available_at timestamp with time zone;
+  lock_reason text;
+BEGIN
+  IF public.is_admin_user() THEN
+    RETURN NEW;
+  END IF;
+
+  available_at := public.get_lesson_release_at(NEW.user_id, NEW.lesson_id);
+
+  IF available_at IS NOT NULL AND available_at > now() THEN
+    RAISE EXCEPTION 'This lesson is not available until %', to_char(available_at, 'YYYY-MM-DD HH24:MI TZ');
+  END IF;
+
+  lock_reason := public.get_lesson_lock_reason(NEW.user_id, NEW.lesson_id);
+
+  IF lock_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'This lesson is locked';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,133 @@
+-- Quizzes are graded in the database. Students read questions without their answers, and
+-- quiz scores, attempts and completion are only written by the functions below, so the
+-- pass-mark trigger checks a score the student could not have set themselves.
+DROP POLICY IF EXISTS "Authenticated users can view quiz questions" ON public.quiz_questions;
+
+-- Questions of quizzes attached to lessons the user can open, minus the correct answer
+CREATE OR REPLACE VIEW public.student_quiz_questions
+WITH (security_barrier) AS
+  SELECT q.id, q.quiz_set_id, q.question, q.options, q."order", q.created_at
+  FROM public.quiz_questions q
+  WHERE EXISTS (
+    SELECT 1 FROM public.lessons l
+    WHERE l.quiz_set_id = q.quiz_set_id
+      AND public.can_open_lesson(l.id)
+  );
+
+REVOKE ALL ON public.student_quiz_questions FROM PUBLIC, anon;
+GRANT SELECT ON public.student_quiz_questions TO authenticated;
+
+REVOKE INSERT, UPDATE ON public.user_progress FROM anon, authenticated;
+
+-- Grade an attempt. p_answers maps question ids to the chosen option index.
+-- quiz_score keeps the student's best attempt.
+CREATE OR REPLACE FUNCTION public.submit_quiz(p_lesson_id uuid, p_answers jsonb)
+RETURNS TABLE (score integer, best_score integer, attempts integer, correct_question_ids uuid[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quiz_lesson RECORD;
+  question_count integer;
+  answered_count integer;
+  correct_ids uuid[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, course_id, quiz_set_id INTO quiz_lesson
+  FROM public.lessons
+  WHERE id = p_lesson_id;
+
+  IF NOT FOUND OR quiz_lesson.quiz_set_id IS NULL THEN
+    RAISE EXCEPTION 'This lesson has no quiz';
+  END IF;
+
+  IF NOT public.can_open_lesson(p_lesson_id) THEN
+    RAISE EXCEPTION 'This lesson is locked';
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE p_answers ? q.id::text),
+    COALESCE(array_agg(q.id) FILTER (WHERE p_answers ->> q.id::text = q.correct_answer::text), '{}')
+  INTO question_count, answered_count, correct_ids
+  FROM public.quiz_questions q
+  WHERE q.quiz_set_id = quiz_lesson.quiz_set_id;
+
+  IF question_count = 0 THEN
+    RAISE EXCEPTION 'This quiz has no questions';
+  END IF;
+
+  IF answered_count < question_count THEN
+    RAISE EXCEPTION 'Answer every question before submitting';
+  END IF;
+
+  score := round(cardinality(correct_ids) * 100.0 / question_count);
+  correct_question_ids := correct_ids;
+
+  INSERT INTO public.user_progress (user_id, course_id, lesson_id, quiz_score, quiz_attempts)
+  VALUES (auth.uid(), quiz_lesson.course_id, p_lesson_id, score, 1)
+  ON CONFLICT (user_id, lesson_id) DO UPDATE
+  SET quiz_score = GREATEST(user_progress.quiz_score, EXCLUDED.quiz_score),
+      quiz_attempts = user_progress.quiz_attempts + 1,
+      updated_at = now()
+  RETURNING user_progress.quiz_score, user_progress.quiz_attempts INTO best_score, attempts;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Mark a lesson complete; the pass-mark, required-block and release triggers still apply
+CREATE OR REPLACE FUNCTION public.complete_lesson(p_lesson_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.can_open_lesson(p_lesson_id) THEN
+    RAISE EXCEPTION 'This lesson is locked';
+  END IF;
+
+  INSERT INTO public.user_progress (user_id, course_id, lesson_id, completed, pdf_viewed)
+  SELECT auth.uid(), course_id, id, true, true
+  FROM public.lessons
+  WHERE id = p_lesson_id
+  ON CONFLICT (user_id, lesson_id) DO UPDATE
+  SET completed = true,
+      pdf_viewed = true,
+      updated_at = now();
+END;
+$$;
+
+-- Now that clients cannot write progress rows, time is recorded with definer rights as well
+CREATE OR REPLACE FUNCTION public.record_lesson_time(p_course_id uuid, p_lesson_id uuid, p_seconds integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- A single report covers at most one flush interval plus slack
+  capped_seconds integer := LEAST(GREATEST(p_seconds, 0), 900);
+BEGIN
+  IF auth.uid() IS NULL OR capped_seconds = 0 OR NOT public.can_open_lesson(p_lesson_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.user_progress (user_id, course_id, lesson_id, time_spent)
+  SELECT auth.uid(), course_id, id, capped_seconds
+  FROM public.lessons
+  WHERE id = p_lesson_id AND course_id = p_course_id
+  ON CONFLICT (user_id, lesson_id) DO UPDATE
+  SET time_spent = user_progress.time_spent + EXCLUDED.time_spent,
+      updated_at = now();
+END;
+$$;
@@ -0,0 +1,17 @@
+-- Delete a quiz set in a single transaction: detach it from lessons, then remove its questions
+CREATE OR REPLACE FUNCTION public.delete_quiz_set(p_quiz_set_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('manage_content') THEN
+    RAISE EXCEPTION 'Only staff with content access can delete quizzes';
+  END IF;
+
+  UPDATE public.lessons SET quiz_set_id = NULL, updated_at = now() WHERE quiz_set_id = p_quiz_set_id;
+  DELETE FROM public.quiz_questions WHERE quiz_set_id = p_quiz_set_id;
+  DELETE FROM public.quiz_sets WHERE id = p_quiz_set_id;
+END;
+$$;
@@ -0,0 +1,6 @@
+-- The catalogue lists every live course, with unassigned ones shown as locked, so course
+-- titles and descriptions stay readable to signed-in users. Lessons and their content
+-- remain limited to enrolled students.
+DROP POLICY IF EXISTS "Authenticated users can view the course catalog" ON public.courses;
+CREATE POLICY "Authenticated users can view the course catalog" ON public.courses
+  FOR SELECT USING (auth.uid() IS NOT NULL AND archived_at IS NULL);
@@ -0,0 +1,67 @@
+-- A course counts as completed once every one of its lessons is passed, so lessons with a
+-- failed quiz hold back prerequisites and certificates just as they hold back the next lesson
+CREATE OR REPLACE FUNCTION public.is_course_completed(p_user_id uuid, p_course_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.lessons WHERE course_id = p_course_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.lessons l
+      WHERE l.course_id = p_course_id
+        AND NOT public.is_lesson_passed(p_user_id, l.id)
+    );
+$$;
+
+-- Issue (or return the existing) certificate once every lesson of the course is passed
+CREATE OR REPLACE FUNCTION public.issue_certificate(p_course_id uuid)
+RETURNS public.certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  certificate public.certificates;
+  last_completed_at timestamp with time zone;
+  code text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO certificate
+  FROM public.certificates
+  WHERE user_id = auth.uid() AND course_id = p_course_id;
+
+  IF FOUND THEN
+    RETURN certificate;
+  END IF;
+
+  IF NOT public.is_course_completed(auth.uid(), p_course_id) THEN
+    RAISE EXCEPTION 'Complete every lesson in the course to receive a certificate';
+  END IF;
+
+  SELECT MAX(p.updated_at) INTO last_completed_at
+  FROM public.user_progress p
+  JOIN public.lessons l ON l.id = p.lesson_id AND l.course_id = p_course_id
+  WHERE p.user_id = auth.uid()
+    AND p.completed;
+
+  -- Codes look like 4F9A-C21B-7D03
+  LOOP
+    code := upper(regexp_replace(substr(replace(gen_random_uuid()::text, '-', ''), 1, 12), '(.{4})(.{4})(.{4})', '\1-\2-\3'));
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.certificates WHERE verification_code = code);
+  END LOOP;
+
+  INSERT INTO public.certificates (user_id, course_id, student_name, course_title, verification_code, completed_at)
+  SELECT auth.uid(), c.id, COALESCE(NULLIF(pr.name, ''), pr.email), c.title, code, COALESCE(last_completed_at, now())
+  FROM public.courses c
+  JOIN public.profiles pr ON pr.id = auth.uid()
+  WHERE c.id = p_course_id
+  RETURNING * INTO certificate;
+
+  RETURN certificate;
+END;
+$$;
@@ -0,0 +1,43 @@
+-- Organization membership decides what managers and org-scoped reports can see, so it is
+-- no longer something a student can pick by typing a client's name into their profile
+DROP POLICY IF EXISTS "Authenticated users can view organizations" ON public.organizations;
+CREATE POLICY "Members can view their own organization" ON public.organizations
+  FOR SELECT USING (
+    id IN (SELECT organization_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+-- Keep the legacy text column in sync: a linked organization's name wins. Typed names only
+-- link automatically for staff with user access and service-role calls (edge functions);
+-- anyone else keeps the organization they were given.
+CREATE OR REPLACE FUNCTION public.sync_profile_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND NOT public.has_permission('manage_users') THEN
+    NEW.organization_id := CASE WHEN TG_OP = 'UPDATE' THEN OLD.organization_id END;
+  ELSE
+    IF TG_OP = 'UPDATE'
+      AND NEW.organization_id IS NOT DISTINCT FROM OLD.organization_id
+      AND NEW.organization IS DISTINCT FROM OLD.organization THEN
+      NEW.organization_id := NULL;
+    END IF;
+
+    IF NEW.organization_id IS NULL AND NEW.organization IS NOT NULL AND btrim(NEW.organization) <> '' THEN
+      SELECT id INTO NEW.organization_id
+      FROM public.organizations
+      WHERE lower(btrim(name)) = lower(btrim(NEW.organization));
+    END IF;
+  END IF;
+
+  IF NEW.organization_id IS NOT NULL THEN
+    SELECT name INTO NEW.organization
+    FROM public.organizations
+    WHERE id = NEW.organization_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,68 @@
+-- Student file uploads were open to any signed-in user. Writes to the bucket now need
+-- manage_files, and staff can only overwrite objects they uploaded themselves.
+DROP POLICY IF EXISTS "Allow authenticated users to upload files" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated users to update files" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated users to delete files" ON storage.objects;
+
+CREATE POLICY "File managers can upload student files" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'student-files'
+    AND public.has_permission('manage_files')
+    AND owner = auth.uid()
+  );
+
+CREATE POLICY "File managers can update their own uploads" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'student-files'
+    AND public.has_permission('manage_files')
+    AND owner = auth.uid()
+  );
+
+CREATE POLICY "File managers can delete student files" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'student-files'
+    AND public.has_permission('manage_files')
+  );
+
+-- The "Admins can view ..." policies still let any staff member read learner data, so
+-- view_reports only hid the dashboard. Staff reads now need view_reports or the
+-- capability whose pages show the table; students and org managers are unaffected.
+DO $$
+DECLARE
+  scoped RECORD;
+BEGIN
+  FOR scoped IN
+    SELECT * FROM (VALUES
+      ('user_progress', ARRAY['manage_users', 'manage_content']),
+      ('lesson_block_views', ARRAY['manage_users']),
+      ('user_course_assignments', ARRAY['manage_users', 'manage_content']),
+      ('user_lesson_locks', ARRAY['manage_users', 'manage_content']),
+      ('user_learning_paths', ARRAY['manage_users']),
+      ('cohort_members', ARRAY['manage_users']),
+      ('certificates', ARRAY['manage_users']),
+      ('user_services', ARRAY['manage_users', 'manage_services']),
+      ('files', ARRAY['manage_files'])
+    ) AS t(table_name, permissions)
+  LOOP
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR SELECT USING (NOT public.is_admin_user() OR public.has_permission(%L) OR %s)',
+      'Staff need view_reports to read', scoped.table_name, 'view_reports',
+      (SELECT string_agg(format('public.has_permission(%L)', permission), ' OR ') FROM unnest(scoped.permissions) AS permission)
+    );
+  END LOOP;
+END;
+$$;
+
+-- Every admin page lists people, so other profiles are readable with any capability
+CREATE POLICY "Staff need a permission to read profiles" ON public.profiles
+  AS RESTRICTIVE FOR SELECT
+  USING (
+    id = auth.uid()
+    OR NOT public.is_admin_user()
+    OR public.has_permission('view_reports')
+    OR public.has_permission('manage_users')
+    OR public.has_permission('manage_content')
+    OR public.has_permission('manage_files')
+    OR public.has_permission('manage_services')
+    OR public.has_permission('manage_staff')
+  );
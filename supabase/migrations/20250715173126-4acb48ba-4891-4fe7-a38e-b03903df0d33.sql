@@ -0,0 +1,20 @@
+-- Banning a deactivated user stops new sign-ins and token refreshes, but their existing
+-- sessions stayed listed and usable. The deactivate-user edge function ends them here.
+CREATE OR REPLACE FUNCTION public.end_user_sessions(p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  revoked_count integer;
+BEGIN
+  DELETE FROM auth.sessions WHERE user_id = p_user_id;
+  GET DIAGNOSTICS revoked_count = ROW_COUNT;
+
+  RETURN revoked_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.end_user_sessions(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.end_user_sessions(uuid) TO service_role;
@@ -0,0 +1,20 @@
+-- Staff capabilities only apply to sessions that have passed their second factor. The admin
+-- portal already asks for one, but the API did not, so a stolen password reached every
+-- staff policy and RPC. Every capability check goes through has_permission.
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    AND EXISTS (
+      SELECT 1
+      FROM public.staff_permissions sp
+      JOIN public.profiles p ON p.id = sp.user_id
+      WHERE sp.user_id = auth.uid()
+        AND p.role = 'admin'
+        AND sp.permission = p_permission
+    );
+$$;
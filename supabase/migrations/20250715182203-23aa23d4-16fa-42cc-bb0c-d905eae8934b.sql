@@ -0,0 +1,23 @@
+-- Student documents were in a public bucket, so anyone holding a file URL could fetch it
+-- without signing in, and any signed-in user could read every student's files. The bucket
+-- is now private and files are served through signed URLs. Objects live under
+-- student_files/<student id>/, so students can only read their own folder; staff need
+-- manage_files. Both need a completed second factor when they have one enrolled. Writes
+-- already need manage_files, which has_permission only grants to aal2 sessions.
+--
+-- The "Files require a completed second factor" policy added in 20250713100418 only
+-- covers rows in public.files, not the stored objects, which stayed readable through the
+-- public bucket until this migration.
+UPDATE storage.buckets SET public = false WHERE id = 'student-files';
+
+DROP POLICY IF EXISTS "Allow authenticated users to download files" ON storage.objects;
+
+CREATE POLICY "Students and file managers can download student files" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'student-files'
+    AND public.mfa_satisfied()
+    AND (
+      public.has_permission('manage_files')
+      OR (storage.foldername(name))[2] = auth.uid()::text
+    )
+  );
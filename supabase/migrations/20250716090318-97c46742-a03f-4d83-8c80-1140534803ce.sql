@@ -0,0 +1,14 @@
+-- Staff who can read file records (view_reports or manage_files, as on public.files) can
+-- also preview and download the files themselves
+DROP POLICY IF EXISTS "Students and file managers can download student files" ON storage.objects;
+
+CREATE POLICY "Students and file managers can download student files" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'student-files'
+    AND public.mfa_satisfied()
+    AND (
+      public.has_permission('view_reports')
+      OR public.has_permission('manage_files')
+      OR (storage.foldername(name))[2] = auth.uid()::text
+    )
+  );
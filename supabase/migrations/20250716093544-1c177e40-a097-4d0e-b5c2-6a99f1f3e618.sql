@@ -0,0 +1,58 @@
+-- Requiring a second factor for every staff capability locked out staff who had not
+-- enrolled one yet. It is now a portal-wide setting, off by default. Until it is turned on,
+-- staff follow the same rule as students (mfa_satisfied): a verified factor must be used.
+CREATE TABLE IF NOT EXISTS public.security_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  require_staff_mfa boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+INSERT INTO public.security_settings (require_staff_mfa)
+SELECT false
+WHERE NOT EXISTS (SELECT 1 FROM public.security_settings);
+
+ALTER TABLE public.security_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view security settings" ON public.security_settings
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Staff managers can update security settings" ON public.security_settings
+  FOR UPDATE USING (public.has_permission('manage_staff'))
+  WITH CHECK (public.has_permission('manage_staff'));
+
+-- The session has passed its second factor, or needs none: staff MFA is not required
+-- and the user has not enrolled a factor
+CREATE OR REPLACE FUNCTION public.staff_mfa_satisfied()
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    OR (
+      NOT COALESCE((
+        SELECT require_staff_mfa FROM public.security_settings ORDER BY created_at LIMIT 1
+      ), false)
+      AND public.mfa_satisfied()
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.staff_mfa_satisfied()
+    AND EXISTS (
+      SELECT 1
+      FROM public.staff_permissions sp
+      JOIN public.profiles p ON p.id = sp.user_id
+      WHERE sp.user_id = auth.uid()
+        AND p.role = 'admin'
+        AND sp.permission = p_permission
+    );
+$$;
@@ -0,0 +1,32 @@
+-- The row-level compact trigger shifted lessons once per deleted row using that row's
+-- old position, so deleting several lessons of a course in one statement shifted some
+-- lessons twice and broke the (course_id, order) constraint at commit. Renumber each
+-- affected course once per statement instead.
+DROP TRIGGER IF EXISTS compact_lesson_order ON public.lessons;
+
+CREATE OR REPLACE FUNCTION public.compact_lesson_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  WITH numbered AS (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY course_id ORDER BY "order", created_at) AS new_order
+    FROM public.lessons
+    WHERE course_id IN (SELECT DISTINCT course_id FROM deleted_lessons)
+  )
+  UPDATE public.lessons l
+  SET "order" = numbered.new_order
+  FROM numbered
+  WHERE l.id = numbered.id
+    AND l."order" IS DISTINCT FROM numbered.new_order;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER compact_lesson_order
+  AFTER DELETE ON public.lessons
+  REFERENCING OLD TABLE AS deleted_lessons
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.compact_lesson_order();
@@ -0,0 +1,104 @@
+-- A learning path could list a course before one of its own prerequisites, which no
+-- learner can ever get past. Paths are now checked against the prerequisite graph
+-- whenever either of them changes.
+
+-- The first course in the path that comes before one of its (direct or indirect)
+-- prerequisites, with that prerequisite
+CREATE OR REPLACE FUNCTION public.find_learning_path_conflict(p_path_id uuid)
+RETURNS TABLE (course_title text, prerequisite_title text)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE requires AS (
+    SELECT course_id, prerequisite_course_id
+    FROM public.course_prerequisites
+    UNION
+    SELECT requires.course_id, cp.prerequisite_course_id
+    FROM requires
+    JOIN public.course_prerequisites cp ON cp.course_id = requires.prerequisite_course_id
+  )
+  SELECT course.title, prerequisite.title
+  FROM public.learning_path_courses earlier
+  JOIN public.learning_path_courses later
+    ON later.path_id = earlier.path_id AND later.position > earlier.position
+  JOIN requires
+    ON requires.course_id = earlier.course_id AND requires.prerequisite_course_id = later.course_id
+  JOIN public.courses course ON course.id = earlier.course_id
+  JOIN public.courses prerequisite ON prerequisite.id = later.course_id
+  WHERE earlier.path_id = p_path_id
+  ORDER BY earlier.position, later.position
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_learning_path_conflict(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Statement-level so a path saved in one insert is checked once it is complete
+CREATE OR REPLACE FUNCTION public.check_learning_path_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  path RECORD;
+  conflict RECORD;
+BEGIN
+  FOR path IN SELECT DISTINCT path_id FROM changed_path_courses LOOP
+    SELECT * INTO conflict FROM public.find_learning_path_conflict(path.path_id);
+
+    IF FOUND THEN
+      RAISE EXCEPTION '"%" must come after its prerequisite "%" in this learning path',
+        conflict.course_title, conflict.prerequisite_title;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_learning_path_order_on_insert ON public.learning_path_courses;
+CREATE TRIGGER check_learning_path_order_on_insert
+  AFTER INSERT ON public.learning_path_courses
+  REFERENCING NEW TABLE AS changed_path_courses
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.check_learning_path_order();
+
+DROP TRIGGER IF EXISTS check_learning_path_order_on_update ON public.learning_path_courses;
+CREATE TRIGGER check_learning_path_order_on_update
+  AFTER UPDATE ON public.learning_path_courses
+  REFERENCING NEW TABLE AS changed_path_courses
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.check_learning_path_order();
+
+-- A new prerequisite can contradict a path through any chain of prerequisites, so every
+-- path is checked again
+CREATE OR REPLACE FUNCTION public.check_prerequisites_against_paths()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  path RECORD;
+  conflict RECORD;
+BEGIN
+  FOR path IN SELECT id, title FROM public.learning_paths LOOP
+    SELECT * INTO conflict FROM public.find_learning_path_conflict(path.id);
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'Learning path "%" puts "%" before its prerequisite "%"; reorder the path first',
+        path.title, conflict.course_title, conflict.prerequisite_title;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_prerequisites_against_paths ON public.course_prerequisites;
+CREATE TRIGGER check_prerequisites_against_paths
+  AFTER INSERT OR UPDATE ON public.course_prerequisites
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.check_prerequisites_against_paths();
@@ -0,0 +1,65 @@
+-- Save a quiz set and its questions in a single transaction so a failed save cannot leave a
+-- half-edited quiz for students. p_questions is the full ordered list, each
+-- { id?, question, options, correct_answer }; questions without an id are added, and stored
+-- questions missing from the list are removed. Pass a NULL id to create a new set.
+CREATE OR REPLACE FUNCTION public.save_quiz_set(p_quiz_set_id uuid, p_title text, p_questions jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  saved_id uuid := p_quiz_set_id;
+BEGIN
+  IF NOT public.has_permission('manage_content') THEN
+    RAISE EXCEPTION 'Only staff with content access can edit quizzes';
+  END IF;
+
+  IF saved_id IS NULL THEN
+    INSERT INTO public.quiz_sets (title)
+    VALUES (p_title)
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE public.quiz_sets
+    SET title = p_title,
+        updated_at = now()
+    WHERE id = saved_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quiz not found';
+    END IF;
+  END IF;
+
+  CREATE TEMP TABLE submitted_questions ON COMMIT DROP AS
+  SELECT
+    NULLIF(q.value ->> 'id', '')::uuid AS id,
+    q.value ->> 'question' AS question,
+    q.value -> 'options' AS options,
+    (q.value ->> 'correct_answer')::integer AS correct_answer,
+    q.position::integer AS position
+  FROM jsonb_array_elements(COALESCE(p_questions, '[]'::jsonb)) WITH ORDINALITY AS q(value, position);
+
+  DELETE FROM public.quiz_questions
+  WHERE quiz_set_id = saved_id
+    AND id NOT IN (SELECT id FROM submitted_questions WHERE id IS NOT NULL);
+
+  UPDATE public.quiz_questions qq
+  SET question = sq.question,
+      options = sq.options,
+      correct_answer = sq.correct_answer,
+      "order" = sq.position,
+      updated_at = now()
+  FROM submitted_questions sq
+  WHERE qq.id = sq.id
+    AND qq.quiz_set_id = saved_id;
+
+  INSERT INTO public.quiz_questions (quiz_set_id, question, options, correct_answer, "order")
+  SELECT saved_id, question, options, correct_answer, position
+  FROM submitted_questions
+  WHERE id IS NULL;
+
+  DROP TABLE submitted_questions;
+
+  RETURN saved_id;
+END;
+$$;
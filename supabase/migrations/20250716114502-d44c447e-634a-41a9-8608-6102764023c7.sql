@@ -0,0 +1,66 @@
+-- A view row could name a block from a different lesson than the one it was recorded
+-- against, so a student could mark blocks of a locked lesson as viewed
+DROP POLICY IF EXISTS "Users can record their own block views" ON public.lesson_block_views;
+CREATE POLICY "Users can record their own block views" ON public.lesson_block_views
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.lesson_blocks b
+      WHERE b.id = lesson_block_views.block_id
+        AND b.lesson_id = lesson_block_views.lesson_id
+    )
+    AND public.can_open_lesson(lesson_id)
+  );
+
+-- Replace a lesson's content blocks in a single transaction so a failed save cannot leave
+-- a lesson with some of its blocks, or its required blocks, missing. p_blocks is the full
+-- ordered list; blocks with an id are updated, the rest added, and stored blocks missing
+-- from the list removed. Files are uploaded by the client beforehand.
+CREATE OR REPLACE FUNCTION public.save_lesson_blocks(p_lesson_id uuid, p_blocks jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('manage_content') THEN
+    RAISE EXCEPTION 'Only staff with content access can edit lessons';
+  END IF;
+
+  DELETE FROM public.lesson_blocks
+  WHERE lesson_id = p_lesson_id
+    AND id NOT IN (
+      SELECT (block ->> 'id')::uuid
+      FROM jsonb_array_elements(COALESCE(p_blocks, '[]'::jsonb)) AS block
+      WHERE block ->> 'id' IS NOT NULL
+    );
+
+  UPDATE public.lesson_blocks lb
+  SET type = submitted.type,
+      title = submitted.title,
+      url = submitted.url,
+      body = submitted.body,
+      storage_path = submitted.storage_path,
+      file_name = submitted.file_name,
+      "order" = submitted.position,
+      required = COALESCE(submitted.required, false),
+      updated_at = now()
+  FROM (
+    SELECT b.*, position::integer AS position
+    FROM jsonb_array_elements(COALESCE(p_blocks, '[]'::jsonb)) WITH ORDINALITY AS elements(block, position),
+      jsonb_to_record(elements.block) AS b(
+        id uuid, type text, title text, url text, body text, storage_path text, file_name text, required boolean
+      )
+  ) submitted
+  WHERE lb.id = submitted.id
+    AND lb.lesson_id = p_lesson_id;
+
+  INSERT INTO public.lesson_blocks (lesson_id, type, title, url, body, storage_path, file_name, "order", required)
+  SELECT p_lesson_id, b.type, b.title, b.url, b.body, b.storage_path, b.file_name, position::integer, COALESCE(b.required, false)
+  FROM jsonb_array_elements(COALESCE(p_blocks, '[]'::jsonb)) WITH ORDINALITY AS elements(block, position),
+    jsonb_to_record(elements.block) AS b(
+      id uuid, type text, title text, url text, body text, storage_path text, file_name text, required boolean
+    )
+  WHERE b.id IS NULL;
+END;
+$$;
@@ -0,0 +1,35 @@
+-- record_lesson_time added whatever the client reported, so repeated calls could inflate a
+-- student's time. Each report now counts for at most the time since the previous one
+-- (last_tracked_at), and never more than a minute: the tracker reports every 30 seconds.
+ALTER TABLE public.user_progress
+  ADD COLUMN IF NOT EXISTS last_tracked_at timestamp with time zone;
+
+CREATE OR REPLACE FUNCTION public.record_lesson_time(p_course_id uuid, p_lesson_id uuid, p_seconds integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  capped_seconds integer := LEAST(GREATEST(p_seconds, 0), 60);
+BEGIN
+  IF auth.uid() IS NULL OR capped_seconds = 0 OR NOT public.can_open_lesson(p_lesson_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.user_progress (user_id, course_id, lesson_id, time_spent, last_tracked_at)
+  SELECT auth.uid(), course_id, id, capped_seconds, now()
+  FROM public.lessons
+  WHERE id = p_lesson_id AND course_id = p_course_id
+  ON CONFLICT (user_id, lesson_id) DO UPDATE
+  SET time_spent = user_progress.time_spent + CASE
+        WHEN user_progress.last_tracked_at IS NULL THEN EXCLUDED.time_spent
+        ELSE LEAST(
+          EXCLUDED.time_spent,
+          GREATEST(0, ceil(extract(epoch FROM now() - user_progress.last_tracked_at))::integer)
+        )
+      END,
+      last_tracked_at = GREATEST(COALESCE(user_progress.last_tracked_at, now()), now()),
+      updated_at = now();
+END;
+$$;